@@ -1,20 +1,62 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
 import "@openzeppelin/contracts/access/Ownable2Step.sol";
 import "@openzeppelin/contracts/utils/Address.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
 import "./Whitelist.sol";
 
-contract Presale is Pausable, Ownable2Step, ReentrancyGuard, Whitelist {
-  int public immutable VERSION = 1;
+/// @title Presale with registration fees in ETH or token.
+/// @notice Deployed as plain contract initialized by constructor, or as implementation behind UUPS proxy initialized
+/// by `initialize`.
+/// @dev Storage of upgradeable deployment must only be appended to, layout is checked by `presale:upgrade`.
+contract Presale is Initializable, UUPSUpgradeable, Pausable, Ownable2Step, ReentrancyGuard, Whitelist, EIP712 {
+  using SafeERC20 for IERC20;
+
+  bytes32 public constant VOUCHER_TYPEHASH =
+    keccak256("Voucher(address registrant,uint256 fee,uint256 nonce,uint256 expiry)");
 
   struct Registration {
     address user;
     uint timestamp;
     bool isRegistered;
     uint paidFee;
+    bool isRefunded;
+    address asset;
+    uint phase;
+    address referrer;
+    /// @dev Rebate accrued to referrer from paid fee.
+    uint referralRebate;
+    /// @dev Relayer who paid fee of voucher for user, its refund goes to relayer. Zero when user paid itself.
+    address payer;
+    /// @dev Claims of rebates by referrer in asset before registration, rebate is claimed once the count grows.
+    uint referrerClaimCount;
+  }
+
+  struct Phase {
+    uint startDate;
+    uint endDate;
+    uint maxRegistrations;
+    uint registrationFee;
+    uint tokenRegistrationFee;
+    bool isWhitelistRequired;
+  }
+
+  /// @dev EIP-712 voucher of registration issued by owner or voucher signer and submitted by relayer.
+  struct Voucher {
+    address registrant;
+    /// @dev Fee replacing fee of presale, zero waives it.
+    uint fee;
+    uint nonce;
+    uint expiry;
   }
 
   mapping(address => Registration) public registrations;
@@ -24,6 +66,32 @@ contract Presale is Pausable, Ownable2Step, ReentrancyGuard, Whitelist {
   uint public maxRegistrations;
   uint private registrationCount;
   uint public registrationFee;
+  uint public minRegistrations;
+  bool public isCancelled;
+  IERC20 public feeToken;
+  uint public tokenRegistrationFee;
+  /// @dev Fees paid by registrants and not refunded by asset, zero address for ETH.
+  mapping(address => uint) private totalFees;
+  /// @dev Ordered phases of presale, registration follows the active one when the list is not empty.
+  Phase[] private phases;
+  /// @dev Number of registrations by number of phase starting from one.
+  mapping(uint => uint) private phaseRegistrationCount;
+  /// @notice Account allowed to pause presale besides owner, e.g. when owner is timelock.
+  address public guardian;
+  /// @notice Signer of vouchers besides owner, zero address when only owner signs.
+  address public voucherSigner;
+  /// @dev Used or invalidated nonces of vouchers by registrant.
+  mapping(address => mapping(uint => bool)) private usedVoucherNonces;
+  /// @notice Rebate of referrer in basis points of paid fee.
+  uint public referralRebateBps;
+  /// @dev Unclaimed rebates by referrer and asset, zero address for ETH.
+  mapping(address => mapping(address => uint)) private referralRebates;
+  /// @dev Unclaimed rebates of all referrers by asset, excluded from balance available to owner.
+  mapping(address => uint) private totalReferralRebates;
+  /// @dev Number of registrations whose fee is refunded.
+  uint private refundCount;
+  /// @dev Number of rebate claims by referrer and asset.
+  mapping(address => mapping(address => uint)) private referralRebateClaimCount;
 
   /// @notice Error when the user has already been registered in the presale.
   /// @param startDate Start presale after this time.
@@ -59,18 +127,79 @@ contract Presale is Pausable, Ownable2Step, ReentrancyGuard, Whitelist {
   /// @param balance Current balance.
   error NotEnoughFunds(uint amount, uint balance);
 
+  /// @notice Presale is cancelled by owner.
+  error PresaleIsCancelled();
+
+  /// @notice User is not registered for the presale.
+  /// @param user Address of user.
+  error UserIsNotRegistered(address user);
+
+  /// @notice Fee of user is already refunded.
+  /// @param user Address of user.
+  error UserAlreadyRefunded(address user);
+
+  /// @notice Refunds are open, presale is cancelled or minimum of registrations is not reached by end date.
+  error EnforcedRefund();
+
+  /// @notice Refunds are not open.
+  error ExpectedRefund();
+
+  /// @notice Registration fee in token is not set.
+  error FeeTokenIsNotSet();
+
+  /// @notice Fee token can not be changed while it holds fees not refunded.
+  /// @param token Current fee token.
+  error FeeTokenInUse(address token);
+
+  /// @notice No phase is active at the moment while presale has phases.
+  error NoActivePhase();
+
+  /// @notice Phase is out of presale dates or starts before the end of previous phase.
+  /// @param phase Number of phase starting from one.
+  error InvalidPhase(uint phase);
+
+  /// @notice Voucher is signed neither by owner nor by voucher signer.
+  /// @param signer Address recovered from signature.
+  error InvalidVoucherSigner(address signer);
+
+  /// @notice Voucher is expired.
+  /// @param expiry Voucher is valid until this time.
+  error VoucherExpired(uint expiry);
+
+  /// @notice Nonce of voucher is already used or invalidated.
+  error VoucherNonceUsed(address registrant, uint nonce);
+
+  /// @notice User can not refer itself.
+  /// @param user Address of user.
+  error SelfReferral(address user);
+
+  /// @notice Referrer must be registered before referring others.
+  /// @param referrer Address of referrer.
+  error ReferrerIsNotRegistered(address referrer);
+
+  /// @notice Rebate is more than 10000 basis points.
+  error InvalidReferralRebate(uint referralRebateBps);
+
+  /// @notice Rebates can not be claimed while fees are locked for refunds.
+  error ReferralRebatesLocked();
+
+  /// @notice Referrer has no unclaimed rebate in asset.
+  /// @param asset Address of token or zero address for ETH.
+  error NoReferralRebate(address referrer, address asset);
+
   /// @dev Ensure amount of registration fee.
   modifier onlyCorrectRegistrationFee() {
-    if (msg.value < registrationFee) {
-      revert IncorrectRegistrationFee(registrationFee);
+    uint fee = getCurrentPhase().registrationFee;
+    if (msg.value < fee) {
+      revert IncorrectRegistrationFee(fee);
     }
     _;
   }
 
   /// @dev Ensure user registration one time.
-  modifier isRegistered() {
-    if (registrations[msg.sender].isRegistered) {
-      revert UserAlreadyRegistered({ user: msg.sender, timestamp: registrations[msg.sender].timestamp });
+  modifier isRegistered(address _user) {
+    if (registrations[_user].isRegistered) {
+      revert UserAlreadyRegistered({ user: _user, timestamp: registrations[_user].timestamp });
     }
     _;
   }
@@ -85,26 +214,74 @@ contract Presale is Pausable, Ownable2Step, ReentrancyGuard, Whitelist {
     _;
   }
 
-  /// @dev Ensure the presale active.
+  /// @dev Ensure the presale active, and one of phases when presale has phases.
   modifier onlyPresaleActive() {
     if (block.timestamp < startDate || block.timestamp > endDate) {
       revert PresaleIsNotActive(startDate, endDate);
     }
+    if (phases.length > 0 && currentPhase() == 0) {
+      revert NoActivePhase();
+    }
     _;
   }
 
-  /// @dev Ensure number of maximum registrations.
+  /// @dev Ensure number of maximum registrations of presale and of the active phase.
   modifier onlyCorrectRegistrationCount() {
     if (registrationCount >= maxRegistrations) {
       revert RegistrationLimitExceeded(registrationCount, maxRegistrations);
     }
+    uint phase = currentPhase();
+    if (phase > 0 && phaseRegistrationCount[phase] >= phases[phase - 1].maxRegistrations) {
+      revert RegistrationLimitExceeded(phaseRegistrationCount[phase], phases[phase - 1].maxRegistrations);
+    }
     _;
   }
 
-  /// @dev Ensure amount of withdraw.
-  modifier onlyAvailableBalance(uint _amount) {
-    if (_amount > address(this).balance) {
-      revert NotEnoughFunds(_amount, address(this).balance);
+  /// @dev Ensure amount of withdraw, fees locked for refunds are not available.
+  /// @param _asset Address of token or zero address for ETH.
+  modifier onlyAvailableBalance(address _asset, uint _amount) {
+    if (_amount > availableBalance(_asset)) {
+      revert NotEnoughFunds(_amount, availableBalance(_asset));
+    }
+    _;
+  }
+
+  /// @dev Ensure registration fee in token is set.
+  modifier whenFeeTokenSet() {
+    if (address(feeToken) == address(0)) {
+      revert FeeTokenIsNotSet();
+    }
+    _;
+  }
+
+  /// @dev Ensure presale is not cancelled.
+  modifier whenNotCancelled() {
+    if (isCancelled) {
+      revert PresaleIsCancelled();
+    }
+    _;
+  }
+
+  /// @dev Ensure refunds are open.
+  modifier whenRefundAvailable() {
+    if (!isRefundAvailable()) {
+      revert ExpectedRefund();
+    }
+    _;
+  }
+
+  /// @dev Ensure refunds are not open.
+  modifier whenRefundNotAvailable() {
+    if (isRefundAvailable()) {
+      revert EnforcedRefund();
+    }
+    _;
+  }
+
+  /// @dev Ensure caller is owner or guardian.
+  modifier onlyOwnerOrGuardian() {
+    if (msg.sender != owner() && msg.sender != guardian) {
+      revert OwnableUnauthorizedAccount(msg.sender);
     }
     _;
   }
@@ -118,7 +295,9 @@ contract Presale is Pausable, Ownable2Step, ReentrancyGuard, Whitelist {
   }
 
   /// @notice Emitted when user registered on presale.
-  event Registered(address indexed user, uint timestamp, uint indexed paidFee);
+  /// @param asset Address of token paid or zero address for ETH.
+  /// @param phase Number of phase starting from one, zero when presale has no phases.
+  event Registered(address indexed user, uint timestamp, uint indexed paidFee, address indexed asset, uint phase);
 
   /// @notice Emitted when owner changed settings.
   event ChangedSettings(
@@ -135,25 +314,112 @@ contract Presale is Pausable, Ownable2Step, ReentrancyGuard, Whitelist {
   /// @notice Emitted when owner withdraw amount from contract.
   event Withdrawal(uint indexed amount, uint timestamp);
 
+  /// @notice Emitted when owner withdraw amount of token from contract.
+  event TokenWithdrawal(address indexed token, uint indexed amount, uint timestamp);
+
+  /// @notice Emitted when owner changed token or amount of registration fee in token.
+  event ChangedFeeToken(address oldFeeToken, address feeToken, uint oldTokenRegistrationFee, uint tokenRegistrationFee);
+
+  /// @notice Emitted for every phase when owner changed phases.
+  /// @param phase Number of phase starting from one.
+  event ChangedPhase(
+    uint indexed phase,
+    uint startDate,
+    uint endDate,
+    uint maxRegistrations,
+    uint registrationFee,
+    uint tokenRegistrationFee,
+    bool isWhitelistRequired
+  );
+
+  /// @notice Emitted when owner changed number of phases.
+  event ChangedPhaseCount(uint oldPhaseCount, uint phaseCount);
+
+  /// @notice Emitted when owner changed minimum of registrations.
+  event ChangedMinRegistrations(uint oldMinRegistrations, uint minRegistrations);
+
+  /// @notice Emitted when owner cancelled presale.
+  /// @param topUp Amount sent by owner to cover refunds.
+  event PresaleCancelled(uint topUp, uint timestamp);
+
+  /// @notice Emitted when owner changed guardian.
+  event ChangedGuardian(address oldGuardian, address guardian);
+
+  /// @notice Emitted when owner changed signer of vouchers.
+  event ChangedVoucherSigner(address oldVoucherSigner, address voucherSigner);
+
+  /// @notice Emitted when voucher is used for registration.
+  /// @param relayer Address which submitted voucher and paid its fee.
+  event VoucherUsed(address indexed registrant, uint indexed nonce, address relayer);
+
+  /// @notice Emitted when owner invalidated nonce of voucher.
+  event VoucherInvalidated(address indexed registrant, uint indexed nonce);
+
+  /// @notice Emitted when owner changed rebate of referrers.
+  event ChangedReferralRebate(uint oldReferralRebateBps, uint referralRebateBps);
+
+  /// @notice Emitted when user registered with referrer.
+  /// @param rebate Rebate accrued to referrer in asset of paid fee.
+  event Referred(address indexed referrer, address indexed user, address indexed asset, uint rebate);
+
+  /// @notice Emitted when unclaimed rebate of referrer is forfeited on refund of user referred.
+  event ReferralRebateForfeited(address indexed referrer, address indexed user, address indexed asset, uint amount);
+
+  /// @notice Emitted when referrer claimed rebate.
+  event ReferralRebateClaimed(address indexed referrer, address indexed asset, uint amount);
+
+  /// @notice Emitted when fee of user refunded.
+  /// @param asset Address of token refunded or zero address for ETH.
+  event Refunded(address indexed user, uint amount, address indexed asset);
+
+  /// @dev Initializes plain deployment. Implementation of proxy is deployed with zero settings, so that it never
+  /// accepts registrations itself. Initializer is disabled in both cases.
   constructor(
     uint _startDate,
     uint _endDate,
     uint _maxRegistrations,
     uint _registrationFee,
     bool _whitelistStatusInit
-  ) Ownable(msg.sender) Whitelist(_whitelistStatusInit) {
-    startDate = _startDate;
-    endDate = _endDate;
-    maxRegistrations = _maxRegistrations;
-    registrationCount = 0;
-    registrationFee = _registrationFee;
+  ) Ownable(msg.sender) Whitelist(_whitelistStatusInit) EIP712("Presale", "1") {
+    _initializeSettings(_startDate, _endDate, _maxRegistrations, _registrationFee);
+    _disableInitializers();
+  }
+
+  /// @notice Initialize presale deployed behind proxy, replaces constructor.
+  /// @param _owner Owner of presale.
+  function initialize(
+    address _owner,
+    uint _startDate,
+    uint _endDate,
+    uint _maxRegistrations,
+    uint _registrationFee,
+    bool _whitelistStatusInit
+  ) external initializer {
+    if (_owner == address(0)) {
+      revert OwnableInvalidOwner(address(0));
+    }
+    _transferOwnership(_owner);
+    _initializeWhitelist(_whitelistStatusInit);
+    _initializeSettings(_startDate, _endDate, _maxRegistrations, _registrationFee);
+  }
+
+  /// @notice Get version of implementation, increased by every upgrade.
+  function VERSION() public pure virtual returns (int) {
+    return 1;
   }
 
-  /// @notice Allows the contract owner to pause all activities in the store.
-  function pause() external onlyOwner whenNotPaused {
+  /// @notice Allows the contract owner or guardian to pause all activities in the store.
+  function pause() external onlyOwnerOrGuardian whenNotPaused {
     _pause();
   }
 
+  /// @notice Set guardian allowed to pause presale without delay of owner, zero address removes it.
+  /// @param _guardian Address of guardian.
+  function setGuardian(address _guardian) external onlyOwner {
+    emit ChangedGuardian(guardian, _guardian);
+    guardian = _guardian;
+  }
+
   /// @notice Allows the contract owner to resume all activities in the store.
   function unpause() external onlyOwner whenPaused {
     _unpause();
@@ -164,20 +430,191 @@ contract Presale is Pausable, Ownable2Step, ReentrancyGuard, Whitelist {
     external
     payable
     onlyCorrectRegistrationFee
-    isRegistered
+    isRegistered(msg.sender)
     onlyPresaleActive
     onlyCorrectRegistrationCount
     whenNotPaused
+    whenNotCancelled
     onlyWhitelisted(msg.sender)
   {
-    Registration memory registration;
-    registration.user = msg.sender;
-    registration.timestamp = block.timestamp;
-    registration.isRegistered = true;
-    registration.paidFee = msg.value;
-    registrationCount++;
-    registrations[msg.sender] = registration;
-    emit Registered(msg.sender, block.timestamp, msg.value);
+    _register(msg.sender, address(0), msg.value);
+  }
+
+  /// @notice Registers a user for the presale with Merkle proof of whitelist, with the same checks as `register`.
+  /// @param _proof Merkle proof of user address, ignored when whitelist uses mapping mode.
+  function registerWithProof(
+    bytes32[] calldata _proof
+  )
+    external
+    payable
+    onlyCorrectRegistrationFee
+    isRegistered(msg.sender)
+    onlyPresaleActive
+    onlyCorrectRegistrationCount
+    whenNotPaused
+    whenNotCancelled
+    onlyWhitelistedWithProof(msg.sender, _proof)
+  {
+    _register(msg.sender, address(0), msg.value);
+  }
+
+  /// @notice Registers a user for the presale with referrer accruing rebate, with the same checks as `register`.
+  /// @param _proof Merkle proof of user address, ignored when whitelist uses mapping mode.
+  /// @param _referrer Registered user who referred caller.
+  function registerWithReferrer(
+    bytes32[] calldata _proof,
+    address _referrer
+  )
+    external
+    payable
+    onlyCorrectRegistrationFee
+    isRegistered(msg.sender)
+    onlyPresaleActive
+    onlyCorrectRegistrationCount
+    whenNotPaused
+    whenNotCancelled
+    onlyWhitelistedWithProof(msg.sender, _proof)
+  {
+    _registerWithReferrer(msg.sender, address(0), msg.value, _referrer);
+  }
+
+  /// @notice Registers a user for the presale with fee in token taken by `transferFrom`, with the same checks as `register`.
+  /// @param _proof Merkle proof of user address, ignored when whitelist uses mapping mode.
+  function registerWithToken(
+    bytes32[] calldata _proof
+  )
+    external
+    whenFeeTokenSet
+    isRegistered(msg.sender)
+    onlyPresaleActive
+    onlyCorrectRegistrationCount
+    whenNotPaused
+    whenNotCancelled
+    onlyWhitelistedWithProof(msg.sender, _proof)
+    nonReentrant
+  {
+    _register(msg.sender, address(feeToken), _receiveTokenFee());
+  }
+
+  /// @notice Registers a user for the presale with fee in token and referrer accruing rebate in token.
+  /// @param _proof Merkle proof of user address, ignored when whitelist uses mapping mode.
+  /// @param _referrer Registered user who referred caller.
+  function registerWithTokenAndReferrer(
+    bytes32[] calldata _proof,
+    address _referrer
+  )
+    external
+    whenFeeTokenSet
+    isRegistered(msg.sender)
+    onlyPresaleActive
+    onlyCorrectRegistrationCount
+    whenNotPaused
+    whenNotCancelled
+    onlyWhitelistedWithProof(msg.sender, _proof)
+    nonReentrant
+  {
+    _registerWithReferrer(msg.sender, address(feeToken), _receiveTokenFee(), _referrer);
+  }
+
+  /// @notice Registers a user for the presale with fee in token approved by EIP-2612 permit in the same transaction.
+  /// @dev Permit is skipped when allowance covers the fee, so a permit used by front-runner does not block registration.
+  /// @param _proof Merkle proof of user address, ignored when whitelist uses mapping mode.
+  /// @param _deadline Deadline of permit.
+  /// @param _v Recovery byte of permit signature.
+  /// @param _r First 32 bytes of permit signature.
+  /// @param _s Second 32 bytes of permit signature.
+  function registerWithPermit(
+    bytes32[] calldata _proof,
+    uint _deadline,
+    uint8 _v,
+    bytes32 _r,
+    bytes32 _s
+  )
+    external
+    whenFeeTokenSet
+    isRegistered(msg.sender)
+    onlyPresaleActive
+    onlyCorrectRegistrationCount
+    whenNotPaused
+    whenNotCancelled
+    onlyWhitelistedWithProof(msg.sender, _proof)
+    nonReentrant
+  {
+    uint fee = getCurrentPhase().tokenRegistrationFee;
+    if (feeToken.allowance(msg.sender, address(this)) < fee) {
+      IERC20Permit(address(feeToken)).permit(msg.sender, address(this), fee, _deadline, _v, _r, _s);
+    }
+    _register(msg.sender, address(feeToken), _receiveTokenFee());
+  }
+
+  /// @notice Registers registrant of voucher signed by owner or voucher signer, submitted by relayer paying the gas.
+  /// @dev Checks of `register` apply except the whitelist, which the voucher replaces. Fee of voucher is paid by caller.
+  /// @param _voucher Voucher of registration.
+  /// @param _signature EIP-712 signature of voucher.
+  function registerWithSignature(
+    Voucher calldata _voucher,
+    bytes calldata _signature
+  )
+    external
+    payable
+    isRegistered(_voucher.registrant)
+    onlyPresaleActive
+    onlyCorrectRegistrationCount
+    whenNotPaused
+    whenNotCancelled
+  {
+    if (msg.value < _voucher.fee) {
+      revert IncorrectRegistrationFee(_voucher.fee);
+    }
+    if (block.timestamp > _voucher.expiry) {
+      revert VoucherExpired(_voucher.expiry);
+    }
+    if (usedVoucherNonces[_voucher.registrant][_voucher.nonce]) {
+      revert VoucherNonceUsed(_voucher.registrant, _voucher.nonce);
+    }
+    address signer = recoverVoucherSigner(_voucher, _signature);
+    if (signer != owner() && signer != voucherSigner) {
+      revert InvalidVoucherSigner(signer);
+    }
+    usedVoucherNonces[_voucher.registrant][_voucher.nonce] = true;
+    emit VoucherUsed(_voucher.registrant, _voucher.nonce, msg.sender);
+    _register(_voucher.registrant, address(0), msg.value);
+    if (msg.value > 0 && msg.sender != _voucher.registrant) {
+      registrations[_voucher.registrant].payer = msg.sender;
+    }
+  }
+
+  /// @notice Set signer of vouchers besides owner, zero address leaves only owner.
+  /// @param _voucherSigner Address of signer.
+  function setVoucherSigner(address _voucherSigner) external onlyOwner {
+    emit ChangedVoucherSigner(voucherSigner, _voucherSigner);
+    voucherSigner = _voucherSigner;
+  }
+
+  /// @notice Invalidate nonce of voucher issued but not used yet.
+  /// @param _registrant Registrant of voucher.
+  /// @param _nonce Nonce of voucher.
+  function invalidateVoucher(address _registrant, uint _nonce) external onlyOwner {
+    if (usedVoucherNonces[_registrant][_nonce]) {
+      revert VoucherNonceUsed(_registrant, _nonce);
+    }
+    usedVoucherNonces[_registrant][_nonce] = true;
+    emit VoucherInvalidated(_registrant, _nonce);
+  }
+
+  /// @notice Check that nonce of voucher is used or invalidated.
+  function isVoucherNonceUsed(address _registrant, uint _nonce) external view returns (bool) {
+    return usedVoucherNonces[_registrant][_nonce];
+  }
+
+  /// @notice Recover signer of voucher.
+  /// @param _voucher Voucher of registration.
+  /// @param _signature EIP-712 signature of voucher.
+  function recoverVoucherSigner(Voucher calldata _voucher, bytes calldata _signature) public view returns (address) {
+    bytes32 structHash = keccak256(
+      abi.encode(VOUCHER_TYPEHASH, _voucher.registrant, _voucher.fee, _voucher.nonce, _voucher.expiry)
+    );
+    return ECDSA.recover(_hashTypedDataV4(structHash), _signature);
   }
 
   /// @notice Check registration on presale by address.
@@ -188,6 +625,7 @@ contract Presale is Pausable, Ownable2Step, ReentrancyGuard, Whitelist {
   }
 
   /// @notice Updates the settings of the presale, including start date, end date, and maximum number of registrations.
+  /// @dev Phases must stay within new dates, clear or replace them first.
   /// @param _newStartDate New start date of Presale.
   /// @param _newEndDate New end date of Presale.
   /// @param _maxRegistrations New count of max registrations.
@@ -196,7 +634,20 @@ contract Presale is Pausable, Ownable2Step, ReentrancyGuard, Whitelist {
     uint _newEndDate,
     uint _maxRegistrations,
     uint _registrationFee
-  ) external onlyOwner onlyCorrectDates(_newStartDate, _newEndDate) validateMaxRegistrations(_maxRegistrations) {
+  )
+    external
+    onlyOwner
+    whenRefundNotAvailable
+    onlyCorrectDates(_newStartDate, _newEndDate)
+    validateMaxRegistrations(_maxRegistrations)
+  {
+    uint phaseCount = phases.length;
+    if (phaseCount > 0 && phases[0].startDate < _newStartDate) {
+      revert InvalidPhase(1);
+    }
+    if (phaseCount > 0 && phases[phaseCount - 1].endDate > _newEndDate) {
+      revert InvalidPhase(phaseCount);
+    }
     uint oldStartDate = startDate;
     uint oldEndDate = endDate;
     uint oldMaxRegistrations = maxRegistrations;
@@ -225,13 +676,236 @@ contract Presale is Pausable, Ownable2Step, ReentrancyGuard, Whitelist {
     return (startDate, endDate, maxRegistrations, registrationFee);
   }
 
+  /// @notice Get number of registrations on presale.
+  /// @return Current number of registrations.
+  function getRegistrationCount() external view returns (uint) {
+    return registrationCount;
+  }
+
+  /// @notice Get number of registrations whose fee is not refunded.
+  function getActiveRegistrationCount() external view returns (uint) {
+    return registrationCount - refundCount;
+  }
+
+  /// @notice Get fees paid by registrants and not refunded.
+  /// @param _asset Address of token or zero address for ETH.
+  function getTotalFees(address _asset) external view returns (uint) {
+    return totalFees[_asset];
+  }
+
+  /// @notice Replace phases of presale, empty list returns presale to single window of settings while no phase is
+  /// active.
+  /// @dev Registration counts stay with phase numbers, so caps can not go below registrations already made.
+  /// @param _phases Phases ordered by dates within dates of presale.
+  function setPhases(Phase[] calldata _phases) external onlyOwner whenRefundNotAvailable {
+    if (_phases.length > 0 || currentPhase() != 0) {
+      uint length = _phases.length > phases.length ? _phases.length : phases.length;
+      for (uint i = 0; i < length; i++) {
+        uint max = i < _phases.length ? _phases[i].maxRegistrations : 0;
+        if (max < phaseRegistrationCount[i + 1]) {
+          revert InvalidMaxRegistrationsUpdate(max, phaseRegistrationCount[i + 1]);
+        }
+      }
+    }
+    uint oldPhaseCount = phases.length;
+    delete phases;
+    for (uint i = 0; i < _phases.length; i++) {
+      Phase calldata phase = _phases[i];
+      if (phase.startDate > phase.endDate) {
+        revert PresaleIncorrectDates(phase.startDate, phase.endDate);
+      }
+      if (
+        phase.startDate < startDate || phase.endDate > endDate || (i > 0 && phase.startDate <= _phases[i - 1].endDate)
+      ) {
+        revert InvalidPhase(i + 1);
+      }
+      phases.push(phase);
+      emit ChangedPhase(
+        i + 1,
+        phase.startDate,
+        phase.endDate,
+        phase.maxRegistrations,
+        phase.registrationFee,
+        phase.tokenRegistrationFee,
+        phase.isWhitelistRequired
+      );
+    }
+    emit ChangedPhaseCount(oldPhaseCount, _phases.length);
+  }
+
+  /// @notice Get phases of presale.
+  function getPhases() external view returns (Phase[] memory) {
+    return phases;
+  }
+
+  /// @notice Get number of registrations in phase.
+  /// @param _phase Number of phase starting from one.
+  function getPhaseRegistrationCount(uint _phase) external view returns (uint) {
+    return phaseRegistrationCount[_phase];
+  }
+
+  /// @notice Number of the active phase starting from one, zero when no phase is active or presale has no phases.
+  function currentPhase() public view returns (uint) {
+    for (uint i = 0; i < phases.length; i++) {
+      if (block.timestamp >= phases[i].startDate && block.timestamp <= phases[i].endDate) {
+        return i + 1;
+      }
+    }
+    return 0;
+  }
+
+  /// @notice Get settings applied to registration now, of the active phase or of presale when it has no phases.
+  /// @return Settings in format of phase, whitelist is required when it is on for presale.
+  function getCurrentPhase() public view returns (Phase memory) {
+    uint phase = currentPhase();
+    if (phase > 0) {
+      return phases[phase - 1];
+    }
+    return Phase(startDate, endDate, maxRegistrations, registrationFee, tokenRegistrationFee, whitelistStatus());
+  }
+
+  /// @notice Set token and amount of registration fee in token, zero token turns off registration with token.
+  /// @param _feeToken Address of ERC-20 token.
+  /// @param _tokenRegistrationFee Amount of registration fee in units of token.
+  function setFeeToken(address _feeToken, uint _tokenRegistrationFee) external onlyOwner {
+    address oldFeeToken = address(feeToken);
+    // Fees under zero address are ETH, they do not tie presale to a token
+    if (_feeToken != oldFeeToken && oldFeeToken != address(0) && totalFees[oldFeeToken] > 0) {
+      revert FeeTokenInUse(oldFeeToken);
+    }
+    uint oldTokenRegistrationFee = tokenRegistrationFee;
+    feeToken = IERC20(_feeToken);
+    tokenRegistrationFee = _tokenRegistrationFee;
+    emit ChangedFeeToken(oldFeeToken, _feeToken, oldTokenRegistrationFee, _tokenRegistrationFee);
+  }
+
+  /// @notice Set minimum of registrations by end date, refunds are open when it is not reached.
+  /// @dev Threshold above current registrations locks fees, so withdrawn fees must be returned first.
+  /// @param _minRegistrations New minimum of registrations, zero turns off the threshold.
+  function setMinRegistrations(uint _minRegistrations) external onlyOwner whenRefundNotAvailable {
+    if (_minRegistrations > registrationCount) {
+      _requireFeesCovered();
+    }
+    uint oldMinRegistrations = minRegistrations;
+    minRegistrations = _minRegistrations;
+    emit ChangedMinRegistrations(oldMinRegistrations, _minRegistrations);
+  }
+
+  /// @notice Cancel presale and open refunds, the balance with sent value must cover all fees not refunded.
+  /// @dev Withdrawn fees in token must be transferred back before cancel.
+  function cancelPresale() external payable onlyOwner whenNotCancelled {
+    _requireFeesCovered();
+    isCancelled = true;
+    emit PresaleCancelled(msg.value, block.timestamp);
+  }
+
+  /// @notice Refund fee of caller, possible once when refunds are open, also while paused so that pause can not hold
+  /// fees back. Fee paid by relayer of voucher goes back to relayer.
+  function refund() external nonReentrant whenRefundAvailable {
+    Registration storage registration = registrations[msg.sender];
+    if (!registration.isRegistered) {
+      revert UserIsNotRegistered(msg.sender);
+    }
+    if (registration.isRefunded) {
+      revert UserAlreadyRefunded(msg.sender);
+    }
+    registration.isRefunded = true;
+    refundCount++;
+    totalFees[registration.asset] -= registration.paidFee;
+    if (registration.referralRebate > 0) {
+      _forfeitReferralRebate(registration);
+    }
+    if (registration.asset == address(0)) {
+      address recipient = registration.payer == address(0) ? msg.sender : registration.payer;
+      Address.sendValue(payable(recipient), registration.paidFee);
+    } else {
+      IERC20(registration.asset).safeTransfer(msg.sender, registration.paidFee);
+    }
+    emit Refunded(msg.sender, registration.paidFee, registration.asset);
+  }
+
+  /// @notice Check refunds are open, after cancel or when minimum of registrations is not reached by end date.
+  function isRefundAvailable() public view returns (bool) {
+    return isCancelled || (block.timestamp > endDate && registrationCount < minRegistrations);
+  }
+
+  /// @notice Funds owner can not withdraw: fees not refunded yet while presale is cancelled or minimum of
+  /// registrations is not reached, otherwise unclaimed rebates of referrers.
+  /// @dev Unclaimed rebates are part of fees not refunded, so locked fees cover them.
+  /// @param _asset Address of token or zero address for ETH.
+  function getLockedFunds(address _asset) public view returns (uint) {
+    return _areFeesLocked() ? totalFees[_asset] : totalReferralRebates[_asset];
+  }
+
+  /// @notice Set rebate of referrers for registrations made after the change.
+  /// @param _referralRebateBps Rebate in basis points of paid fee, zero turns rebates off.
+  function setReferralRebate(uint _referralRebateBps) external onlyOwner {
+    if (_referralRebateBps > 10000) {
+      revert InvalidReferralRebate(_referralRebateBps);
+    }
+    emit ChangedReferralRebate(referralRebateBps, _referralRebateBps);
+    referralRebateBps = _referralRebateBps;
+  }
+
+  /// @notice Claim unclaimed rebate of caller, possible while fees are not locked for refunds.
+  /// @param _asset Address of token or zero address for ETH.
+  function claimReferralRebate(address _asset) external nonReentrant whenNotPaused {
+    if (_areFeesLocked()) {
+      revert ReferralRebatesLocked();
+    }
+    uint amount = referralRebates[msg.sender][_asset];
+    if (amount == 0) {
+      revert NoReferralRebate(msg.sender, _asset);
+    }
+    referralRebates[msg.sender][_asset] = 0;
+    referralRebateClaimCount[msg.sender][_asset]++;
+    totalReferralRebates[_asset] -= amount;
+    if (_asset == address(0)) {
+      Address.sendValue(payable(msg.sender), amount);
+    } else {
+      IERC20(_asset).safeTransfer(msg.sender, amount);
+    }
+    emit ReferralRebateClaimed(msg.sender, _asset, amount);
+  }
+
+  /// @notice Get unclaimed rebate of referrer.
+  /// @param _asset Address of token or zero address for ETH.
+  function getReferralRebate(address _referrer, address _asset) external view returns (uint) {
+    return referralRebates[_referrer][_asset];
+  }
+
+  /// @notice Balance available for withdraw by owner.
+  /// @param _asset Address of token or zero address for ETH.
+  function availableBalance(address _asset) public view returns (uint) {
+    uint balance = _balanceOf(_asset);
+    uint lockedFunds = getLockedFunds(_asset);
+    return balance > lockedFunds ? balance - lockedFunds : 0;
+  }
+
   /// @notice Withdraw funds from contract.
   /// @param amount Amount for withdraw
-  function withdrawFunds(uint amount) external onlyAvailableBalance(amount) onlyOwner nonReentrant {
+  function withdrawFunds(uint amount) external onlyAvailableBalance(address(0), amount) onlyOwner nonReentrant {
     Address.sendValue(payable(msg.sender), amount);
     emit Withdrawal(amount, block.timestamp);
   }
 
+  /// @notice Withdraw token from contract, e.g. fees in token.
+  /// @param _token Address of token.
+  /// @param _amount Amount for withdraw in units of token.
+  function withdrawTokenFunds(
+    address _token,
+    uint _amount
+  ) external onlyAvailableBalance(_token, _amount) onlyOwner nonReentrant {
+    IERC20(_token).safeTransfer(msg.sender, _amount);
+    emit TokenWithdrawal(_token, _amount, block.timestamp);
+  }
+
+  /// @notice Set Merkle root of whitelist, zero root switches whitelist back to mapping mode.
+  /// @param _merkleRoot Root of Merkle tree built from whitelisted addresses
+  function setMerkleRoot(bytes32 _merkleRoot) external onlyOwner {
+    _setMerkleRoot(_merkleRoot);
+  }
+
   /// @notice Turn on whitelist.
   function turnOnWhitelist() external onlyOwner whenWhitelistOff {
     _turnOnWhitelist();
@@ -242,6 +916,111 @@ contract Presale is Pausable, Ownable2Step, ReentrancyGuard, Whitelist {
     _turnOffWhitelist();
   }
 
+  /// @dev Stores registration of user and counts it.
+  /// @param _user Address of user.
+  /// @param _asset Address of token paid or zero address for ETH.
+  /// @param _paidFee Fee paid by user.
+  function _register(address _user, address _asset, uint _paidFee) private {
+    uint phase = currentPhase();
+    // Fields are written one by one, so that empty referral fields cost no storage writes.
+    Registration storage registration = registrations[_user];
+    registration.user = _user;
+    registration.timestamp = block.timestamp;
+    registration.isRegistered = true;
+    registration.paidFee = _paidFee;
+    registration.asset = _asset;
+    registration.phase = phase;
+    registrationCount++;
+    phaseRegistrationCount[phase]++;
+    totalFees[_asset] += _paidFee;
+    emit Registered(_user, block.timestamp, _paidFee, _asset, phase);
+  }
+
+  /// @dev Stores registration of user and accrues rebate of paid fee to referrer.
+  /// @param _referrer Registered user who referred user.
+  function _registerWithReferrer(address _user, address _asset, uint _paidFee, address _referrer) private {
+    if (_referrer == _user) {
+      revert SelfReferral(_user);
+    }
+    if (!registrations[_referrer].isRegistered) {
+      revert ReferrerIsNotRegistered(_referrer);
+    }
+    _register(_user, _asset, _paidFee);
+    uint rebate = (_paidFee * referralRebateBps) / 10000;
+    Registration storage registration = registrations[_user];
+    registration.referrer = _referrer;
+    registration.referralRebate = rebate;
+    uint claimCount = referralRebateClaimCount[_referrer][_asset];
+    if (claimCount > 0) {
+      registration.referrerClaimCount = claimCount;
+    }
+    referralRebates[_referrer][_asset] += rebate;
+    totalReferralRebates[_asset] += rebate;
+    emit Referred(_referrer, _user, _asset, rebate);
+  }
+
+  /// @dev Drops rebate accrued from refunded registration unless referrer claimed it already, claim takes every rebate
+  /// accrued before it, so rebates of other users referred stay with referrer.
+  function _forfeitReferralRebate(Registration storage _registration) private {
+    address referrer = _registration.referrer;
+    address asset = _registration.asset;
+    if (referralRebateClaimCount[referrer][asset] != _registration.referrerClaimCount) {
+      return;
+    }
+    uint amount = _registration.referralRebate;
+    referralRebates[referrer][asset] -= amount;
+    totalReferralRebates[asset] -= amount;
+    emit ReferralRebateForfeited(referrer, _registration.user, asset, amount);
+  }
+
+  /// @dev Sets initial settings of presale.
+  function _initializeSettings(uint _startDate, uint _endDate, uint _maxRegistrations, uint _registrationFee) private {
+    startDate = _startDate;
+    endDate = _endDate;
+    maxRegistrations = _maxRegistrations;
+    registrationFee = _registrationFee;
+  }
+
+  /// @dev Only owner upgrades implementation behind proxy.
+  function _authorizeUpgrade(address) internal view override {
+    _checkOwner();
+  }
+
+  /// @dev Fees are locked while presale is cancelled or minimum of registrations is not reached.
+  function _areFeesLocked() private view returns (bool) {
+    return isCancelled || registrationCount < minRegistrations;
+  }
+
+  /// @dev Takes registration fee in token from caller.
+  /// @return Amount received, less than fee for tokens taking fee on transfer.
+  function _receiveTokenFee() private returns (uint) {
+    uint balance = feeToken.balanceOf(address(this));
+    feeToken.safeTransferFrom(msg.sender, address(this), getCurrentPhase().tokenRegistrationFee);
+    return feeToken.balanceOf(address(this)) - balance;
+  }
+
+  /// @dev Checking that balances of ETH and fee token cover fees not refunded.
+  function _requireFeesCovered() private view {
+    if (address(this).balance < totalFees[address(0)]) {
+      revert NotEnoughFunds(totalFees[address(0)], address(this).balance);
+    }
+    address token = address(feeToken);
+    if (token != address(0) && IERC20(token).balanceOf(address(this)) < totalFees[token]) {
+      revert NotEnoughFunds(totalFees[token], IERC20(token).balanceOf(address(this)));
+    }
+  }
+
+  /// @dev Whitelist is checked when it is on or when the active phase requires it.
+  function _isWhitelistEnforced() internal view override returns (bool) {
+    uint phase = currentPhase();
+    return whitelistStatus() || (phase > 0 && phases[phase - 1].isWhitelistRequired);
+  }
+
+  /// @dev Balance of contract in token or in ETH for zero address.
+  function _balanceOf(address _asset) private view returns (uint) {
+    return _asset == address(0) ? address(this).balance : IERC20(_asset).balanceOf(address(this));
+  }
+
   /// @notice Add address to whitelist.
   /// @param _address Address for adding to whitelist
   function addToWhiteList(address _address) external onlyOwner {
@@ -0,0 +1,258 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/Ownable2Step.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "./Presale.sol";
+
+/// @title Distributor of tokens to registrants of Presale.
+/// @notice After presale ends each registrant claims its allocation, a fixed amount or a share of pool pro rata to
+/// paid fee, released linearly over vesting once cliff passed.
+/// @dev Registrations are read from Presale on claim, claims are closed while refunds are open. The first claim takes
+/// snapshot of fees and registration count, so that registrations reopened by a later end date do not dilute or
+/// overdraw allocations already being claimed. Cancel of presale closes claims for good, yet registrants who claimed
+/// before it can still refund their fees and keep the tokens, so presale should not be cancelled once claims started.
+contract PresaleDistributor is Ownable2Step, ReentrancyGuard {
+  using SafeERC20 for IERC20;
+
+  enum AllocationMode {
+    None,
+    Fixed,
+    ProRata
+  }
+
+  Presale public immutable presale;
+  IERC20 public immutable token;
+
+  AllocationMode public allocationMode;
+  /// @notice Tokens per registrant in fixed mode, pool shared by fees paid in ETH in pro rata mode.
+  uint public allocationAmount;
+  /// @notice Start of claims and vesting, unix timestamp after end date of presale.
+  uint public claimStart;
+  /// @notice Seconds after claim start before anything vests.
+  uint public vestingCliff;
+  /// @notice Seconds after claim start when allocation is fully vested, zero releases it at once.
+  uint public vestingDuration;
+  uint public totalReleased;
+  /// @notice Time of the first claim, zero before it. Registrations made since get no allocation.
+  uint public snapshotTime;
+  /// @notice Fees paid in ETH at the first claim, pro rata allocations are shares of them.
+  uint public snapshotTotalFees;
+  /// @notice Registrations not refunded at the first claim, fixed allocations are owed to them.
+  uint public snapshotRegistrationCount;
+  mapping(address => uint) private released;
+
+  /// @notice Mode is none or amount is zero.
+  error InvalidAllocation();
+
+  /// @notice Claims must start after end date of presale.
+  error InvalidClaimStart(uint claimStart, uint endDate);
+
+  /// @notice Cliff is longer than vesting duration.
+  error InvalidVesting(uint vestingCliff, uint vestingDuration);
+
+  /// @notice Allocation can not change once claims started.
+  error ClaimsStarted(uint claimStart);
+
+  /// @notice Claims are not configured, not started yet or presale has not ended.
+  error ClaimsNotStarted(uint claimStart);
+
+  /// @notice Claims are closed while registrants can refund fees.
+  error ClaimsLocked();
+
+  /// @notice Claims are closed for good once presale is cancelled.
+  error PresaleIsCancelled();
+
+  /// @notice User is not registered or its fee is refunded.
+  /// @param user Address of user.
+  error UserIsNotRegistered(address user);
+
+  /// @notice Pro rata allocation is shared by fees paid in ETH only.
+  /// @param asset Address of token paid by registrant.
+  error UnsupportedFeeAsset(address asset);
+
+  /// @notice Nothing is vested beyond tokens already claimed.
+  error NothingToClaim(address user);
+
+  /// @notice Balance does not exceed allocations not claimed yet.
+  error NotEnoughTokens(uint outstanding, uint balance);
+
+  /// @notice Emitted when owner changed allocation or vesting.
+  event ChangedAllocation(
+    AllocationMode mode,
+    uint allocationAmount,
+    uint claimStart,
+    uint vestingCliff,
+    uint vestingDuration
+  );
+
+  /// @notice Emitted when the first claim took snapshot of registrations.
+  event AllocationsSnapshot(uint timestamp, uint totalFees, uint registrationCount);
+
+  /// @notice Emitted when registrant claimed vested tokens.
+  event Claimed(address indexed user, uint amount);
+
+  /// @notice Emitted when owner withdrew tokens not needed for allocations.
+  event UnallocatedWithdrawal(uint amount);
+
+  /// @param _presale Presale whose registrants receive tokens.
+  /// @param _token ERC-20 token distributed, funded by owner with plain transfer.
+  constructor(Presale _presale, IERC20 _token) Ownable(msg.sender) {
+    presale = _presale;
+    token = _token;
+  }
+
+  /// @notice Set allocation and vesting, possible until claims start.
+  /// @param _mode Fixed amount per registrant or pool shared pro rata to fee paid in ETH.
+  /// @param _allocationAmount Tokens per registrant in fixed mode, whole pool in pro rata mode.
+  /// @param _claimStart Start of claims and vesting, unix timestamp after end date of presale.
+  /// @param _vestingCliff Seconds after claim start before anything vests.
+  /// @param _vestingDuration Seconds after claim start when allocation is fully vested.
+  function setAllocation(
+    AllocationMode _mode,
+    uint _allocationAmount,
+    uint _claimStart,
+    uint _vestingCliff,
+    uint _vestingDuration
+  ) external onlyOwner {
+    if (claimStart != 0 && block.timestamp >= claimStart) {
+      revert ClaimsStarted(claimStart);
+    }
+    if (_mode == AllocationMode.None || _allocationAmount == 0) {
+      revert InvalidAllocation();
+    }
+    (, uint endDate, , ) = presale.getSettings();
+    if (_claimStart <= endDate) {
+      revert InvalidClaimStart(_claimStart, endDate);
+    }
+    if (_vestingCliff > _vestingDuration) {
+      revert InvalidVesting(_vestingCliff, _vestingDuration);
+    }
+    allocationMode = _mode;
+    allocationAmount = _allocationAmount;
+    claimStart = _claimStart;
+    vestingCliff = _vestingCliff;
+    vestingDuration = _vestingDuration;
+    emit ChangedAllocation(_mode, _allocationAmount, _claimStart, _vestingCliff, _vestingDuration);
+  }
+
+  /// @notice Claim tokens of caller vested so far, not possible once presale is cancelled.
+  function claim() external nonReentrant {
+    if (claimStart == 0 || block.timestamp < claimStart) {
+      revert ClaimsNotStarted(claimStart);
+    }
+    (, uint endDate, , ) = presale.getSettings();
+    if (block.timestamp <= endDate) {
+      revert ClaimsNotStarted(claimStart);
+    }
+    if (presale.isCancelled()) {
+      revert PresaleIsCancelled();
+    }
+    if (presale.isRefundAvailable()) {
+      revert ClaimsLocked();
+    }
+    if (snapshotTime == 0) {
+      snapshotTime = block.timestamp;
+      snapshotTotalFees = presale.getTotalFees(address(0));
+      snapshotRegistrationCount = presale.getActiveRegistrationCount();
+      emit AllocationsSnapshot(block.timestamp, snapshotTotalFees, snapshotRegistrationCount);
+    }
+    Presale.Registration memory registration = presale.checkRegistration(msg.sender);
+    if (!registration.isRegistered || registration.isRefunded) {
+      revert UserIsNotRegistered(msg.sender);
+    }
+    if (allocationMode == AllocationMode.ProRata && registration.asset != address(0)) {
+      revert UnsupportedFeeAsset(registration.asset);
+    }
+    uint amount = _claimable(msg.sender, _allocation(registration));
+    if (amount == 0) {
+      revert NothingToClaim(msg.sender);
+    }
+    released[msg.sender] += amount;
+    totalReleased += amount;
+    token.safeTransfer(msg.sender, amount);
+    emit Claimed(msg.sender, amount);
+  }
+
+  /// @notice Withdraw tokens above allocations not claimed yet to owner, e.g. overfunding.
+  /// @dev Rounding dust of pro rata allocations stays, it is less than one unit of token per registrant.
+  function withdrawUnallocated() external onlyOwner nonReentrant {
+    uint balance = token.balanceOf(address(this));
+    uint outstanding = getOutstandingAllocations();
+    if (balance <= outstanding) {
+      revert NotEnoughTokens(outstanding, balance);
+    }
+    token.safeTransfer(owner(), balance - outstanding);
+    emit UnallocatedWithdrawal(balance - outstanding);
+  }
+
+  /// @notice Get allocation of user, zero for user not registered, refunded, paid in token in pro rata mode or
+  /// registered after the first claim.
+  function getAllocation(address _user) public view returns (uint) {
+    Presale.Registration memory registration = presale.checkRegistration(_user);
+    if (!registration.isRegistered || registration.isRefunded) {
+      return 0;
+    }
+    if (allocationMode == AllocationMode.ProRata && registration.asset != address(0)) {
+      return 0;
+    }
+    return _allocation(registration);
+  }
+
+  /// @notice Get tokens of user vested and not claimed yet.
+  function getClaimable(address _user) external view returns (uint) {
+    return _claimable(_user, getAllocation(_user));
+  }
+
+  /// @notice Get tokens already claimed by user.
+  function getReleased(address _user) external view returns (uint) {
+    return released[_user];
+  }
+
+  /// @notice Get tokens needed to cover allocations not claimed yet, counted at the first claim once it happened.
+  function getOutstandingAllocations() public view returns (uint) {
+    if (allocationMode != AllocationMode.Fixed) {
+      return allocationAmount - totalReleased;
+    }
+    uint registrationCount = snapshotTime == 0 ? presale.getActiveRegistrationCount() : snapshotRegistrationCount;
+    return allocationAmount * registrationCount - totalReleased;
+  }
+
+  /// @dev Allocation of registration which is not refunded, live estimate until the first claim takes snapshot.
+  function _allocation(Presale.Registration memory _registration) private view returns (uint) {
+    if (snapshotTime != 0 && _registration.timestamp >= snapshotTime) {
+      return 0;
+    }
+    if (allocationMode == AllocationMode.Fixed) {
+      return allocationAmount;
+    }
+    if (allocationMode == AllocationMode.ProRata) {
+      uint totalFees = snapshotTime == 0 ? presale.getTotalFees(address(0)) : snapshotTotalFees;
+      // Nothing is paid in ETH when presale is free or every fee is refunded or paid in token
+      if (totalFees == 0) {
+        return 0;
+      }
+      return (allocationAmount * _registration.paidFee) / totalFees;
+    }
+    return 0;
+  }
+
+  /// @dev Vested tokens not claimed yet, zero once allocation fell below tokens claimed, e.g. after refund.
+  function _claimable(address _user, uint _allocationAmount) private view returns (uint) {
+    uint vested = _vestedAmount(_allocationAmount, block.timestamp);
+    return vested > released[_user] ? vested - released[_user] : 0;
+  }
+
+  /// @dev Part of allocation vested at timestamp, nothing before cliff and linear from claim start to full duration.
+  function _vestedAmount(uint _amount, uint _timestamp) private view returns (uint) {
+    if (claimStart == 0 || _timestamp < claimStart + vestingCliff) {
+      return 0;
+    }
+    if (_timestamp >= claimStart + vestingDuration) {
+      return _amount;
+    }
+    return (_amount * (_timestamp - claimStart)) / vestingDuration;
+  }
+}
@@ -0,0 +1,144 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/proxy/Clones.sol";
+import "./Presale.sol";
+
+/// @title Factory and registry of presales.
+/// @notice Deploys presales as minimal clones of one implementation, the caller becomes owner of each presale.
+/// @dev Every clone has its own storage, balance and EIP-712 domain. Clones have no ERC-1967 slot, so they can not be
+/// upgraded. Registry views loop over all presales and are meant for off-chain calls.
+contract PresaleFactory {
+  enum PresaleStatus {
+    Upcoming,
+    Active,
+    Ended,
+    Paused
+  }
+
+  /// @notice Presale deployed with zero settings, code of every clone.
+  Presale public immutable implementation;
+
+  address[] private presales;
+  mapping(address => bool) private createdPresales;
+
+  /// @notice Presale is not created by factory.
+  /// @param presale Address of presale.
+  error UnknownPresale(address presale);
+
+  /// @notice Emitted when presale was created.
+  event PresaleCreated(
+    address indexed presale,
+    address indexed owner,
+    uint startDate,
+    uint endDate,
+    uint maxRegistrations,
+    uint registrationFee,
+    bool whitelistStatus
+  );
+
+  /// @param _implementation Presale deployed with zero settings, it can not be initialized itself.
+  constructor(Presale _implementation) {
+    implementation = _implementation;
+  }
+
+  /// @notice Create presale with the same parameters as constructor of Presale, caller becomes its owner.
+  /// @return Address of created presale.
+  function createPresale(
+    uint _startDate,
+    uint _endDate,
+    uint _maxRegistrations,
+    uint _registrationFee,
+    bool _whitelistStatusInit
+  ) external returns (address) {
+    address presale = Clones.clone(address(implementation));
+    Presale(presale).initialize(
+      msg.sender,
+      _startDate,
+      _endDate,
+      _maxRegistrations,
+      _registrationFee,
+      _whitelistStatusInit
+    );
+    presales.push(presale);
+    createdPresales[presale] = true;
+    emit PresaleCreated(
+      presale,
+      msg.sender,
+      _startDate,
+      _endDate,
+      _maxRegistrations,
+      _registrationFee,
+      _whitelistStatusInit
+    );
+    return presale;
+  }
+
+  /// @notice Check that presale is created by factory.
+  function isPresale(address _presale) external view returns (bool) {
+    return createdPresales[_presale];
+  }
+
+  /// @notice Get number of presales created by factory.
+  function getPresaleCount() external view returns (uint) {
+    return presales.length;
+  }
+
+  /// @notice Get all presales in order of creation.
+  function getPresales() external view returns (address[] memory) {
+    return presales;
+  }
+
+  /// @notice Get presales whose current owner is given address, ownership transferred after creation is followed.
+  function getPresalesByOwner(address _owner) external view returns (address[] memory) {
+    address[] memory matches = new address[](presales.length);
+    uint count = 0;
+    for (uint i = 0; i < presales.length; i++) {
+      if (Presale(presales[i]).owner() == _owner) {
+        matches[count++] = presales[i];
+      }
+    }
+    return _truncate(matches, count);
+  }
+
+  /// @notice Get presales in given status at timestamp of current block.
+  function getPresalesByStatus(PresaleStatus _status) external view returns (address[] memory) {
+    address[] memory matches = new address[](presales.length);
+    uint count = 0;
+    for (uint i = 0; i < presales.length; i++) {
+      if (_getStatus(Presale(presales[i])) == _status) {
+        matches[count++] = presales[i];
+      }
+    }
+    return _truncate(matches, count);
+  }
+
+  /// @notice Get status of presale: paused takes precedence over dates, cancelled presale is ended.
+  function getStatus(address _presale) external view returns (PresaleStatus) {
+    if (!createdPresales[_presale]) {
+      revert UnknownPresale(_presale);
+    }
+    return _getStatus(Presale(_presale));
+  }
+
+  /// @dev Status of presale by pause, cancellation and dates.
+  function _getStatus(Presale _presale) private view returns (PresaleStatus) {
+    if (_presale.paused()) {
+      return PresaleStatus.Paused;
+    }
+    (uint startDate, uint endDate, , ) = _presale.getSettings();
+    if (_presale.isCancelled() || block.timestamp > endDate) {
+      return PresaleStatus.Ended;
+    }
+    return block.timestamp < startDate ? PresaleStatus.Upcoming : PresaleStatus.Active;
+  }
+
+  /// @dev Copy of first addresses of array.
+  function _truncate(address[] memory _addresses, uint _count) private pure returns (address[] memory) {
+    address[] memory result = new address[](_count);
+    for (uint i = 0; i < _count; i++) {
+      result[i] = _addresses[i];
+    }
+    return result;
+  }
+}
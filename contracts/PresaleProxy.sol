@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+
+/// @title Proxy of upgradeable Presale.
+/// @dev UUPS proxy, implementation is upgraded by owner of Presale with `upgradeToAndCall`.
+contract PresaleProxy is ERC1967Proxy {
+  /// @param _implementation Presale deployed with zero settings.
+  /// @param _data Call of `initialize` with owner and settings of presale.
+  constructor(address _implementation, bytes memory _data) ERC1967Proxy(_implementation, _data) {}
+}
@@ -0,0 +1,159 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/governance/TimelockController.sol";
+
+/// @title Timelock owning Presale.
+/// @notice Owner actions are queued by proposers and executed after the delay once enough proposers approved them.
+/// @dev Scheduling counts as approval of its proposer. Roles, delay and threshold change only by operations of itself.
+contract PresaleTimelock is TimelockController {
+  /// @notice Number of proposers which must approve operation before execution.
+  uint public approvalThreshold;
+  /// @dev Round of operation, increased on cancel so approvals of cancelled operation do not count again.
+  mapping(bytes32 => uint) private rounds;
+  mapping(bytes32 => mapping(uint => uint)) private approvalCounts;
+  mapping(bytes32 => mapping(uint => mapping(address => bool))) private approvals;
+
+  /// @notice Threshold is zero or more than number of proposers.
+  error InvalidApprovalThreshold(uint approvalThreshold);
+
+  /// @notice Proposer has already approved operation.
+  error OperationAlreadyApproved(bytes32 id, address approver);
+
+  /// @notice Operation has less approvals than threshold.
+  error NotEnoughApprovals(bytes32 id, uint approvalCount, uint approvalThreshold);
+
+  /// @notice Emitted when proposer approved operation, including scheduling.
+  event Approved(bytes32 indexed id, address indexed approver, uint approvalCount);
+
+  /// @notice Emitted when approval threshold changed.
+  event ChangedApprovalThreshold(uint oldApprovalThreshold, uint approvalThreshold);
+
+  /// @param _minDelay Minimum delay of operations in seconds.
+  /// @param _proposers Accounts allowed to schedule, approve and cancel operations.
+  /// @param _executors Accounts allowed to execute operations, zero address allows anyone.
+  /// @param _approvalThreshold Number of proposers approving operation, one disables multisig.
+  constructor(
+    uint _minDelay,
+    address[] memory _proposers,
+    address[] memory _executors,
+    uint _approvalThreshold
+  ) TimelockController(_minDelay, _proposers, _executors, address(0)) {
+    if (_approvalThreshold == 0 || _approvalThreshold > _proposers.length) {
+      revert InvalidApprovalThreshold(_approvalThreshold);
+    }
+    approvalThreshold = _approvalThreshold;
+    emit ChangedApprovalThreshold(0, _approvalThreshold);
+  }
+
+  /// @notice Schedule operation and approve it by proposer.
+  function schedule(
+    address _target,
+    uint _value,
+    bytes calldata _data,
+    bytes32 _predecessor,
+    bytes32 _salt,
+    uint _delay
+  ) public override {
+    super.schedule(_target, _value, _data, _predecessor, _salt, _delay);
+    _approve(hashOperation(_target, _value, _data, _predecessor, _salt));
+  }
+
+  /// @notice Schedule batch operation and approve it by proposer.
+  function scheduleBatch(
+    address[] calldata _targets,
+    uint[] calldata _values,
+    bytes[] calldata _payloads,
+    bytes32 _predecessor,
+    bytes32 _salt,
+    uint _delay
+  ) public override {
+    super.scheduleBatch(_targets, _values, _payloads, _predecessor, _salt, _delay);
+    _approve(hashOperationBatch(_targets, _values, _payloads, _predecessor, _salt));
+  }
+
+  /// @notice Approve pending operation by proposer.
+  /// @param _id Id of operation.
+  function approve(bytes32 _id) external onlyRole(PROPOSER_ROLE) {
+    if (!isOperationPending(_id)) {
+      revert TimelockUnexpectedOperationState(
+        _id,
+        _encodeStateBitmap(OperationState.Waiting) | _encodeStateBitmap(OperationState.Ready)
+      );
+    }
+    _approve(_id);
+  }
+
+  /// @notice Cancel pending operation, its approvals are dropped.
+  function cancel(bytes32 _id) public override {
+    super.cancel(_id);
+    rounds[_id]++;
+  }
+
+  /// @notice Execute ready operation approved by threshold of proposers.
+  function execute(
+    address _target,
+    uint _value,
+    bytes calldata _payload,
+    bytes32 _predecessor,
+    bytes32 _salt
+  ) public payable override {
+    _requireApprovals(hashOperation(_target, _value, _payload, _predecessor, _salt));
+    super.execute(_target, _value, _payload, _predecessor, _salt);
+  }
+
+  /// @notice Execute ready batch operation approved by threshold of proposers.
+  function executeBatch(
+    address[] calldata _targets,
+    uint[] calldata _values,
+    bytes[] calldata _payloads,
+    bytes32 _predecessor,
+    bytes32 _salt
+  ) public payable override {
+    _requireApprovals(hashOperationBatch(_targets, _values, _payloads, _predecessor, _salt));
+    super.executeBatch(_targets, _values, _payloads, _predecessor, _salt);
+  }
+
+  /// @notice Change approval threshold, callable only by operation of timelock.
+  /// @dev Threshold above number of proposers blocks all operations, including the one lowering it.
+  /// @param _approvalThreshold Number of proposers approving operation.
+  function setApprovalThreshold(uint _approvalThreshold) external {
+    if (msg.sender != address(this)) {
+      revert TimelockUnauthorizedCaller(msg.sender);
+    }
+    if (_approvalThreshold == 0) {
+      revert InvalidApprovalThreshold(_approvalThreshold);
+    }
+    emit ChangedApprovalThreshold(approvalThreshold, _approvalThreshold);
+    approvalThreshold = _approvalThreshold;
+  }
+
+  /// @notice Get number of approvals of pending operation.
+  function getApprovalCount(bytes32 _id) external view returns (uint) {
+    return approvalCounts[_id][rounds[_id]];
+  }
+
+  /// @notice Check that proposer approved pending operation.
+  function isApproved(bytes32 _id, address _approver) external view returns (bool) {
+    return approvals[_id][rounds[_id]][_approver];
+  }
+
+  /// @dev Record approval of caller.
+  function _approve(bytes32 _id) private {
+    uint round = rounds[_id];
+    if (approvals[_id][round][msg.sender]) {
+      revert OperationAlreadyApproved(_id, msg.sender);
+    }
+    approvals[_id][round][msg.sender] = true;
+    approvalCounts[_id][round]++;
+    emit Approved(_id, msg.sender, approvalCounts[_id][round]);
+  }
+
+  /// @dev Ensure operation has enough approvals.
+  function _requireApprovals(bytes32 _id) private view {
+    uint approvalCount = approvalCounts[_id][rounds[_id]];
+    if (approvalCount < approvalThreshold) {
+      revert NotEnoughApprovals(_id, approvalCount, approvalThreshold);
+    }
+  }
+}
@@ -1,9 +1,12 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+
 abstract contract Whitelist {
   mapping(address => bool) private _whitelist;
   bool private _whitelistStatus;
+  bytes32 private _merkleRoot;
 
   /// @notice Error when the address is already in the whitelist.
   /// @param user The address being checked.
@@ -22,8 +25,18 @@ abstract contract Whitelist {
   /// @dev Ensures the address is on the whitelist if whitelist is enforced.
   /// @param _address Address to check.
   modifier onlyWhitelisted(address _address) {
-    if (whitelistStatus()) {
-      _requiredAddressInWhitelist(_address);
+    if (_isWhitelistEnforced()) {
+      _requiredAddressWhitelistedWithProof(_address, new bytes32[](0));
+    }
+    _;
+  }
+
+  /// @dev Ensures the address is on the whitelist by mapping or by Merkle proof if whitelist is enforced.
+  /// @param _address Address to check.
+  /// @param _proof Merkle proof of address, ignored in mapping mode.
+  modifier onlyWhitelistedWithProof(address _address, bytes32[] calldata _proof) {
+    if (_isWhitelistEnforced()) {
+      _requiredAddressWhitelistedWithProof(_address, _proof);
     }
     _;
   }
@@ -31,7 +44,7 @@ abstract contract Whitelist {
   /// @dev Ensures the function is accessible only if the address is not on the whitelist when whitelist is enforced.
   /// @param _address Address to check.
   modifier onlyNotWhitelisted(address _address) {
-    if (whitelistStatus()) {
+    if (_isWhitelistEnforced()) {
       _requiredAddressNotInWhitelist(_address);
     }
     _;
@@ -61,9 +74,18 @@ abstract contract Whitelist {
   /// @dev Emitted when whitelist was off.
   event WhitelistTurnedOff();
 
+  /// @dev Emitted when Merkle root of whitelist was changed.
+  event MerkleRootChanged(bytes32 oldMerkleRoot, bytes32 newMerkleRoot);
+
   /// @dev Initializes the contract with a given whitelist status.
   /// @param _whitelistStatusInit Initial status of the whitelist (true for enabled, false for disabled).
   constructor(bool _whitelistStatusInit) {
+    _initializeWhitelist(_whitelistStatusInit);
+  }
+
+  /// @dev Sets initial whitelist status, called by constructor or by initializer of proxy.
+  /// @param _whitelistStatusInit Initial status of the whitelist (true for enabled, false for disabled).
+  function _initializeWhitelist(bool _whitelistStatusInit) internal {
     _whitelistStatus = _whitelistStatusInit;
   }
 
@@ -72,6 +94,16 @@ abstract contract Whitelist {
     return _whitelistStatus;
   }
 
+  /// @notice Returns Merkle root of whitelist, zero root means the whitelist uses mapping mode.
+  function merkleRoot() public view returns (bytes32) {
+    return _merkleRoot;
+  }
+
+  /// @dev Whether whitelist is checked now, inheriting contracts can enforce it in more cases than the status.
+  function _isWhitelistEnforced() internal view virtual returns (bool) {
+    return whitelistStatus();
+  }
+
   /// @dev Checking that whitelist is on.
   function _requiredWhitelistOn() internal view {
     if (!whitelistStatus()) {
@@ -93,6 +125,13 @@ abstract contract Whitelist {
     }
   }
 
+  /// @dev Checking that address is in whitelist by mapping or by Merkle proof.
+  function _requiredAddressWhitelistedWithProof(address _address, bytes32[] memory _proof) internal view {
+    if (!_isAddressWhitelistedWithProof(_address, _proof)) {
+      revert UserIsNotWhitelisted(_address);
+    }
+  }
+
   /// @dev Checking that address is not in whitelist.
   function _requiredAddressNotInWhitelist(address _address) internal view {
     if (_isAddressWhitelisted(_address)) {
@@ -112,6 +151,14 @@ abstract contract Whitelist {
     emit WhitelistTurnedOff();
   }
 
+  /// @dev Sets Merkle root of whitelist, non-zero root switches whitelist to Merkle mode and zero root back to mapping.
+  /// @param _newMerkleRoot Root of Merkle tree built from whitelisted addresses.
+  function _setMerkleRoot(bytes32 _newMerkleRoot) internal {
+    bytes32 oldMerkleRoot = _merkleRoot;
+    _merkleRoot = _newMerkleRoot;
+    emit MerkleRootChanged(oldMerkleRoot, _newMerkleRoot);
+  }
+
   /// @dev Adds an address to the whitelist, ensuring it is not already whitelisted.
   /// @param _address Address to be added to the whitelist.
   function _addToWhiteList(address _address) internal {
@@ -150,16 +197,34 @@ abstract contract Whitelist {
     }
   }
 
-  /// @notice Checks if an address is whitelisted.
+  /// @notice Checks if an address is whitelisted in mapping.
   /// @param _address Address to check.
   /// @return bool True if the address is whitelisted, false otherwise.
   function isAddressWhitelisted(address _address) public view virtual returns (bool) {
     return _isAddressWhitelisted(_address);
   }
 
+  /// @notice Checks if an address is whitelisted in current mode, by mapping or by Merkle proof.
+  /// @param _address Address to check.
+  /// @param _proof Merkle proof of address, ignored in mapping mode.
+  /// @return bool True if the address is whitelisted, false otherwise.
+  function isAddressWhitelistedWithProof(address _address, bytes32[] calldata _proof) public view returns (bool) {
+    return _isAddressWhitelistedWithProof(_address, _proof);
+  }
+
   /// @dev Check address for exists in whitelist.
   /// @param _address address for checking
   function _isAddressWhitelisted(address _address) internal view virtual returns (bool) {
     return _whitelist[_address];
   }
+
+  /// @dev Check address in whitelist of current mode, Merkle mode accepts only addresses proven by the current root.
+  /// @param _address address for checking
+  /// @param _proof Merkle proof of address
+  function _isAddressWhitelistedWithProof(address _address, bytes32[] memory _proof) internal view returns (bool) {
+    if (_merkleRoot == bytes32(0)) {
+      return _isAddressWhitelisted(_address);
+    }
+    return MerkleProof.verify(_proof, _merkleRoot, keccak256(bytes.concat(keccak256(abi.encode(_address)))));
+  }
 }
@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+
+/// @dev Stablecoin with permit and public mint for tests.
+contract MockERC20 is ERC20, ERC20Permit {
+  uint8 private immutable DECIMALS;
+
+  constructor(
+    string memory _name,
+    string memory _symbol,
+    uint8 _tokenDecimals
+  ) ERC20(_name, _symbol) ERC20Permit(_name) {
+    DECIMALS = _tokenDecimals;
+  }
+
+  function decimals() public view override returns (uint8) {
+    return DECIMALS;
+  }
+
+  function mint(address _to, uint _amount) external {
+    _mint(_to, _amount);
+  }
+}
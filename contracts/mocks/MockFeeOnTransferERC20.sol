@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./MockERC20.sol";
+
+/// @dev Token burning part of every transfer for tests.
+contract MockFeeOnTransferERC20 is MockERC20 {
+  /// @dev Fee in basis points of transferred amount.
+  uint public immutable TRANSFER_FEE;
+
+  constructor(
+    string memory _name,
+    string memory _symbol,
+    uint8 _tokenDecimals,
+    uint _transferFee
+  ) MockERC20(_name, _symbol, _tokenDecimals) {
+    TRANSFER_FEE = _transferFee;
+  }
+
+  function _update(address _from, address _to, uint _value) internal override {
+    if (_from == address(0) || _to == address(0)) {
+      super._update(_from, _to, _value);
+      return;
+    }
+    uint fee = (_value * TRANSFER_FEE) / 10000;
+    super._update(_from, address(0), fee);
+    super._update(_from, _to, _value - fee);
+  }
+}
@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../Presale.sol";
+
+/// @dev Storage inherited before Presale, shifts every slot of it.
+abstract contract MockStorageClash {
+  uint internal clash;
+}
+
+/// @dev Version of Presale with incompatible storage layout for upgrade tests.
+contract MockPresaleStorageClash is MockStorageClash, Presale {
+  constructor(
+    uint _startDate,
+    uint _endDate,
+    uint _maxRegistrations,
+    uint _registrationFee,
+    bool _whitelistStatusInit
+  ) Presale(_startDate, _endDate, _maxRegistrations, _registrationFee, _whitelistStatusInit) {}
+
+  function VERSION() public pure override returns (int) {
+    return 2;
+  }
+}
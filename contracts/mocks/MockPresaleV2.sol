@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../Presale.sol";
+
+/// @dev Second version of Presale for upgrade tests, appends storage to layout of first version.
+contract MockPresaleV2 is Presale {
+  uint public bonus;
+
+  constructor(
+    uint _startDate,
+    uint _endDate,
+    uint _maxRegistrations,
+    uint _registrationFee,
+    bool _whitelistStatusInit
+  ) Presale(_startDate, _endDate, _maxRegistrations, _registrationFee, _whitelistStatusInit) {}
+
+  function setBonus(uint _bonus) external onlyOwner {
+    bonus = _bonus;
+  }
+
+  function VERSION() public pure override returns (int) {
+    return 2;
+  }
+}
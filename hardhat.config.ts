@@ -1,6 +1,7 @@
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
+import "./tasks";
 require('dotenv').config();
 
 const MNEMONIC = process.env.MNEMONIC;
@@ -10,14 +11,28 @@ const COINMARKETCAP_API_KEY = process.env.COINMARKETCAP_API_KEY;
 const REPORT_GAS = process.env.REPORT_GAS;
 
 const config: HardhatUserConfig = {
-  solidity: "0.8.20",
+  solidity: {
+    version: "0.8.24",
+    settings: {
+      evmVersion: "cancun",
+      optimizer: {
+        enabled: true,
+        runs: 200,
+      },
+      outputSelection: {
+        "*": {
+          "*": ["storageLayout"],
+        },
+      },
+    },
+  },
   etherscan: {
     apiKey: ETHERSCAN_API_KEY
   },
   gasReporter: {
     currency: "USD",
     coinmarketcap: COINMARKETCAP_API_KEY,
-    enabled: REPORT_GAS,
+    enabled: !!REPORT_GAS,
     token: "ETH",
   },
   networks: {
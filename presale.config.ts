@@ -0,0 +1,30 @@
+import { PresaleConfig } from './scripts/utils/config'
+
+const config: PresaleConfig = {
+  networks: {
+    hardhat: {
+      startDate: 'now-2h',
+      endDate: 'now+5d',
+      maxRegistrations: 13,
+      registrationFee: '0.1',
+      whitelistStatusInit: false
+    },
+    localhost: {
+      startDate: 'now-2h',
+      endDate: 'now+5d',
+      maxRegistrations: 13,
+      registrationFee: '0.1',
+      whitelistStatusInit: false
+    },
+    sepolia: {
+      startDate: 'now',
+      endDate: 'now+5d',
+      maxRegistrations: 13,
+      registrationFee: '0.1',
+      whitelistStatusInit: false,
+      verify: true
+    }
+  }
+}
+
+export default config
@@ -1,21 +1,29 @@
-import { ethers } from 'hardhat'
+import hre from 'hardhat'
+import { loadPresaleConfig } from './utils/config'
+import { deployPresale, manifestPath } from './utils/deployment'
 
 async function main() {
-  const [deployer] = await ethers.getSigners()
+  const [deployer] = await hre.ethers.getSigners()
+  const config = loadPresaleConfig(hre.network.name)
 
   console.log('Deploying contracts with the account: ', deployer.address)
 
-  const startDate = Math.floor((new Date().getTime() - 2 * 60 * 60 * 1000) / 1000).toFixed(0)
-  const endDate = Math.floor((new Date().getTime() + 5 * 24 * 60 * 60 * 1000) / 1000)
-  const maxRegistrations = 13
-  const registrationFee = ethers.parseEther('0.1')
-  const Presale = await ethers.getContractFactory('Presale')
-  const presale = await Presale.deploy(startDate, endDate, maxRegistrations, registrationFee)
+  const { deployment, deployed } = await deployPresale(hre, {
+    config,
+    force: process.env.DEPLOY_FORCE === 'true',
+    verify: process.env.DEPLOY_VERIFY === 'true' || config.verify
+  })
 
-  await presale.waitForDeployment()
-
-  console.log('Deployed contract address: ', presale.target)
-  console.log('VERSION: ', (await presale.VERSION()).toString())
+  if (!deployed) {
+    console.log('Presale is already deployed, skipping')
+  }
+  console.log('Deployed contract address: ', deployment.address)
+  console.log('Transaction hash: ', deployment.transactionHash)
+  if (deployment.implementation) {
+    console.log('Implementation: ', deployment.implementation)
+  }
+  console.log('VERSION: ', deployment.version)
+  console.log('Manifest: ', manifestPath(hre.network.name))
 }
 
 main().catch((error) => {
@@ -0,0 +1,198 @@
+import path from 'path'
+import { parseEther, parseUnits } from 'ethers'
+
+/** Date of presale: unix timestamp in seconds, ISO date string or relative value like `now`, `now+5d`, `now-2h`. */
+export type PresaleDate = number | string
+
+export interface PresaleNetworkConfig {
+  startDate: PresaleDate
+  endDate: PresaleDate
+  maxRegistrations: number
+  /** Registration fee in ETH, e.g. `0.1`. */
+  registrationFee: string
+  whitelistStatusInit: boolean
+  /** Deploy behind UUPS proxy, so that presale can be upgraded with `presale:upgrade`. */
+  proxy?: boolean
+  /** Verify contract on Etherscan after deployment. */
+  verify?: boolean
+}
+
+export interface PresaleConfig {
+  networks: Record<string, PresaleNetworkConfig>
+}
+
+/** Arguments of Presale constructor in the same order. */
+export type PresaleConstructorArgs = [bigint, bigint, bigint, bigint, boolean]
+
+export const DEFAULT_CONFIG_PATH = path.join(__dirname, '..', '..', 'presale.config.ts')
+
+const RELATIVE_DATE = /^now(?:([+-])(\d+)([smhdw]))?$/
+const UNITS: Record<string, number> = { s: 1, m: 60, h: 60 * 60, d: 24 * 60 * 60, w: 7 * 24 * 60 * 60 }
+
+const DURATION = /^(\d+)([smhdw])?$/
+
+/**
+ * Parse duration like `3600`, `30m` or `2d` to seconds.
+ * @param value Seconds or amount with unit.
+ */
+export function parseDuration(value: string): number {
+  const duration = value.trim().match(DURATION)
+  if (!duration) {
+    throw new Error(`Invalid duration: ${value}, expected seconds or value like 2d`)
+  }
+  const [, amount, unit] = duration
+  return Number(amount) * (unit ? UNITS[unit] : 1)
+}
+
+/**
+ * Parse presale date to unix timestamp in seconds.
+ * @param value Date from config.
+ * @param now Current unix timestamp in seconds, base of relative dates.
+ */
+export function parsePresaleDate(value: PresaleDate, now: number): number {
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`Invalid date: ${value}, expected unix timestamp in seconds`)
+    }
+    return value
+  }
+  const relative = value.trim().match(RELATIVE_DATE)
+  if (relative) {
+    const [, sign, amount, unit] = relative
+    if (!sign) {
+      return now
+    }
+    const offset = Number(amount) * UNITS[unit]
+    return sign === '+' ? now + offset : now - offset
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value)
+  }
+  const timestamp = Date.parse(value)
+  if (Number.isNaN(timestamp)) {
+    throw new Error(`Invalid date: ${value}, expected ISO date or relative value like now+5d`)
+  }
+  return Math.floor(timestamp / 1000)
+}
+
+/**
+ * Validate network config and resolve it to constructor arguments of Presale.
+ * @param config Presale config of network.
+ * @param now Current unix timestamp in seconds.
+ */
+export function resolvePresaleArgs(config: PresaleNetworkConfig, now: number): PresaleConstructorArgs {
+  const startDate = parsePresaleDate(config.startDate, now)
+  const endDate = parsePresaleDate(config.endDate, now)
+  if (startDate > endDate) {
+    throw new Error(`Incorrect dates: startDate ${startDate} is after endDate ${endDate}`)
+  }
+  if (!Number.isInteger(config.maxRegistrations) || config.maxRegistrations < 0) {
+    throw new Error(`Invalid maxRegistrations: ${config.maxRegistrations}, expected non-negative integer`)
+  }
+  let registrationFee: bigint
+  try {
+    registrationFee = parseEther(String(config.registrationFee))
+  } catch {
+    throw new Error(`Invalid registrationFee: ${config.registrationFee}, expected amount in ETH`)
+  }
+  if (registrationFee < 0n) {
+    throw new Error(`Invalid registrationFee: ${config.registrationFee}, expected non-negative amount`)
+  }
+  if (typeof config.whitelistStatusInit !== 'boolean') {
+    throw new Error(`Invalid whitelistStatusInit: ${config.whitelistStatusInit}, expected boolean`)
+  }
+  return [
+    BigInt(startDate),
+    BigInt(endDate),
+    BigInt(config.maxRegistrations),
+    registrationFee,
+    config.whitelistStatusInit
+  ]
+}
+
+/**
+ * Load presale config of network from TS or JSON file.
+ * @param network Name of hardhat network.
+ * @param configPath Path to config file, `PRESALE_CONFIG` env or `presale.config.ts` by default.
+ */
+export function loadPresaleConfig(
+  network: string,
+  configPath: string = process.env.PRESALE_CONFIG || DEFAULT_CONFIG_PATH
+): PresaleNetworkConfig {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const loaded = require(path.resolve(configPath))
+  const config: PresaleConfig = loaded.default ?? loaded
+  const networkConfig = config.networks?.[network]
+  if (!networkConfig) {
+    throw new Error(`Presale config for network "${network}" is not found in ${configPath}`)
+  }
+  return networkConfig
+}
+
+/** Phase of presale in phases file, see `presale:phases:set`. */
+export interface PhaseConfig {
+  start: PresaleDate
+  end: PresaleDate
+  max: number
+  /** Registration fee in ETH, e.g. `0.1`. */
+  fee: string
+  /** Registration fee in units of fee token, e.g. `10.5` for 10.5 USDC, zero by default. */
+  tokenFee?: string
+  /** Require whitelist in phase even when whitelist of presale is off, false by default. */
+  whitelist?: boolean
+}
+
+/** Phase in format of `Presale.setPhases`. */
+export interface PresalePhase {
+  startDate: bigint
+  endDate: bigint
+  maxRegistrations: bigint
+  registrationFee: bigint
+  tokenRegistrationFee: bigint
+  isWhitelistRequired: boolean
+}
+
+/**
+ * Validate phases from file and resolve them to arguments of `Presale.setPhases`.
+ * @param phases Phases ordered by dates.
+ * @param now Current unix timestamp in seconds.
+ * @param tokenDecimals Decimals of fee token.
+ */
+export function resolvePhases(phases: PhaseConfig[], now: number, tokenDecimals: bigint): PresalePhase[] {
+  if (!Array.isArray(phases)) {
+    throw new Error('Invalid phases: expected array')
+  }
+  return phases.map((phase, index) => {
+    const number = index + 1
+    const startDate = parsePresaleDate(phase.start, now)
+    const endDate = parsePresaleDate(phase.end, now)
+    if (startDate > endDate) {
+      throw new Error(`Incorrect dates of phase ${number}: start ${startDate} is after end ${endDate}`)
+    }
+    if (!Number.isInteger(phase.max) || phase.max < 0) {
+      throw new Error(`Invalid max of phase ${number}: ${phase.max}, expected non-negative integer`)
+    }
+    let registrationFee: bigint
+    let tokenRegistrationFee: bigint
+    try {
+      registrationFee = parseEther(String(phase.fee))
+      tokenRegistrationFee = parseUnits(String(phase.tokenFee ?? '0'), tokenDecimals)
+    } catch {
+      throw new Error(`Invalid fee of phase ${number}: expected non-negative amounts in ETH and in units of token`)
+    }
+    if (registrationFee < 0n || tokenRegistrationFee < 0n) {
+      throw new Error(`Invalid fee of phase ${number}: expected non-negative amounts`)
+    }
+    if (phase.whitelist !== undefined && typeof phase.whitelist !== 'boolean') {
+      throw new Error(`Invalid whitelist of phase ${number}: ${phase.whitelist}, expected boolean`)
+    }
+    return {
+      startDate: BigInt(startDate),
+      endDate: BigInt(endDate),
+      maxRegistrations: BigInt(phase.max),
+      registrationFee,
+      tokenRegistrationFee,
+      isWhitelistRequired: phase.whitelist ?? false
+    }
+  })
+}
@@ -0,0 +1,340 @@
+import fs from 'fs'
+import path from 'path'
+import { isDeepStrictEqual } from 'util'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { ContractTransactionResponse, getAddress, isAddress } from 'ethers'
+import type { Presale } from '../../typechain-types'
+import { PresaleConstructorArgs, PresaleNetworkConfig, resolvePresaleArgs } from './config'
+import { StorageLayout, compareStorageLayouts, getStorageLayout } from './storage-layout'
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, '..', '..', 'deployments')
+
+/** Constructor arguments of implementation behind proxy, zero dates keep it closed for registrations. */
+export const IMPLEMENTATION_ARGS: PresaleConstructorArgs = [0n, 0n, 0n, 0n, false]
+
+/** ERC-1967 slot holding address of implementation behind proxy. */
+const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc'
+
+/** Implementation installed behind proxy of Presale by deployment or upgrade. */
+export interface ImplementationVersion {
+  version: string
+  implementation: string
+  transactionHash: string
+  blockNumber: number
+  deployedAt: string
+}
+
+export interface ContractDeployment {
+  address: string
+  transactionHash: string
+  blockNumber: number
+  deployer: string
+  /** Constructor arguments, or initializer arguments after owner for proxy, big numbers as decimal strings. */
+  args: (string | boolean | string[])[]
+  /** Version of Presale, of implementation cloned for factory, absent for other contracts. */
+  version?: string
+  /** Current implementation behind proxy or cloned by factory, absent for plain deployment. */
+  implementation?: string
+  /** Storage layout of current implementation, compared with layout of the next one on upgrade. */
+  storageLayout?: StorageLayout
+  /** Implementations behind proxy from the first one to the current one. */
+  versions?: ImplementationVersion[]
+  /** Config the contract was deployed from, used to detect changes on re-run. */
+  config?: PresaleNetworkConfig
+  verified?: boolean
+  deployedAt: string
+}
+
+export interface DeploymentManifest {
+  network: string
+  chainId: number
+  contracts: Record<string, ContractDeployment>
+}
+
+export interface DeployPresaleOptions {
+  config: PresaleNetworkConfig
+  /** Deploy a new contract even if the manifest already has a live one. */
+  force?: boolean
+  /** Verify contract on Etherscan after deployment. */
+  verify?: boolean
+  confirmations?: number
+  deploymentsDir?: string
+}
+
+export interface UpgradePresaleOptions {
+  /** Contract of new implementation, `Presale` by default. */
+  contract?: string
+  /** Check storage layout without deploying implementation. */
+  dryRun?: boolean
+  /** Verify new implementation on Etherscan after upgrade. */
+  verify?: boolean
+  confirmations?: number
+  deploymentsDir?: string
+}
+
+export interface UpgradePresaleResult {
+  deployment: ContractDeployment
+  /** False on dry run. */
+  upgraded: boolean
+}
+
+export interface DeployPresaleResult {
+  deployment: ContractDeployment
+  /** False when the existing deployment from the manifest was reused. */
+  deployed: boolean
+}
+
+export function manifestPath(network: string, deploymentsDir: string = DEPLOYMENTS_DIR): string {
+  return path.join(deploymentsDir, `${network}.json`)
+}
+
+export function readManifest(
+  network: string,
+  deploymentsDir: string = DEPLOYMENTS_DIR
+): DeploymentManifest | undefined {
+  const file = manifestPath(network, deploymentsDir)
+  if (!fs.existsSync(file)) {
+    return undefined
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'))
+}
+
+export function writeManifest(manifest: DeploymentManifest, deploymentsDir: string = DEPLOYMENTS_DIR): void {
+  fs.mkdirSync(deploymentsDir, { recursive: true })
+  fs.writeFileSync(manifestPath(manifest.network, deploymentsDir), JSON.stringify(manifest, null, 2) + '\n')
+}
+
+export function serializeArgs(args: PresaleConstructorArgs): (string | boolean)[] {
+  return args.map((arg) => (typeof arg === 'bigint' ? arg.toString() : arg))
+}
+
+/**
+ * Read deployment of contract from manifest of current network.
+ * @param hre Hardhat runtime environment.
+ * @param name Name of contract in manifest.
+ */
+export function getDeployment(
+  hre: HardhatRuntimeEnvironment,
+  name: string,
+  deploymentsDir: string = DEPLOYMENTS_DIR
+): ContractDeployment {
+  const deployment = readManifest(hre.network.name, deploymentsDir)?.contracts[name]
+  if (!deployment) {
+    throw new Error(`${name} is not found in ${manifestPath(hre.network.name, deploymentsDir)}`)
+  }
+  return deployment
+}
+
+/**
+ * Resolve address of contract from option or from manifest of current network.
+ * @param hre Hardhat runtime environment.
+ * @param name Name of contract in manifest.
+ * @param address Address passed explicitly, it takes precedence over manifest.
+ */
+export function resolveContractAddress(hre: HardhatRuntimeEnvironment, name: string, address?: string): string {
+  if (address) {
+    if (!isAddress(address)) {
+      throw new Error(`Invalid address of ${name}: ${address}`)
+    }
+    return getAddress(address)
+  }
+  return getDeployment(hre, name).address
+}
+
+async function isDeployed(hre: HardhatRuntimeEnvironment, address: string): Promise<boolean> {
+  return (await hre.ethers.provider.getCode(address)) !== '0x'
+}
+
+/**
+ * Verify deployed contract on Etherscan with constructor arguments recorded in manifest.
+ * Implementation is verified for proxy.
+ * @param hre Hardhat runtime environment.
+ * @param deployment Deployment from manifest.
+ */
+export async function verifyDeployment(hre: HardhatRuntimeEnvironment, deployment: ContractDeployment): Promise<void> {
+  await hre.run('verify:verify', {
+    address: deployment.implementation ?? deployment.address,
+    constructorArguments: deployment.implementation ? serializeArgs(IMPLEMENTATION_ARGS) : deployment.args
+  })
+}
+
+/**
+ * Read address of implementation behind ERC-1967 proxy.
+ * @param hre Hardhat runtime environment.
+ * @param address Address of proxy.
+ */
+export async function getImplementationAddress(hre: HardhatRuntimeEnvironment, address: string): Promise<string> {
+  const slot = await hre.ethers.provider.getStorage(address, IMPLEMENTATION_SLOT)
+  return getAddress('0x' + slot.slice(-40))
+}
+
+async function deployImplementation(
+  hre: HardhatRuntimeEnvironment,
+  contract: string,
+  confirmations: number
+): Promise<string> {
+  const [deployer] = await hre.ethers.getSigners()
+  const ImplementationFactory = await hre.ethers.getContractFactory(contract, deployer)
+  const implementation = await ImplementationFactory.deploy(...IMPLEMENTATION_ARGS)
+  const receipt = await implementation.deploymentTransaction()?.wait(confirmations)
+  if (!receipt) {
+    throw new Error(`Deployment transaction of ${contract} implementation is not mined`)
+  }
+  return implementation.getAddress()
+}
+
+/**
+ * Deploy Presale from network config and record it in `deployments/<network>.json`.
+ * Re-run with the same config reuses the live contract from the manifest instead of deploying again.
+ * @param hre Hardhat runtime environment.
+ * @param options Config and flags of deployment.
+ */
+export async function deployPresale(
+  hre: HardhatRuntimeEnvironment,
+  options: DeployPresaleOptions
+): Promise<DeployPresaleResult> {
+  const { config, force = false, verify = false, deploymentsDir = DEPLOYMENTS_DIR } = options
+  const network = hre.network.name
+  const chainId = Number((await hre.ethers.provider.getNetwork()).chainId)
+  const manifest = readManifest(network, deploymentsDir) ?? { network, chainId, contracts: {} }
+  if (manifest.chainId !== chainId) {
+    throw new Error(`Manifest of network "${network}" is for chainId ${manifest.chainId}, connected to ${chainId}`)
+  }
+
+  const existing = manifest.contracts.Presale
+  if (existing && !force && (await isDeployed(hre, existing.address))) {
+    if (!isDeepStrictEqual(existing.config, config)) {
+      throw new Error(`Presale is already deployed at ${existing.address} with another config, use force to redeploy`)
+    }
+    if (verify && !existing.verified) {
+      await verifyDeployment(hre, existing)
+      existing.verified = true
+      writeManifest(manifest, deploymentsDir)
+    }
+    return { deployment: existing, deployed: false }
+  }
+
+  const [deployer] = await hre.ethers.getSigners()
+  const latestBlock = await hre.ethers.provider.getBlock('latest')
+  const args = resolvePresaleArgs(config, Number(latestBlock?.timestamp))
+  const confirmations = options.confirmations ?? (verify ? 5 : 1)
+  const PresaleFactory = await hre.ethers.getContractFactory('Presale', deployer)
+  let presale: Presale
+  let implementation: string | undefined
+  let deploymentTransaction: ContractTransactionResponse | null
+  if (config.proxy) {
+    implementation = await deployImplementation(hre, 'Presale', confirmations)
+    const ProxyFactory = await hre.ethers.getContractFactory('PresaleProxy', deployer)
+    const proxy = await ProxyFactory.deploy(
+      implementation,
+      PresaleFactory.interface.encodeFunctionData('initialize', [deployer.address, ...args])
+    )
+    presale = PresaleFactory.attach(await proxy.getAddress()) as unknown as Presale
+    deploymentTransaction = proxy.deploymentTransaction()
+  } else {
+    presale = (await PresaleFactory.deploy(...args)) as unknown as Presale
+    deploymentTransaction = presale.deploymentTransaction()
+  }
+  const receipt = await deploymentTransaction?.wait(confirmations)
+  if (!receipt) {
+    throw new Error('Deployment transaction of Presale is not mined')
+  }
+
+  const deployment: ContractDeployment = {
+    address: await presale.getAddress(),
+    transactionHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    deployer: deployer.address,
+    args: serializeArgs(args),
+    version: (await presale.VERSION()).toString(),
+    config,
+    deployedAt: new Date().toISOString()
+  }
+  if (implementation) {
+    deployment.implementation = implementation
+    deployment.storageLayout = await getStorageLayout(hre, 'Presale')
+    deployment.versions = [
+      {
+        version: deployment.version as string,
+        implementation,
+        transactionHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        deployedAt: deployment.deployedAt
+      }
+    ]
+  }
+  manifest.contracts.Presale = deployment
+  writeManifest(manifest, deploymentsDir)
+
+  if (verify) {
+    await verifyDeployment(hre, deployment)
+    deployment.verified = true
+    writeManifest(manifest, deploymentsDir)
+  }
+  return { deployment, deployed: true }
+}
+
+/**
+ * Upgrade Presale deployed behind proxy to new implementation and record its version in manifest.
+ * Upgrade is refused when storage layout of new implementation is incompatible with the current one.
+ * @param hre Hardhat runtime environment.
+ * @param options Contract of new implementation and flags of upgrade.
+ */
+export async function upgradePresale(
+  hre: HardhatRuntimeEnvironment,
+  options: UpgradePresaleOptions = {}
+): Promise<UpgradePresaleResult> {
+  const { contract = 'Presale', dryRun = false, verify = false, deploymentsDir = DEPLOYMENTS_DIR } = options
+  const manifest = readManifest(hre.network.name, deploymentsDir)
+  const deployment = manifest?.contracts.Presale
+  if (!manifest || !deployment) {
+    throw new Error(`Presale is not found in ${manifestPath(hre.network.name, deploymentsDir)}`)
+  }
+  if (!deployment.implementation || !deployment.storageLayout) {
+    throw new Error(`Presale at ${deployment.address} is not deployed behind proxy`)
+  }
+  if ((await getImplementationAddress(hre, deployment.address)) !== deployment.implementation) {
+    throw new Error(`Implementation of Presale at ${deployment.address} differs from manifest`)
+  }
+
+  const storageLayout = await getStorageLayout(hre, contract)
+  const problems = compareStorageLayouts(deployment.storageLayout, storageLayout)
+  if (problems.length > 0) {
+    throw new Error(`Storage layout of ${contract} is incompatible with Presale:\n${problems.join('\n')}`)
+  }
+  if (dryRun) {
+    return { deployment, upgraded: false }
+  }
+
+  const confirmations = options.confirmations ?? (verify ? 5 : 1)
+  const implementation = await deployImplementation(hre, contract, confirmations)
+  const [deployer] = await hre.ethers.getSigners()
+  const presale = (await hre.ethers.getContractAt('Presale', deployment.address, deployer)) as unknown as Presale
+  const receipt = await (await presale.upgradeToAndCall(implementation, '0x')).wait(confirmations)
+  if (!receipt) {
+    throw new Error('Upgrade transaction of Presale is not mined')
+  }
+
+  deployment.implementation = implementation
+  deployment.version = (await presale.VERSION()).toString()
+  deployment.storageLayout = storageLayout
+  deployment.versions = [
+    ...(deployment.versions ?? []),
+    {
+      version: deployment.version,
+      implementation,
+      transactionHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      deployedAt: new Date().toISOString()
+    }
+  ]
+  delete deployment.verified
+  writeManifest(manifest, deploymentsDir)
+
+  if (verify) {
+    await verifyDeployment(hre, deployment)
+    deployment.verified = true
+    writeManifest(manifest, deploymentsDir)
+  }
+  return { deployment, upgraded: true }
+}
@@ -0,0 +1,149 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { ZeroAddress } from 'ethers'
+import type { Presale, PresaleDistributor } from '../../typechain-types'
+import { ContractDeployment, DEPLOYMENTS_DIR, readManifest, writeManifest } from './deployment'
+
+export type AllocationMode = 'fixed' | 'pro-rata'
+
+/** Values of `AllocationMode` enum of PresaleDistributor by mode. */
+export const ALLOCATION_MODES: Record<AllocationMode, number> = { fixed: 1, 'pro-rata': 2 }
+
+export interface RegistrationState {
+  user: string
+  paidFee: bigint
+  /** Address of token paid or zero address for ETH. */
+  asset: string
+  isRefunded: boolean
+}
+
+export interface AllocationRow {
+  user: string
+  paidFee: bigint
+  asset: string
+  allocation: bigint
+  /** Why registration gets nothing, undefined when it has allocation. */
+  excluded?: 'refunded' | 'paid in token'
+}
+
+export interface AllocationPreview {
+  rows: AllocationRow[]
+  /** Sum of allocations, tokens the distributor must hold before claims. */
+  total: bigint
+  /** Pool minus sum of pro rata allocations rounded down, zero in fixed mode. */
+  dust: bigint
+  /** Fees paid in ETH and not refunded, the pool is shared by them in pro rata mode. */
+  totalFees: bigint
+}
+
+export interface DeployDistributorOptions {
+  presale: string
+  token: string
+  confirmations?: number
+  deploymentsDir?: string
+}
+
+/**
+ * Read registrations from Presale, so that refunds and fees are taken from chain and not from events.
+ * @param presale Presale contract.
+ * @param users Addresses of registrants, e.g. from indexer, duplicates are skipped.
+ */
+export async function readRegistrations(presale: Presale, users: string[]): Promise<RegistrationState[]> {
+  const registrations: RegistrationState[] = []
+  for (const user of new Set(users)) {
+    const registration = await presale.checkRegistration(user)
+    if (registration.isRegistered) {
+      registrations.push({
+        user,
+        paidFee: registration.paidFee,
+        asset: registration.asset,
+        isRefunded: registration.isRefunded
+      })
+    }
+  }
+  return registrations
+}
+
+/**
+ * Compute allocations the way `getAllocation` of PresaleDistributor does.
+ * Pro rata allocations share the pool by fees paid in ETH and are rounded down, the remainder is dust.
+ * @throws Error in pro rata mode when no fee is paid in ETH, the contract allocates nothing then.
+ * @param registrations Registrations read from Presale.
+ * @param mode Fixed amount per registrant or pool shared pro rata to fee.
+ * @param amount Tokens per registrant in fixed mode, whole pool in pro rata mode.
+ */
+export function previewAllocations(
+  registrations: RegistrationState[],
+  mode: AllocationMode,
+  amount: bigint
+): AllocationPreview {
+  const totalFees = registrations
+    .filter((registration) => !registration.isRefunded && registration.asset === ZeroAddress)
+    .reduce((sum, registration) => sum + registration.paidFee, 0n)
+  if (mode === 'pro-rata' && totalFees === 0n) {
+    throw new Error('No fees are paid in ETH to share pool pro rata')
+  }
+  const rows = registrations.map(({ user, paidFee, asset, isRefunded }): AllocationRow => {
+    if (isRefunded) {
+      return { user, paidFee, asset, allocation: 0n, excluded: 'refunded' }
+    }
+    if (mode === 'fixed') {
+      return { user, paidFee, asset, allocation: amount }
+    }
+    if (asset !== ZeroAddress) {
+      return { user, paidFee, asset, allocation: 0n, excluded: 'paid in token' }
+    }
+    return { user, paidFee, asset, allocation: (amount * paidFee) / totalFees }
+  })
+  const total = rows.reduce((sum, row) => sum + row.allocation, 0n)
+  return { rows, total, dust: mode === 'pro-rata' ? amount - total : 0n, totalFees }
+}
+
+/** Allocations as CSV with one row per registrant, amounts in wei or units of token. */
+export function allocationsToCsv(rows: AllocationRow[]): string {
+  const header = 'address,paidFee,asset,allocation,excluded'
+  const lines = rows.map((row) => [row.user, row.paidFee, row.asset, row.allocation, row.excluded ?? ''].join(','))
+  return [header, ...lines].join('\n') + '\n'
+}
+
+/** Allocations as JSON array, amounts as decimal strings. */
+export function allocationsToJson(rows: AllocationRow[]): string {
+  return JSON.stringify(rows, (_, value) => (typeof value === 'bigint' ? value.toString() : value), 2) + '\n'
+}
+
+/**
+ * Deploy PresaleDistributor of token for registrants of Presale and record it in manifest.
+ * @param hre Hardhat runtime environment.
+ * @param options Presale and token of distributor.
+ */
+export async function deployDistributor(
+  hre: HardhatRuntimeEnvironment,
+  options: DeployDistributorOptions
+): Promise<{ distributor: PresaleDistributor; deployment: ContractDeployment }> {
+  const { presale, token, deploymentsDir = DEPLOYMENTS_DIR } = options
+  const network = hre.network.name
+  const chainId = Number((await hre.ethers.provider.getNetwork()).chainId)
+  const manifest = readManifest(network, deploymentsDir) ?? { network, chainId, contracts: {} }
+  if (manifest.chainId !== chainId) {
+    throw new Error(`Manifest of network "${network}" is for chainId ${manifest.chainId}, connected to ${chainId}`)
+  }
+
+  const [deployer] = await hre.ethers.getSigners()
+  const DistributorFactory = await hre.ethers.getContractFactory('PresaleDistributor', deployer)
+  const distributor = (await DistributorFactory.deploy(presale, token)) as unknown as PresaleDistributor
+  const receipt = await distributor.deploymentTransaction()?.wait(options.confirmations ?? 1)
+  if (!receipt) {
+    throw new Error('Deployment transaction of PresaleDistributor is not mined')
+  }
+
+  const deployment: ContractDeployment = {
+    address: await distributor.getAddress(),
+    transactionHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    deployer: deployer.address,
+    args: [presale, token],
+    deployedAt: new Date().toISOString()
+  }
+  manifest.contracts.PresaleDistributor = deployment
+  writeManifest(manifest, deploymentsDir)
+  return { distributor, deployment }
+}
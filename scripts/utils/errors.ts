@@ -0,0 +1,127 @@
+import { Interface, Result, ZeroAddress } from 'ethers'
+import { getRevertData } from '../../src/sdk/errors'
+import { formatDate, formatEth } from './format'
+
+export interface DecodedError {
+  name: string
+  args: Result
+  message: string
+}
+
+const MESSAGES: Record<string, (args: Result) => string> = {
+  PresaleIncorrectDates: ([startDate, endDate]) =>
+    `Start date ${formatDate(startDate)} is after end date ${formatDate(endDate)}`,
+  UserAlreadyRegistered: ([user, timestamp]) => `User ${user} is already registered at ${formatDate(timestamp)}`,
+  PresaleIsNotActive: ([startDate, endDate]) =>
+    `Presale is not active, it runs from ${formatDate(startDate)} to ${formatDate(endDate)}`,
+  RegistrationLimitExceeded: ([registrationCount, maxRegistrations]) =>
+    `Registration limit is exceeded: ${registrationCount} of ${maxRegistrations} registrations`,
+  InvalidMaxRegistrationsUpdate: ([newMaxRegistrations, registrationCount]) =>
+    `Max registrations ${newMaxRegistrations} is less than current number of registrations ${registrationCount}`,
+  IncorrectRegistrationFee: ([registrationFee]) => `Registration fee is at least ${formatEth(registrationFee)}`,
+  NotEnoughFunds: ([amount, balance]) => `Amount ${formatEth(amount)} is more than balance ${formatEth(balance)}`,
+  PresaleIsCancelled: () => 'Presale is cancelled',
+  UserIsNotRegistered: ([user]) => `User ${user} is not registered`,
+  UserAlreadyRefunded: ([user]) => `Fee of user ${user} is already refunded`,
+  EnforcedRefund: () => 'Refunds are open',
+  ExpectedRefund: () => 'Refunds are not open',
+  NoActivePhase: () => 'No phase of presale is active',
+  InvalidPhase: ([phase]) => `Phase ${phase} is out of presale dates or overlaps previous phase`,
+  InvalidVoucherSigner: ([signer]) => `Voucher is signed by ${signer}, not by owner or voucher signer`,
+  VoucherExpired: ([expiry]) => `Voucher expired at ${formatDate(expiry)}`,
+  VoucherNonceUsed: ([registrant, nonce]) => `Nonce ${nonce} of voucher of ${registrant} is already used`,
+  SelfReferral: ([user]) => `User ${user} can not refer itself`,
+  ReferrerIsNotRegistered: ([referrer]) => `Referrer ${referrer} is not registered`,
+  InvalidReferralRebate: ([referralRebateBps]) => `Referral rebate ${referralRebateBps} bps is more than 10000 bps`,
+  ReferralRebatesLocked: () => 'Referral rebates are locked while fees can be refunded',
+  NoReferralRebate: ([referrer, asset]) =>
+    `Referrer ${referrer} has no rebate in ${asset === ZeroAddress ? 'ETH' : `token ${asset}`} to claim`,
+  ECDSAInvalidSignature: () => 'Signature is not valid',
+  ECDSAInvalidSignatureLength: ([length]) => `Signature length ${length} is not valid`,
+  ECDSAInvalidSignatureS: () => 'Signature is malleable',
+  FeeTokenIsNotSet: () => 'Registration fee in token is not set',
+  FeeTokenInUse: ([token]) => `Fee token ${token} holds fees not refunded`,
+  UserAlreadyWhitelisted: ([user]) => `User ${user} is already in whitelist`,
+  UserIsNotWhitelisted: ([user]) => `User ${user} is not in whitelist`,
+  EnforcedWhitelist: () => 'Whitelist is already on',
+  ExpectedWhitelist: () => 'Whitelist is off',
+  EnforcedPause: () => 'Presale is paused',
+  ExpectedPause: () => 'Presale is not paused',
+  OwnableUnauthorizedAccount: ([account]) => `Account ${account} is not the owner`,
+  OwnableInvalidOwner: ([owner]) => `Owner ${owner} is not valid`,
+  ReentrancyGuardReentrantCall: () => 'Reentrant call',
+  InvalidInitialization: () => 'Presale is already initialized',
+  UUPSUnauthorizedCallContext: () => 'Presale is not deployed behind proxy',
+  UUPSUnsupportedProxiableUUID: ([slot]) => `Implementation is not UUPS compatible, proxiable UUID ${slot}`,
+  ERC1967InvalidImplementation: ([implementation]) => `Implementation ${implementation} is not a contract`,
+  AddressInsufficientBalance: ([account]) => `Balance of ${account} is not enough`,
+  FailedInnerCall: () => 'Transfer of ETH failed',
+  InsufficientBalance: ([balance, needed]) => `Balance ${formatEth(balance)} is less than ${formatEth(needed)}`,
+  FailedCall: () => 'Transfer of ETH failed',
+  SafeERC20FailedOperation: ([token]) => `Transfer of token ${token} failed`,
+  InvalidApprovalThreshold: ([approvalThreshold]) => `Approval threshold ${approvalThreshold} is not valid`,
+  OperationAlreadyApproved: ([id, approver]) => `Operation ${id} is already approved by ${approver}`,
+  NotEnoughApprovals: ([id, approvalCount, approvalThreshold]) =>
+    `Operation ${id} has ${approvalCount} of ${approvalThreshold} approvals`,
+  TimelockInvalidOperationLength: () => 'Targets, values and payloads of operation differ in length',
+  TimelockInsufficientDelay: ([delay, minDelay]) => `Delay ${delay}s is less than minimum delay ${minDelay}s`,
+  TimelockUnexpectedOperationState: ([id]) => `Operation ${id} is not scheduled, not ready yet or already done`,
+  TimelockUnexecutedPredecessor: ([predecessor]) => `Predecessor operation ${predecessor} is not executed`,
+  TimelockUnauthorizedCaller: ([caller]) => `Caller ${caller} is not the timelock`,
+  AccessControlUnauthorizedAccount: ([account, role]) => `Account ${account} is missing role ${role}`,
+  InvalidAllocation: () => 'Allocation mode must be fixed or pro-rata with amount above zero',
+  InvalidClaimStart: ([claimStart, endDate]) =>
+    `Claim start ${formatDate(claimStart)} is not after end date ${formatDate(endDate)}`,
+  InvalidVesting: ([vestingCliff, vestingDuration]) =>
+    `Cliff ${vestingCliff}s is longer than vesting duration ${vestingDuration}s`,
+  ClaimsStarted: ([claimStart]) => `Claims started at ${formatDate(claimStart)}`,
+  ClaimsNotStarted: ([claimStart]) =>
+    claimStart === 0n ? 'Claims are not configured' : `Claims start after presale and at ${formatDate(claimStart)}`,
+  ClaimsLocked: () => 'Claims are closed while refunds are open',
+  UnsupportedFeeAsset: ([asset]) => `Pro rata allocation is shared by fees in ETH, registrant paid in token ${asset}`,
+  NothingToClaim: ([user]) => `User ${user} has nothing vested to claim`,
+  NotEnoughTokens: ([outstanding, balance]) =>
+    `Balance ${balance} does not exceed allocations not claimed yet ${outstanding}`,
+  UnknownPresale: ([presale]) => `Presale ${presale} is not created by factory`
+}
+
+/**
+ * Decode custom error of contract from error thrown by ethers.
+ * @param error Error thrown on call or transaction.
+ * @param contractInterface Interface of contract with custom errors.
+ * @return Decoded error or undefined if error is not a custom error of contract.
+ */
+export function decodeError(error: unknown, contractInterface: Interface): DecodedError | undefined {
+  const data = getRevertData(error)
+  if (!data) {
+    return undefined
+  }
+  let parsed
+  try {
+    parsed = contractInterface.parseError(data)
+  } catch {
+    return undefined
+  }
+  if (!parsed) {
+    return undefined
+  }
+  const format = MESSAGES[parsed.name]
+  return {
+    name: parsed.name,
+    args: parsed.args,
+    message: format ? format(parsed.args) : `${parsed.name}(${parsed.args.join(', ')})`
+  }
+}
+
+/**
+ * Replace error thrown by ethers with readable error when it is a custom error of contract.
+ * @param error Error thrown on call or transaction.
+ * @param contractInterface Interface of contract with custom errors.
+ */
+export function toReadableError(error: unknown, contractInterface: Interface): Error {
+  const decoded = decodeError(error, contractInterface)
+  if (decoded) {
+    return new Error(`${decoded.name}: ${decoded.message}`)
+  }
+  return error instanceof Error ? error : new Error(String(error))
+}
@@ -0,0 +1,52 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { PresaleFactory__factory } from '../../typechain-types'
+import type { PresaleFactory } from '../../typechain-types'
+import { ContractDeployment, DEPLOYMENTS_DIR, IMPLEMENTATION_ARGS, readManifest, writeManifest } from './deployment'
+
+export interface DeployFactoryOptions {
+  confirmations?: number
+  deploymentsDir?: string
+}
+
+/**
+ * Deploy Presale implementation with zero settings and PresaleFactory cloning it, record factory in manifest.
+ * @param hre Hardhat runtime environment.
+ * @param options Flags of deployment.
+ */
+export async function deployFactory(
+  hre: HardhatRuntimeEnvironment,
+  options: DeployFactoryOptions = {}
+): Promise<{ factory: PresaleFactory; deployment: ContractDeployment }> {
+  const { confirmations = 1, deploymentsDir = DEPLOYMENTS_DIR } = options
+  const network = hre.network.name
+  const chainId = Number((await hre.ethers.provider.getNetwork()).chainId)
+  const manifest = readManifest(network, deploymentsDir) ?? { network, chainId, contracts: {} }
+  if (manifest.chainId !== chainId) {
+    throw new Error(`Manifest of network "${network}" is for chainId ${manifest.chainId}, connected to ${chainId}`)
+  }
+
+  const [deployer] = await hre.ethers.getSigners()
+  const implementation = await hre.ethers.deployContract('Presale', IMPLEMENTATION_ARGS, deployer)
+  await implementation.deploymentTransaction()?.wait(confirmations)
+  const implementationAddress = await implementation.getAddress()
+  const deployed = await hre.ethers.deployContract('PresaleFactory', [implementationAddress], deployer)
+  const receipt = await deployed.deploymentTransaction()?.wait(confirmations)
+  if (!receipt) {
+    throw new Error('Deployment transaction of PresaleFactory is not mined')
+  }
+
+  const factory = PresaleFactory__factory.connect(await deployed.getAddress(), deployer)
+  const deployment: ContractDeployment = {
+    address: await factory.getAddress(),
+    transactionHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    deployer: deployer.address,
+    args: [implementationAddress],
+    version: (await implementation.VERSION()).toString(),
+    implementation: implementationAddress,
+    deployedAt: new Date().toISOString()
+  }
+  manifest.contracts.PresaleFactory = deployment
+  writeManifest(manifest, deploymentsDir)
+  return { factory, deployment }
+}
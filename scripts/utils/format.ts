@@ -0,0 +1,52 @@
+import { formatEther, formatUnits } from 'ethers'
+
+/**
+ * Format unix timestamp as ISO date with the timestamp itself.
+ * @param timestamp Unix timestamp in seconds.
+ */
+export function formatDate(timestamp: bigint | number): string {
+  const seconds = Number(timestamp)
+  if (!Number.isSafeInteger(seconds) || seconds * 1000 > 8.64e15) {
+    return timestamp.toString()
+  }
+  return `${new Date(seconds * 1000).toISOString()} (${seconds})`
+}
+
+/**
+ * Format amount of wei as ETH.
+ * @param amount Amount in wei.
+ */
+export function formatEth(amount: bigint): string {
+  return `${formatEther(amount)} ETH`
+}
+
+/**
+ * Format amount in units of token with its symbol.
+ * @param amount Amount in units of token.
+ * @param decimals Decimals of token.
+ * @param symbol Symbol of token.
+ */
+export function formatToken(amount: bigint, decimals: bigint | number, symbol: string): string {
+  return `${formatUnits(amount, decimals)} ${symbol}`
+}
+
+export interface DiffRow {
+  name: string
+  current: string
+  next: string
+}
+
+/**
+ * Format current and new values as table, changed rows are marked with `*`.
+ * @param rows Rows of values.
+ */
+export function formatDiff(rows: DiffRow[]): string {
+  const nameWidth = Math.max(...rows.map((row) => row.name.length))
+  const currentWidth = Math.max(...rows.map((row) => row.current.length))
+  return rows
+    .map((row) => {
+      const mark = row.current === row.next ? ' ' : '*'
+      return `${mark} ${row.name.padEnd(nameWidth)}  ${row.current.padEnd(currentWidth)}  ->  ${row.next}`
+    })
+    .join('\n')
+}
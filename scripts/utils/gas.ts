@@ -0,0 +1,143 @@
+import fs from 'fs'
+import path from 'path'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { ContractTransactionResponse, dataSlice, getAddress, id, parseEther } from 'ethers'
+import type { Presale } from '../../typechain-types'
+
+export const GAS_SNAPSHOT_PATH = path.join(__dirname, '..', '..', 'gas-snapshot.json')
+
+/** Batch sizes of `addBatchToWhitelist` measured in snapshot. */
+export const WHITELIST_BATCH_SIZES = [1, 10, 100, 500]
+
+/** Gas used by calls and deployment, and bytecode size in bytes, by name of entry. */
+export type GasSnapshot = Record<string, number>
+
+export interface GasDiffEntry {
+  name: string
+  /** Value in committed snapshot, undefined for a new entry. */
+  base?: number
+  /** Measured value, undefined for a removed entry. */
+  current?: number
+  /** Change relative to base in percent. */
+  change: number
+  regressed: boolean
+}
+
+/**
+ * Deterministic addresses for whitelist batches, so that calldata and its gas are the same on every run.
+ * @param count Number of addresses.
+ */
+export function gasTestAddresses(count: number): string[] {
+  return Array.from({ length: count }, (_, index) => getAddress(dataSlice(id(`gas-${index}`), 12)))
+}
+
+async function gasUsed(transaction: Promise<ContractTransactionResponse>): Promise<number> {
+  const receipt = await (await transaction).wait()
+  return Number(receipt?.gasUsed)
+}
+
+/**
+ * Measure gas of Presale on Hardhat network, the state is reverted afterwards.
+ * @param hre Hardhat runtime environment connected to Hardhat network.
+ */
+export async function measureGas(hre: HardhatRuntimeEnvironment): Promise<GasSnapshot> {
+  const { ethers, network } = hre
+  if (network.name !== 'hardhat') {
+    throw new Error(`Gas is measured on Hardhat network, not on ${network.name}`)
+  }
+  const snapshotId = await network.provider.send('evm_snapshot')
+  try {
+    const [owner, registrant] = await ethers.getSigners()
+    const now = Number((await ethers.provider.getBlock('latest'))?.timestamp)
+    const registrationFee = parseEther('0.1')
+    const PresaleFactory = await ethers.getContractFactory('Presale', owner)
+    const presale = (await PresaleFactory.deploy(
+      now - 60,
+      now + 24 * 60 * 60,
+      1000,
+      registrationFee,
+      false
+    )) as unknown as Presale
+    const deployment = await presale.deploymentTransaction()?.wait()
+    const code = await ethers.provider.getCode(await presale.getAddress())
+
+    const gas: GasSnapshot = {
+      'Presale deployment': Number(deployment?.gasUsed),
+      'Presale bytecode size': (code.length - 2) / 2,
+      register: await gasUsed(presale.connect(registrant).register({ value: registrationFee })),
+      setSettings: await gasUsed(presale.setSettings(now - 60, now + 2 * 24 * 60 * 60, 2000, registrationFee)),
+      withdrawFunds: await gasUsed(presale.withdrawFunds(registrationFee))
+    }
+    let offset = 0
+    for (const size of WHITELIST_BATCH_SIZES) {
+      const addresses = gasTestAddresses(offset + size).slice(offset)
+      gas[`addBatchToWhitelist(${size})`] = await gasUsed(presale.addBatchToWhitelist(addresses))
+      offset += size
+    }
+    return gas
+  } finally {
+    await network.provider.send('evm_revert', [snapshotId])
+  }
+}
+
+export function readGasSnapshot(file: string = GAS_SNAPSHOT_PATH): GasSnapshot | undefined {
+  if (!fs.existsSync(file)) {
+    return undefined
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'))
+}
+
+export function writeGasSnapshot(snapshot: GasSnapshot, file: string = GAS_SNAPSHOT_PATH): void {
+  fs.writeFileSync(file, JSON.stringify(snapshot, null, 2) + '\n')
+}
+
+/**
+ * Compare measured gas with committed snapshot.
+ * @param base Committed snapshot.
+ * @param current Measured snapshot.
+ * @param threshold Allowed increase in percent, an entry above it regressed.
+ */
+export function compareGasSnapshots(base: GasSnapshot, current: GasSnapshot, threshold: number): GasDiffEntry[] {
+  const names = [...new Set([...Object.keys(base), ...Object.keys(current)])]
+  return names.map((name) => {
+    const baseValue = base[name]
+    const currentValue = current[name]
+    if (baseValue === undefined || currentValue === undefined) {
+      return { name, base: baseValue, current: currentValue, change: 0, regressed: false }
+    }
+    const change =
+      baseValue === 0 ? (currentValue === 0 ? 0 : Infinity) : ((currentValue - baseValue) / baseValue) * 100
+    return { name, base: baseValue, current: currentValue, change, regressed: change > threshold }
+  })
+}
+
+/**
+ * Format diff of gas as table, regressed rows are marked with `!` and other changed rows with `*`.
+ * @param entries Entries of diff.
+ */
+export function formatGasDiff(entries: GasDiffEntry[]): string {
+  const rows = entries.map((entry) => {
+    const changed = entry.base !== entry.current
+    const change =
+      entry.base === undefined
+        ? 'new'
+        : entry.current === undefined
+          ? 'removed'
+          : `${entry.change >= 0 ? '+' : ''}${entry.change.toFixed(2)}%`
+    return {
+      mark: entry.regressed ? '!' : changed ? '*' : ' ',
+      name: entry.name,
+      base: entry.base?.toString() ?? '-',
+      current: entry.current?.toString() ?? '-',
+      change: changed ? change : ''
+    }
+  })
+  const nameWidth = Math.max(...rows.map((row) => row.name.length))
+  const baseWidth = Math.max(...rows.map((row) => row.base.length))
+  const currentWidth = Math.max(...rows.map((row) => row.current.length))
+  return rows
+    .map((row) =>
+      `${row.mark} ${row.name.padEnd(nameWidth)}  ${row.base.padStart(baseWidth)}  ->  ${row.current.padStart(currentWidth)}  ${row.change}`.trimEnd()
+    )
+    .join('\n')
+}
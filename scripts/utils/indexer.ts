@@ -0,0 +1,245 @@
+import fs from 'fs'
+import path from 'path'
+import { Interface, Log, LogDescription, Provider, getAddress } from 'ethers'
+
+export const INDEXER_DIR = path.join(__dirname, '..', '..', 'indexer')
+
+export type EventArgs = Record<string, string | boolean>
+
+export interface IndexedEvent {
+  name: string
+  blockNumber: number
+  blockHash: string
+  transactionHash: string
+  logIndex: number
+  /** Arguments of event by name, big numbers are stored as decimal strings. */
+  args: EventArgs
+}
+
+export interface IndexerStore {
+  presale: string
+  chainId: number
+  startBlock: number
+  /** Last indexed block, `startBlock - 1` before the first sync. */
+  lastBlock: number
+  lastBlockHash?: string
+  events: IndexedEvent[]
+}
+
+export interface PresaleIndexerOptions {
+  presale: string
+  provider: Provider
+  /** Interface of Presale used to decode logs. */
+  contractInterface: Interface
+  storePath: string
+  startBlock?: number
+  /** Number of blocks in one `getLogs` request. */
+  chunkSize?: number
+  /** Minimum number of blocks rewound and indexed again when reorg is detected. */
+  confirmations?: number
+  log?: (message: string) => void
+}
+
+export interface Registrant {
+  user: string
+  timestamp: number
+  paidFee: bigint
+  /** Address of token paid or zero address for ETH. */
+  asset: string
+  /** Number of phase starting from one, zero when presale has no phases. */
+  phase: number
+  blockNumber: number
+  transactionHash: string
+}
+
+export function indexerStorePath(network: string): string {
+  return path.join(INDEXER_DIR, `${network}.json`)
+}
+
+function serializeArgs(log: LogDescription): EventArgs {
+  const args: EventArgs = {}
+  log.fragment.inputs.forEach((input, index) => {
+    const value = log.args[index]
+    args[input.name || String(index)] = typeof value === 'boolean' ? value : value.toString()
+  })
+  return args
+}
+
+/**
+ * Indexer of Presale events into local JSON store.
+ * It backfills events from start block in chunks, rewinds on reorg at least the confirmation window and back to the
+ * latest stored event still in chain, and follows new blocks.
+ */
+export class PresaleIndexer {
+  readonly store: IndexerStore
+  private readonly options: Required<PresaleIndexerOptions>
+  private following = false
+  private wakeUp?: () => void
+
+  constructor(options: PresaleIndexerOptions) {
+    this.options = { startBlock: 0, chunkSize: 2000, confirmations: 12, log: () => undefined, ...options }
+    const presale = getAddress(options.presale)
+    const stored = fs.existsSync(options.storePath)
+      ? (JSON.parse(fs.readFileSync(options.storePath, 'utf8')) as IndexerStore)
+      : undefined
+    if (stored && stored.presale !== presale) {
+      throw new Error(`Store ${options.storePath} belongs to Presale ${stored.presale}`)
+    }
+    this.store = stored ?? {
+      presale,
+      chainId: 0,
+      startBlock: this.options.startBlock,
+      lastBlock: this.options.startBlock - 1,
+      events: []
+    }
+  }
+
+  /**
+   * Index events up to the latest block.
+   * @return Number of new events.
+   */
+  async sync(): Promise<number> {
+    const { provider, chunkSize, log } = this.options
+    await this.checkChain()
+    await this.checkReorg()
+
+    const head = await provider.getBlockNumber()
+    let added = 0
+    for (let fromBlock = this.store.lastBlock + 1; fromBlock <= head; fromBlock += chunkSize) {
+      const toBlock = Math.min(fromBlock + chunkSize - 1, head)
+      const logs = await provider.getLogs({ address: this.store.presale, fromBlock, toBlock })
+      const events = logs.map((log) => this.decode(log)).filter((event): event is IndexedEvent => !!event)
+      const block = await provider.getBlock(toBlock)
+      this.store.events.push(...events)
+      this.store.lastBlock = toBlock
+      this.store.lastBlockHash = block?.hash ?? undefined
+      this.save()
+      added += events.length
+      log(`Indexed blocks ${fromBlock}-${toBlock}: ${events.length} event(s)`)
+    }
+    return added
+  }
+
+  /**
+   * Sync on every interval until `stop` is called, failed syncs are logged and retried on the next interval.
+   * @param interval Interval between syncs in milliseconds.
+   */
+  async follow(interval = 4000): Promise<void> {
+    this.following = true
+    while (this.following) {
+      await this.sync().catch((error) => this.options.log(`Sync failed: ${error.message}`))
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, interval)
+        this.wakeUp = () => {
+          clearTimeout(timer)
+          resolve()
+        }
+      })
+    }
+  }
+
+  stop(): void {
+    this.following = false
+    this.wakeUp?.()
+  }
+
+  /** Events of given name in order of chain. */
+  eventsByName(name: string): IndexedEvent[] {
+    return this.store.events.filter((event) => event.name === name)
+  }
+
+  /** Registered users in order of registration. */
+  registrants(): Registrant[] {
+    return this.eventsByName('Registered').map((event) => ({
+      user: event.args.user as string,
+      timestamp: Number(event.args.timestamp),
+      paidFee: BigInt(event.args.paidFee as string),
+      asset: event.args.asset as string,
+      phase: Number(event.args.phase),
+      blockNumber: event.blockNumber,
+      transactionHash: event.transactionHash
+    }))
+  }
+
+  /** Addresses in whitelist mapping rebuilt from add and remove events. */
+  whitelist(): string[] {
+    const whitelist = new Set<string>()
+    for (const event of this.store.events) {
+      if (event.name === 'AddedToWhitelist') {
+        whitelist.add(event.args.user as string)
+      } else if (event.name === 'RemovedFromWhitelist') {
+        whitelist.delete(event.args.user as string)
+      }
+    }
+    return [...whitelist]
+  }
+
+  private async checkChain(): Promise<void> {
+    const chainId = Number((await this.options.provider.getNetwork()).chainId)
+    if (this.store.chainId === 0) {
+      this.store.chainId = chainId
+    } else if (this.store.chainId !== chainId) {
+      throw new Error(`Store is for chainId ${this.store.chainId}, connected to ${chainId}`)
+    }
+  }
+
+  private async checkReorg(): Promise<void> {
+    const { provider, confirmations, log } = this.options
+    if (this.store.lastBlock < this.store.startBlock || !this.store.lastBlockHash) {
+      return
+    }
+    const block = await provider.getBlock(this.store.lastBlock)
+    if (block?.hash === this.store.lastBlockHash) {
+      return
+    }
+    const canonicalBlock = await this.findCanonicalEventBlock()
+    const rewindTo = Math.max(this.store.startBlock - 1, Math.min(this.store.lastBlock - confirmations, canonicalBlock))
+    log(`Reorg detected at block ${this.store.lastBlock}, rewinding to block ${rewindTo}`)
+    this.store.events = this.store.events.filter((event) => event.blockNumber <= rewindTo)
+    this.store.lastBlock = rewindTo
+    this.store.lastBlockHash = undefined
+    this.save()
+  }
+
+  /**
+   * Walk back through stored events until block of one is still in chain, blocks before it are canonical as well.
+   * @return Number of the latest block whose events are canonical, `startBlock - 1` when none is.
+   */
+  private async findCanonicalEventBlock(): Promise<number> {
+    let checkedBlock: number | undefined
+    for (let index = this.store.events.length - 1; index >= 0; index--) {
+      const { blockNumber, blockHash } = this.store.events[index]
+      if (blockNumber === checkedBlock) {
+        continue
+      }
+      checkedBlock = blockNumber
+      const block = await this.options.provider.getBlock(blockNumber)
+      if (block?.hash === blockHash) {
+        return blockNumber
+      }
+    }
+    return this.store.startBlock - 1
+  }
+
+  private decode(log: Log): IndexedEvent | undefined {
+    const parsed = this.options.contractInterface.parseLog(log)
+    if (!parsed) {
+      return undefined
+    }
+    return {
+      name: parsed.name,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      args: serializeArgs(parsed)
+    }
+  }
+
+  private save(): void {
+    const { storePath } = this.options
+    fs.mkdirSync(path.dirname(storePath), { recursive: true })
+    fs.writeFileSync(`${storePath}.tmp`, JSON.stringify(this.store, null, 2) + '\n')
+    fs.renameSync(`${storePath}.tmp`, storePath)
+  }
+}
@@ -0,0 +1,70 @@
+import { PresaleIndexer } from './indexer'
+
+export interface ReferralRow {
+  referrer: string
+  /** Address of token of rebates or zero address for ETH. */
+  asset: string
+  /** Number of users registered with referrer, including refunded ones. */
+  referrals: number
+  accrued: bigint
+  /** Unclaimed rebates dropped on refunds of users referred. */
+  forfeited: bigint
+  claimed: bigint
+  /** Accrued minus forfeited and claimed, equal to `getReferralRebate` of contract. */
+  unclaimed: bigint
+}
+
+/**
+ * Build leaderboard of referrers from indexed events, one row per referrer and asset.
+ * Rows are sorted by number of referrals and then by accrued rebate.
+ * @param indexer Synced indexer of Presale.
+ */
+export function buildReferralLeaderboard(indexer: PresaleIndexer): ReferralRow[] {
+  const rows = new Map<string, ReferralRow>()
+  const row = (referrer: string, asset: string): ReferralRow => {
+    const key = `${referrer}:${asset}`
+    let current = rows.get(key)
+    if (!current) {
+      current = { referrer, asset, referrals: 0, accrued: 0n, forfeited: 0n, claimed: 0n, unclaimed: 0n }
+      rows.set(key, current)
+    }
+    return current
+  }
+
+  for (const event of indexer.store.events) {
+    if (event.name === 'Referred') {
+      const current = row(event.args.referrer as string, event.args.asset as string)
+      current.referrals++
+      current.accrued += BigInt(event.args.rebate as string)
+      current.unclaimed += BigInt(event.args.rebate as string)
+    } else if (event.name === 'ReferralRebateForfeited') {
+      const current = row(event.args.referrer as string, event.args.asset as string)
+      current.forfeited += BigInt(event.args.amount as string)
+      current.unclaimed -= BigInt(event.args.amount as string)
+    } else if (event.name === 'ReferralRebateClaimed') {
+      const current = row(event.args.referrer as string, event.args.asset as string)
+      current.claimed += BigInt(event.args.amount as string)
+      current.unclaimed -= BigInt(event.args.amount as string)
+    }
+  }
+
+  return [...rows.values()].sort(
+    (a, b) => b.referrals - a.referrals || (b.accrued > a.accrued ? 1 : b.accrued < a.accrued ? -1 : 0)
+  )
+}
+
+/** Leaderboard as CSV with one row per referrer and asset, amounts in wei. */
+export function referralsToCsv(rows: ReferralRow[]): string {
+  const header = 'rank,referrer,asset,referrals,accrued,forfeited,claimed,unclaimed'
+  const lines = rows.map((row, index) =>
+    [index + 1, row.referrer, row.asset, row.referrals, row.accrued, row.forfeited, row.claimed, row.unclaimed].join(
+      ','
+    )
+  )
+  return [header, ...lines].join('\n') + '\n'
+}
+
+/** Leaderboard as JSON array, amounts in wei as decimal strings. */
+export function referralsToJson(rows: ReferralRow[]): string {
+  return JSON.stringify(rows, (_, value) => (typeof value === 'bigint' ? value.toString() : value), 2) + '\n'
+}
@@ -0,0 +1,174 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+import { Signer } from 'ethers'
+import type { Presale } from '../../typechain-types'
+import { SignedVoucherJson, parseVoucher } from '../../src/sdk/voucher'
+import { decodeError } from './errors'
+import { formatEth } from './format'
+
+/** Maximum size of request body in bytes. */
+const MAX_BODY_SIZE = 16 * 1024
+
+export interface PresaleRelayerOptions {
+  /** Presale connected to signer of relayer, which pays gas and fee of vouchers. */
+  presale: Presale
+  /** Maximum fee of voucher paid by relayer, zero by default so only vouchers waiving fee are relayed. */
+  maxFee?: bigint
+  log?: (message: string) => void
+}
+
+export interface RelayResult {
+  transactionHash: string
+  blockNumber: number
+}
+
+/** Error of relay with HTTP status and name of custom error of Presale when it reverts. */
+export class RelayerError extends Error {
+  constructor(
+    readonly status: number,
+    readonly error: string,
+    message: string
+  ) {
+    super(message)
+    this.name = 'RelayerError'
+  }
+}
+
+/**
+ * HTTP relayer of registration vouchers.
+ * `POST /register` with signed voucher in JSON format checks it by static call and submits `registerWithSignature`,
+ * transactions are sent one by one. `GET /health` returns addresses of Presale and relayer.
+ */
+export class PresaleRelayer {
+  readonly server: http.Server
+  private readonly options: Required<PresaleRelayerOptions>
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(options: PresaleRelayerOptions) {
+    this.options = { maxFee: 0n, log: () => undefined, ...options }
+    this.server = http.createServer((request, response) => {
+      this.handle(request, response).catch((error) => {
+        this.options.log(`Request failed: ${error.message}`)
+        send(response, 500, { error: 'InternalError', message: 'Internal error' })
+      })
+    })
+  }
+
+  /**
+   * Start listening, port 0 picks a free port.
+   * @return Address which server listens.
+   */
+  async listen(port: number, host = '127.0.0.1'): Promise<AddressInfo> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject)
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject)
+        resolve()
+      })
+    })
+    return this.server.address() as AddressInfo
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve, reject) => this.server.close((error) => (error ? reject(error) : resolve())))
+  }
+
+  /**
+   * Check signed voucher and submit it to Presale after transactions sent before.
+   * @param json Voucher with signature in JSON format.
+   * @throws RelayerError when voucher is not valid or Presale would revert.
+   */
+  async relay(json: SignedVoucherJson): Promise<RelayResult> {
+    const { presale, maxFee, log } = this.options
+    let parsed
+    try {
+      parsed = parseVoucher(json)
+    } catch (error) {
+      throw new RelayerError(400, 'InvalidRequest', (error as Error).message)
+    }
+    const { voucher, signature } = parsed
+    if (voucher.fee > maxFee) {
+      throw new RelayerError(
+        403,
+        'FeeNotAccepted',
+        `Fee of voucher ${formatEth(voucher.fee)} is more than ${formatEth(maxFee)} paid by relayer`
+      )
+    }
+    return this.enqueue(async () => {
+      try {
+        await presale.registerWithSignature.staticCall(voucher, signature, { value: voucher.fee })
+        const tx = await presale.registerWithSignature(voucher, signature, { value: voucher.fee })
+        const receipt = await tx.wait()
+        log(`Registered ${voucher.registrant} in transaction ${tx.hash}`)
+        return { transactionHash: tx.hash, blockNumber: Number(receipt?.blockNumber) }
+      } catch (error) {
+        const decoded = decodeError(error, presale.interface)
+        if (decoded) {
+          throw new RelayerError(400, decoded.name, decoded.message)
+        }
+        throw error
+      }
+    })
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const { presale } = this.options
+    if (request.method === 'GET' && request.url === '/health') {
+      const runner = presale.runner
+      const relayer = runner && 'getAddress' in runner ? await (runner as Signer).getAddress() : undefined
+      send(response, 200, { status: 'ok', presale: presale.target, relayer })
+      return
+    }
+    if (request.method !== 'POST' || request.url !== '/register') {
+      send(response, 404, { error: 'NotFound', message: `${request.method} ${request.url} is not found` })
+      return
+    }
+    let json: SignedVoucherJson
+    try {
+      json = JSON.parse(await readBody(request))
+    } catch (error) {
+      const status = error instanceof RelayerError ? error.status : 400
+      send(response, status, { error: 'InvalidRequest', message: (error as Error).message })
+      return
+    }
+    try {
+      send(response, 200, await this.relay(json))
+    } catch (error) {
+      if (!(error instanceof RelayerError)) {
+        throw error
+      }
+      send(response, error.status, { error: error.error, message: error.message })
+    }
+  }
+
+  private enqueue<T>(action: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(action)
+    this.queue = result.catch(() => undefined)
+    return result
+  }
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = ''
+    let size = 0
+    request.setEncoding('utf8')
+    request.on('data', (chunk: string) => {
+      size += chunk.length
+      if (size <= MAX_BODY_SIZE) {
+        body += chunk
+      }
+    })
+    request.on('end', () =>
+      size > MAX_BODY_SIZE
+        ? reject(new RelayerError(413, 'InvalidRequest', `Body is larger than ${MAX_BODY_SIZE} bytes`))
+        : resolve(body)
+    )
+    request.on('error', reject)
+  })
+}
+
+function send(response: http.ServerResponse, status: number, body: object): void {
+  response.writeHead(status, { 'Content-Type': 'application/json' })
+  response.end(JSON.stringify(body))
+}
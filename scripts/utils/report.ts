@@ -0,0 +1,186 @@
+import { ZeroAddress } from 'ethers'
+import type { Presale } from '../../typechain-types'
+import { PresaleIndexer } from './indexer'
+
+export interface RegistrantRow {
+  user: string
+  timestamp: number
+  paidFee: bigint
+  /** Address of token paid or zero address for ETH. */
+  asset: string
+  /** Number of phase starting from one, zero when presale has no phases. */
+  phase: number
+  /** Registration fee in asset in effect at the moment of registration, of its phase when presale has phases. */
+  registrationFee: bigint
+  /** Part of paid fee above registration fee. */
+  overpayment: bigint
+  transactionHash: string
+}
+
+export type ReconciliationStatus = 'balanced' | 'surplus' | 'deficit'
+
+/** Reconciliation of ETH, fees in token are not included. */
+export interface Reconciliation {
+  totalFees: bigint
+  totalOverpayments: bigint
+  totalWithdrawals: bigint
+  totalRefunds: bigint
+  /** ETH sent by owner on cancel to cover refunds. */
+  totalTopUps: bigint
+  /** Rebates in ETH claimed by referrers. */
+  totalRebates: bigint
+  /** Total fees and top-ups minus withdrawals, refunds and claimed rebates. */
+  expectedBalance: bigint
+  balance: bigint
+  /** Balance minus expected balance, positive for ETH sent without registration, e.g. forced by selfdestruct. */
+  difference: bigint
+  status: ReconciliationStatus
+}
+
+export interface PresaleReport {
+  registrants: RegistrantRow[]
+  reconciliation: Reconciliation
+  /** Registrations where indexed events differ from `checkRegistration`. */
+  mismatches: string[]
+}
+
+/**
+ * Build report of registrants and reconcile fees and withdrawals with balance of contract.
+ * @param indexer Synced indexer of Presale.
+ * @param presale Presale contract.
+ */
+export async function buildReport(indexer: PresaleIndexer, presale: Presale): Promise<PresaleReport> {
+  const provider = presale.runner?.provider
+  if (!provider) {
+    throw new Error('Presale is not connected to provider')
+  }
+  const blockTag = indexer.store.lastBlock
+  const changes = indexer.eventsByName('ChangedSettings')
+  let registrationFee = changes.length > 0 ? BigInt(changes[0].args.oldRegistrationFee as string) : undefined
+  registrationFee ??= (await presale.getSettings({ blockTag }))[3]
+
+  let tokenRegistrationFee = 0n
+  const phaseFees = new Map<number, { registrationFee: bigint; tokenRegistrationFee: bigint }>()
+
+  const registrants: RegistrantRow[] = []
+  let totalWithdrawals = 0n
+  let totalRefunds = 0n
+  let totalTopUps = 0n
+  let totalRebates = 0n
+  for (const event of indexer.store.events) {
+    if (event.name === 'ChangedSettings') {
+      registrationFee = BigInt(event.args.registrationFee as string)
+    } else if (event.name === 'ChangedFeeToken') {
+      tokenRegistrationFee = BigInt(event.args.tokenRegistrationFee as string)
+    } else if (event.name === 'ChangedPhase') {
+      phaseFees.set(Number(event.args.phase), {
+        registrationFee: BigInt(event.args.registrationFee as string),
+        tokenRegistrationFee: BigInt(event.args.tokenRegistrationFee as string)
+      })
+    } else if (event.name === 'Withdrawal') {
+      totalWithdrawals += BigInt(event.args.amount as string)
+    } else if (event.name === 'Refunded' && event.args.asset === ZeroAddress) {
+      totalRefunds += BigInt(event.args.amount as string)
+    } else if (event.name === 'ReferralRebateClaimed' && event.args.asset === ZeroAddress) {
+      totalRebates += BigInt(event.args.amount as string)
+    } else if (event.name === 'PresaleCancelled') {
+      totalTopUps += BigInt(event.args.topUp as string)
+    } else if (event.name === 'Registered') {
+      const paidFee = BigInt(event.args.paidFee as string)
+      const asset = event.args.asset as string
+      const fees = phaseFees.get(Number(event.args.phase)) ?? { registrationFee, tokenRegistrationFee }
+      const fee = asset === ZeroAddress ? fees.registrationFee : fees.tokenRegistrationFee
+      registrants.push({
+        user: event.args.user as string,
+        timestamp: Number(event.args.timestamp),
+        paidFee,
+        asset,
+        phase: Number(event.args.phase),
+        registrationFee: fee,
+        overpayment: paidFee > fee ? paidFee - fee : 0n,
+        transactionHash: event.transactionHash
+      })
+    }
+  }
+
+  const mismatches: string[] = []
+  for (const registrant of registrants) {
+    const registration = await presale.checkRegistration(registrant.user, { blockTag })
+    if (!registration.isRegistered || registration.paidFee !== registrant.paidFee) {
+      mismatches.push(
+        `${registrant.user}: event paid ${registrant.paidFee}, contract has ${registration.paidFee} registered ${registration.isRegistered}`
+      )
+    }
+  }
+
+  const ethRegistrants = registrants.filter((registrant) => registrant.asset === ZeroAddress)
+  const totalFees = ethRegistrants.reduce((sum, registrant) => sum + registrant.paidFee, 0n)
+  const totalOverpayments = ethRegistrants.reduce((sum, registrant) => sum + registrant.overpayment, 0n)
+  const expectedBalance = totalFees + totalTopUps - totalWithdrawals - totalRefunds - totalRebates
+  const balance = await provider.getBalance(indexer.store.presale, blockTag)
+  const difference = balance - expectedBalance
+  return {
+    registrants,
+    reconciliation: {
+      totalFees,
+      totalOverpayments,
+      totalWithdrawals,
+      totalRefunds,
+      totalTopUps,
+      totalRebates,
+      expectedBalance,
+      balance,
+      difference,
+      status: difference === 0n ? 'balanced' : difference > 0n ? 'surplus' : 'deficit'
+    },
+    mismatches
+  }
+}
+
+export interface OutstandingRefund {
+  user: string
+  paidFee: bigint
+  /** Address of token paid or zero address for ETH. */
+  asset: string
+}
+
+/**
+ * List registrants whose fees are not refunded yet.
+ * @param indexer Synced indexer of Presale.
+ * @param presale Presale contract.
+ */
+export async function findOutstandingRefunds(indexer: PresaleIndexer, presale: Presale): Promise<OutstandingRefund[]> {
+  const blockTag = indexer.store.lastBlock
+  const refunds: OutstandingRefund[] = []
+  for (const { user } of indexer.registrants()) {
+    const registration = await presale.checkRegistration(user, { blockTag })
+    if (registration.isRegistered && !registration.isRefunded) {
+      refunds.push({ user, paidFee: registration.paidFee, asset: registration.asset })
+    }
+  }
+  return refunds
+}
+
+/** Registrants as CSV with one row per registration, amounts in wei. */
+export function registrantsToCsv(registrants: RegistrantRow[]): string {
+  const header = 'address,timestamp,date,paidFee,asset,phase,registrationFee,overpayment,transactionHash'
+  const rows = registrants.map((registrant) =>
+    [
+      registrant.user,
+      registrant.timestamp,
+      new Date(registrant.timestamp * 1000).toISOString(),
+      registrant.paidFee,
+      registrant.asset,
+      registrant.phase,
+      registrant.registrationFee,
+      registrant.overpayment,
+      registrant.transactionHash
+    ].join(',')
+  )
+  return [header, ...rows].join('\n') + '\n'
+}
+
+/** Registrants as JSON array, amounts in wei as decimal strings. */
+export function registrantsToJson(registrants: RegistrantRow[]): string {
+  return JSON.stringify(registrants, (_, value) => (typeof value === 'bigint' ? value.toString() : value), 2) + '\n'
+}
@@ -0,0 +1,417 @@
+import fs from 'fs'
+import path from 'path'
+import { parse as parseYaml } from 'yaml'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { ContractTransactionResponse, Signer, ZeroAddress, dataSlice, getAddress, id, parseEther } from 'ethers'
+import type { Presale } from '../../typechain-types'
+import { PresaleDate, PresaleNetworkConfig, parsePresaleDate, resolvePresaleArgs } from './config'
+import { decodeError } from './errors'
+import { formatDate, formatEth } from './format'
+
+export type ScenarioAction =
+  | 'register'
+  | 'pause'
+  | 'unpause'
+  | 'settings'
+  | 'whitelist:on'
+  | 'whitelist:off'
+  | 'whitelist:add'
+  | 'whitelist:remove'
+  | 'withdraw'
+  | 'check'
+
+export interface ScenarioStep {
+  action: ScenarioAction
+  /** Time of step, relative dates like `now+1h` count from start of scenario. Steps run right after previous by default. */
+  at?: PresaleDate
+  /** Wallets of register and whitelist steps: index, list of indexes or range like `0-9`. */
+  wallets?: number | number[] | string
+  /** Sender of admin steps: `owner` or index of wallet, owner by default. */
+  from?: 'owner' | number
+  /** Fee in ETH of register step, fee of current phase by default; new fee of settings step. */
+  fee?: string
+  /** New dates and max registrations of settings step, omitted settings keep current values. */
+  start?: PresaleDate
+  end?: PresaleDate
+  max?: number
+  /** Amount in ETH of withdraw step or `all` for whole available balance. */
+  amount?: string
+  /** Expected outcome of transactions: `success` or name of custom error, success by default. */
+  expect?: string
+  /** Expected state of check step. */
+  registrations?: number
+  balance?: string
+  paused?: boolean
+  note?: string
+}
+
+export interface Scenario {
+  name?: string
+  /** Start of scenario: unix timestamp or ISO date, current time of network by default. */
+  time?: PresaleDate
+  /** Constructor arguments of Presale, relative dates count from start of scenario. */
+  presale: PresaleNetworkConfig
+  wallets?: {
+    count: number
+    /** Number of first wallets added to whitelist before the first step. */
+    whitelisted?: number
+    /** Balance of every wallet in ETH, 10 by default. */
+    balance?: string
+  }
+  steps: ScenarioStep[]
+}
+
+export interface TimelineEntry {
+  step: number
+  timestamp: number
+  description: string
+  expected: string
+  outcome: string
+  passed: boolean
+}
+
+export interface SimulationSummary {
+  presale: string
+  registrations: bigint
+  maxRegistrations: bigint
+  balance: bigint
+  withdrawn: bigint
+  paused: boolean
+  whitelist: boolean
+  endTime: number
+}
+
+export interface SimulationResult {
+  name: string
+  startTime: number
+  timeline: TimelineEntry[]
+  summary: SimulationSummary
+  failures: TimelineEntry[]
+}
+
+const ACTIONS: ScenarioAction[] = [
+  'register',
+  'pause',
+  'unpause',
+  'settings',
+  'whitelist:on',
+  'whitelist:off',
+  'whitelist:add',
+  'whitelist:remove',
+  'withdraw',
+  'check'
+]
+const WALLET_ACTIONS: ScenarioAction[] = ['register', 'whitelist:add', 'whitelist:remove']
+const WHITELIST_BATCH_SIZE = 200
+const SUCCESS = 'success'
+
+/**
+ * Load scenario from YAML or JSON file and validate it.
+ * @param file Path to scenario.
+ */
+export function loadScenario(file: string): Scenario {
+  const content = fs.readFileSync(file, 'utf8')
+  const scenario = path.extname(file) === '.json' ? JSON.parse(content) : parseYaml(content)
+  validateScenario(scenario)
+  return { name: path.basename(file), ...scenario }
+}
+
+/**
+ * Validate shape of scenario, so that a typo fails before the first step runs.
+ * @param scenario Parsed scenario.
+ */
+export function validateScenario(scenario: Scenario): void {
+  if (!scenario?.presale) {
+    throw new Error('Invalid scenario: presale is missing')
+  }
+  if (!Array.isArray(scenario.steps) || scenario.steps.length === 0) {
+    throw new Error('Invalid scenario: steps are missing')
+  }
+  const count = scenario.wallets?.count ?? 0
+  if (!Number.isInteger(count) || count < 0 || (scenario.wallets?.whitelisted ?? 0) > count) {
+    throw new Error(`Invalid wallets: ${count} wallets, ${scenario.wallets?.whitelisted} whitelisted`)
+  }
+  scenario.steps.forEach((step, index) => {
+    if (!ACTIONS.includes(step.action)) {
+      throw new Error(`Invalid step ${index + 1}: unknown action ${step.action}, expected one of ${ACTIONS.join(', ')}`)
+    }
+    if (WALLET_ACTIONS.includes(step.action)) {
+      if (step.wallets === undefined) {
+        throw new Error(`Invalid step ${index + 1}: ${step.action} requires wallets`)
+      }
+      parseWallets(step.wallets, count)
+    }
+  })
+}
+
+/**
+ * Parse wallets of step to indexes.
+ * @param value Index, list of indexes or range like `0-9`.
+ * @param count Number of wallets of scenario.
+ */
+export function parseWallets(value: number | number[] | string, count: number): number[] {
+  let indexes: number[]
+  if (typeof value === 'string') {
+    const range = value.trim().match(/^(\d+)-(\d+)$/)
+    if (!range) {
+      throw new Error(`Invalid wallets: ${value}, expected index, list of indexes or range like 0-9`)
+    }
+    const [from, to] = [Number(range[1]), Number(range[2])]
+    indexes = Array.from({ length: Math.max(to - from + 1, 0) }, (_, offset) => from + offset)
+  } else {
+    indexes = Array.isArray(value) ? value : [value]
+  }
+  for (const index of indexes) {
+    if (!Number.isInteger(index) || index < 0 || index >= count) {
+      throw new Error(`Invalid wallet ${index}, scenario has ${count} wallets`)
+    }
+  }
+  return indexes
+}
+
+/**
+ * Deterministic address of wallet of scenario, so that every run registers the same addresses.
+ * @param index Index of wallet.
+ */
+export function walletAddress(index: number): string {
+  return getAddress(dataSlice(id(`wallet-${index}`), 12))
+}
+
+/**
+ * Format time of step relative to start of scenario, e.g. `+1d 02:30:00`.
+ * @param seconds Seconds since start.
+ */
+export function formatOffset(seconds: number): string {
+  const sign = seconds < 0 ? '-' : '+'
+  const total = Math.abs(seconds)
+  const days = Math.floor(total / 86400)
+  const time = [Math.floor((total % 86400) / 3600), Math.floor((total % 3600) / 60), total % 60]
+    .map((part) => String(part).padStart(2, '0'))
+    .join(':')
+  return `${sign}${days}d ${time}`
+}
+
+/**
+ * Run scenario against in-process Hardhat network, the state of network is reverted afterwards.
+ * Outcomes which differ from expectations are recorded as failures, the run continues with the next step.
+ * @param hre Hardhat runtime environment connected to Hardhat network.
+ * @param scenario Validated scenario.
+ */
+export async function runScenario(hre: HardhatRuntimeEnvironment, scenario: Scenario): Promise<SimulationResult> {
+  const { ethers, network } = hre
+  if (network.name !== 'hardhat') {
+    throw new Error(`Scenario runs on in-process Hardhat network, not on ${network.name}`)
+  }
+  const snapshotId = await network.provider.send('evm_snapshot')
+  try {
+    const latest = Number((await ethers.provider.getBlock('latest'))?.timestamp)
+    const startTime = scenario.time === undefined ? latest + 1 : parsePresaleDate(scenario.time, latest)
+    await moveTo(hre, startTime)
+
+    const [owner] = await ethers.getSigners()
+    const args = resolvePresaleArgs(scenario.presale, startTime)
+    const presale = (await ethers.deployContract('Presale', args, owner)) as unknown as Presale
+    await presale.waitForDeployment()
+
+    const count = scenario.wallets?.count ?? 0
+    const balance = parseEther(String(scenario.wallets?.balance ?? '10'))
+    const wallets: Signer[] = []
+    for (let index = 0; index < count; index++) {
+      const address = walletAddress(index)
+      await network.provider.send('hardhat_setBalance', [address, `0x${balance.toString(16)}`])
+      wallets.push(await ethers.getImpersonatedSigner(address))
+    }
+    const whitelisted = Array.from({ length: scenario.wallets?.whitelisted ?? 0 }, (_, index) => walletAddress(index))
+    for (let offset = 0; offset < whitelisted.length; offset += WHITELIST_BATCH_SIZE) {
+      await (await presale.addBatchToWhitelist(whitelisted.slice(offset, offset + WHITELIST_BATCH_SIZE))).wait()
+    }
+
+    const timeline: TimelineEntry[] = []
+    let withdrawn = 0n
+    for (const [index, step] of scenario.steps.entries()) {
+      if (step.at !== undefined) {
+        await moveTo(hre, parsePresaleDate(step.at, startTime))
+        if (step.action === 'check') {
+          await network.provider.send('hardhat_mine', ['0x1'])
+        }
+      }
+      const record = async (description: string, send: () => Promise<ContractTransactionResponse>) => {
+        const timestamp = await pendingTimestamp(hre)
+        const outcome = await attempt(presale, send)
+        const expected = step.expect ?? SUCCESS
+        timeline.push({
+          step: index + 1,
+          timestamp,
+          description: step.note ? `${description} (${step.note})` : description,
+          expected,
+          outcome,
+          passed: outcome === expected
+        })
+      }
+      const sender = step.from === undefined || step.from === 'owner' ? owner : wallets[step.from]
+      const asSender = presale.connect(sender)
+      const walletIndexes = step.wallets === undefined ? [] : parseWallets(step.wallets, count)
+
+      if (step.action === 'register') {
+        for (const walletIndex of walletIndexes) {
+          const fee =
+            step.fee === undefined
+              ? (await presale.getCurrentPhase({ blockTag: 'pending' })).registrationFee
+              : parseEther(String(step.fee))
+          await record(`register wallet ${walletIndex} with ${formatEth(fee)}`, () =>
+            presale.connect(wallets[walletIndex]).register({ value: fee })
+          )
+        }
+      } else if (step.action === 'whitelist:add' || step.action === 'whitelist:remove') {
+        const addresses = walletIndexes.map(walletAddress)
+        const description = `${step.action} wallets ${walletIndexes.join(', ')}`
+        await record(description, () =>
+          step.action === 'whitelist:add'
+            ? asSender.addBatchToWhitelist(addresses)
+            : asSender.removeBatchFromWhiteList(addresses)
+        )
+      } else if (step.action === 'settings') {
+        const [startDate, endDate, maxRegistrations, registrationFee] = await presale.getSettings()
+        const next = [
+          step.start === undefined ? startDate : BigInt(parsePresaleDate(step.start, startTime)),
+          step.end === undefined ? endDate : BigInt(parsePresaleDate(step.end, startTime)),
+          step.max === undefined ? maxRegistrations : BigInt(step.max),
+          step.fee === undefined ? registrationFee : parseEther(String(step.fee))
+        ] as const
+        const description = `settings ${formatDate(next[0])} - ${formatDate(next[1])}, max ${next[2]}, fee ${formatEth(next[3])}`
+        await record(description, () => asSender.setSettings(...next))
+      } else if (step.action === 'withdraw') {
+        const amount =
+          step.amount === undefined || step.amount === 'all'
+            ? await presale.availableBalance(ZeroAddress)
+            : parseEther(String(step.amount))
+        const before = await ethers.provider.getBalance(presale.target)
+        await record(`withdraw ${formatEth(amount)}`, () => asSender.withdrawFunds(amount))
+        withdrawn += before - (await ethers.provider.getBalance(presale.target))
+      } else if (step.action === 'check') {
+        timeline.push(...(await check(hre, presale, step, index + 1)))
+      } else {
+        const actions = {
+          pause: () => asSender.pause(),
+          unpause: () => asSender.unpause(),
+          'whitelist:on': () => asSender.turnOnWhitelist(),
+          'whitelist:off': () => asSender.turnOffWhitelist()
+        }
+        await record(step.action, actions[step.action])
+      }
+    }
+
+    const [, , maxRegistrations] = await presale.getSettings()
+    const summary: SimulationSummary = {
+      presale: await presale.getAddress(),
+      registrations: await presale.getRegistrationCount(),
+      maxRegistrations,
+      balance: await ethers.provider.getBalance(presale.target),
+      withdrawn,
+      paused: await presale.paused(),
+      whitelist: await presale.whitelistStatus(),
+      endTime: Number((await ethers.provider.getBlock('latest'))?.timestamp)
+    }
+    return {
+      name: scenario.name ?? 'scenario',
+      startTime,
+      timeline,
+      summary,
+      failures: timeline.filter((entry) => !entry.passed)
+    }
+  } finally {
+    await network.provider.send('evm_revert', [snapshotId])
+  }
+}
+
+/**
+ * Format timeline and final state of simulation.
+ * @param result Result of simulation.
+ */
+export function formatSimulation(result: SimulationResult): string {
+  const { summary } = result
+  const lines = [`Scenario: ${result.name}`, `Start: ${formatDate(result.startTime)}`, '']
+  for (const entry of result.timeline) {
+    const mark = entry.passed ? 'ok  ' : 'FAIL'
+    const outcome = entry.passed ? entry.outcome : `expected ${entry.expected}, got ${entry.outcome}`
+    lines.push(
+      `${mark} [${formatOffset(entry.timestamp - result.startTime)}] #${entry.step} ${entry.description}: ${outcome}`
+    )
+  }
+  lines.push(
+    '',
+    `Presale: ${summary.presale}`,
+    `Registrations: ${summary.registrations} of ${summary.maxRegistrations}`,
+    `Balance: ${formatEth(summary.balance)}`,
+    `Withdrawn: ${formatEth(summary.withdrawn)}`,
+    `Paused: ${summary.paused}`,
+    `Whitelist: ${summary.whitelist ? 'on' : 'off'}`,
+    `End: ${formatDate(summary.endTime)}`,
+    `Steps: ${result.timeline.length - result.failures.length} of ${result.timeline.length} as expected`
+  )
+  return lines.join('\n')
+}
+
+/** Mine a block right before timestamp, so that the next transaction and its estimate run at it. */
+async function moveTo(hre: HardhatRuntimeEnvironment, timestamp: number): Promise<void> {
+  const latest = Number((await hre.ethers.provider.getBlock('latest'))?.timestamp)
+  if (timestamp <= latest) {
+    throw new Error(`Time ${formatDate(timestamp)} of scenario is not after current time ${formatDate(latest)}`)
+  }
+  if (timestamp - 1 > latest) {
+    await hre.network.provider.send('evm_setNextBlockTimestamp', [timestamp - 1])
+    await hre.network.provider.send('hardhat_mine', ['0x1'])
+  }
+  await hre.network.provider.send('evm_setNextBlockTimestamp', [timestamp])
+}
+
+async function pendingTimestamp(hre: HardhatRuntimeEnvironment): Promise<number> {
+  const block = await hre.network.provider.send('eth_getBlockByNumber', ['pending', false])
+  return Number(block.timestamp)
+}
+
+/**
+ * Send transaction and describe its outcome.
+ * @return `success`, name of custom error of Presale or message of other error.
+ */
+async function attempt(presale: Presale, send: () => Promise<ContractTransactionResponse>): Promise<string> {
+  try {
+    await (await send()).wait()
+    return SUCCESS
+  } catch (error) {
+    return decodeError(error, presale.interface)?.name ?? `error: ${(error as Error).message}`
+  }
+}
+
+async function check(
+  hre: HardhatRuntimeEnvironment,
+  presale: Presale,
+  step: ScenarioStep,
+  stepNumber: number
+): Promise<TimelineEntry[]> {
+  const timestamp = Number((await hre.ethers.provider.getBlock('latest'))?.timestamp)
+  const entries: TimelineEntry[] = []
+  const compare = (name: string, expected: string, actual: string) =>
+    entries.push({
+      step: stepNumber,
+      timestamp,
+      description: `check ${name}`,
+      expected,
+      outcome: actual,
+      passed: expected === actual
+    })
+  if (step.registrations !== undefined) {
+    compare('registrations', String(step.registrations), String(await presale.getRegistrationCount()))
+  }
+  if (step.balance !== undefined) {
+    compare(
+      'balance',
+      formatEth(parseEther(String(step.balance))),
+      formatEth(await hre.ethers.provider.getBalance(presale.target))
+    )
+  }
+  if (step.paused !== undefined) {
+    compare('paused', String(step.paused), String(await presale.paused()))
+  }
+  return entries
+}
@@ -0,0 +1,115 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+
+/** State variable or struct member in storage layout emitted by solc. */
+export interface StorageItem {
+  contract?: string
+  label: string
+  offset: number
+  slot: string
+  /** Identifier of type in `types` of layout. */
+  type: string
+}
+
+export interface StorageType {
+  encoding: 'inplace' | 'mapping' | 'dynamic_array' | 'bytes'
+  label: string
+  numberOfBytes: string
+  key?: string
+  value?: string
+  base?: string
+  members?: StorageItem[]
+}
+
+/** Storage layout of contract as emitted by solc with `storageLayout` output selection. */
+export interface StorageLayout {
+  storage: StorageItem[]
+  types: Record<string, StorageType> | null
+}
+
+/**
+ * Read storage layout of compiled contract from build info of artifacts.
+ * @param hre Hardhat runtime environment.
+ * @param name Name of contract, e.g. `Presale`.
+ */
+export async function getStorageLayout(hre: HardhatRuntimeEnvironment, name: string): Promise<StorageLayout> {
+  const { sourceName, contractName } = await hre.artifacts.readArtifact(name)
+  const buildInfo = await hre.artifacts.getBuildInfo(`${sourceName}:${contractName}`)
+  const output = buildInfo?.output.contracts[sourceName]?.[contractName] as { storageLayout?: StorageLayout }
+  if (!output?.storageLayout) {
+    throw new Error(`Storage layout of ${name} is not found, compile with storageLayout output selection`)
+  }
+  return output.storageLayout
+}
+
+function compareTypes(
+  previous: StorageLayout,
+  next: StorageLayout,
+  previousId: string,
+  nextId: string,
+  path: string,
+  isMappingValue: boolean
+): string[] {
+  const previousType = previous.types?.[previousId]
+  const nextType = next.types?.[nextId]
+  if (!previousType || !nextType) {
+    return [`${path}: type ${previousId} is not described in layout`]
+  }
+  if (previousType.label !== nextType.label || previousType.encoding !== nextType.encoding) {
+    return [`${path}: type changed from ${previousType.label} to ${nextType.label}`]
+  }
+  // Structs stored as mapping values may grow, anywhere else growth shifts the next slots
+  if (!isMappingValue && previousType.numberOfBytes !== nextType.numberOfBytes) {
+    return [
+      `${path}: size of ${previousType.label} changed from ${previousType.numberOfBytes} to ${nextType.numberOfBytes}`
+    ]
+  }
+  const problems: string[] = []
+  if (previousType.key && nextType.key) {
+    problems.push(...compareTypes(previous, next, previousType.key, nextType.key, `${path} key`, false))
+  }
+  if (previousType.value && nextType.value) {
+    problems.push(...compareTypes(previous, next, previousType.value, nextType.value, `${path} value`, true))
+  }
+  if (previousType.base && nextType.base) {
+    problems.push(...compareTypes(previous, next, previousType.base, nextType.base, `${path} element`, false))
+  }
+  if (previousType.members) {
+    problems.push(...compareItems(previous, next, previousType.members, nextType.members ?? [], `${path}.`))
+  }
+  return problems
+}
+
+function compareItems(
+  previous: StorageLayout,
+  next: StorageLayout,
+  previousItems: StorageItem[],
+  nextItems: StorageItem[],
+  prefix: string
+): string[] {
+  return previousItems.flatMap((item, index) => {
+    const path = `${prefix}${item.label}`
+    const nextItem = nextItems[index]
+    if (!nextItem) {
+      return [`${path}: removed from slot ${item.slot}`]
+    }
+    if (nextItem.label !== item.label) {
+      return [`${path}: replaced by ${nextItem.label} in slot ${item.slot}`]
+    }
+    if (nextItem.slot !== item.slot || nextItem.offset !== item.offset) {
+      return [`${path}: moved from slot ${item.slot}:${item.offset} to ${nextItem.slot}:${nextItem.offset}`]
+    }
+    return compareTypes(previous, next, item.type, nextItem.type, path, false)
+  })
+}
+
+/**
+ * Check that next implementation keeps storage of previous one: every variable stays in its slot and offset with the
+ * same type, new variables are only appended. Struct members are compared the same way, structs stored as values of
+ * mappings may get new members at the end.
+ * @param previous Layout of implementation behind proxy.
+ * @param next Layout of new implementation.
+ * @returns Problems of upgrade, empty when layouts are compatible.
+ */
+export function compareStorageLayouts(previous: StorageLayout, next: StorageLayout): string[] {
+  return compareItems(previous, next, previous.storage, next.storage, '')
+}
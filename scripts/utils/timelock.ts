@@ -0,0 +1,151 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { Interface, ZeroHash } from 'ethers'
+import type { PresaleTimelock } from '../../typechain-types'
+import { ContractDeployment, DEPLOYMENTS_DIR, readManifest, writeManifest } from './deployment'
+
+export type OperationState = 'waiting' | 'ready' | 'done' | 'cancelled'
+
+export interface OperationCall {
+  target: string
+  value: bigint
+  data: string
+}
+
+export interface TimelockOperation {
+  id: string
+  /** One call for `schedule`, calls in order for `scheduleBatch`. */
+  calls: OperationCall[]
+  predecessor: string
+  salt: string
+  delay: bigint
+  /** Unix timestamp in seconds since which operation can be executed, zero when it is cancelled. */
+  eta: bigint
+  state: OperationState
+  approvalCount: bigint
+  blockNumber: number
+}
+
+export interface DeployTimelockOptions {
+  /** Minimum delay of operations in seconds. */
+  minDelay: number
+  proposers: string[]
+  /** Accounts allowed to execute operations, zero address allows anyone. */
+  executors: string[]
+  approvalThreshold: number
+  confirmations?: number
+  deploymentsDir?: string
+}
+
+/** Values of `OperationState` enum of TimelockController by index. */
+const STATES: OperationState[] = ['cancelled', 'waiting', 'ready', 'done']
+
+/**
+ * Rebuild operations of timelock from its events with their current state.
+ * An operation cancelled and scheduled again keeps its latest scheduling.
+ * @param timelock PresaleTimelock contract.
+ * @param fromBlock First block to read events from.
+ */
+export async function listOperations(timelock: PresaleTimelock, fromBlock = 0): Promise<TimelockOperation[]> {
+  const [scheduled, salts] = await Promise.all([
+    timelock.queryFilter(timelock.filters.CallScheduled(), fromBlock),
+    timelock.queryFilter(timelock.filters.CallSalt(), fromBlock)
+  ])
+  const operations = new Map<string, TimelockOperation>()
+  for (const event of scheduled) {
+    const { id, index, target, value, data, predecessor, delay } = event.args
+    if (index === 0n) {
+      operations.delete(id)
+      operations.set(id, {
+        id,
+        calls: [],
+        predecessor,
+        salt: ZeroHash,
+        delay,
+        eta: 0n,
+        state: 'cancelled',
+        approvalCount: 0n,
+        blockNumber: event.blockNumber
+      })
+    }
+    operations.get(id)?.calls.push({ target, value, data })
+  }
+  for (const event of salts) {
+    const operation = operations.get(event.args.id)
+    if (operation) {
+      operation.salt = event.args.salt
+    }
+  }
+  for (const operation of operations.values()) {
+    const [state, eta, approvalCount] = await Promise.all([
+      timelock.getOperationState(operation.id),
+      timelock.getTimestamp(operation.id),
+      timelock.getApprovalCount(operation.id)
+    ])
+    operation.state = STATES[Number(state)]
+    operation.eta = operation.state === 'done' ? 0n : eta
+    operation.approvalCount = approvalCount
+  }
+  return [...operations.values()]
+}
+
+/**
+ * Describe call as function with arguments when one of interfaces knows it.
+ * @param call Call of operation.
+ * @param interfaces Interfaces of contracts called by timelock.
+ */
+export function describeCall(call: OperationCall, interfaces: Interface[]): string {
+  for (const contractInterface of interfaces) {
+    try {
+      const parsed = contractInterface.parseTransaction({ data: call.data, value: call.value })
+      if (parsed) {
+        return `${parsed.name}(${parsed.args.map((arg) => String(arg)).join(', ')})`
+      }
+    } catch {
+      // Data belongs to another interface.
+    }
+  }
+  return call.data === '0x' ? 'transfer' : call.data
+}
+
+/**
+ * Deploy PresaleTimelock and record it in `deployments/<network>.json` next to Presale.
+ * @param hre Hardhat runtime environment.
+ * @param options Roles, delay and threshold of timelock.
+ */
+export async function deployTimelock(
+  hre: HardhatRuntimeEnvironment,
+  options: DeployTimelockOptions
+): Promise<{ timelock: PresaleTimelock; deployment: ContractDeployment }> {
+  const { minDelay, proposers, executors, approvalThreshold, deploymentsDir = DEPLOYMENTS_DIR } = options
+  const network = hre.network.name
+  const chainId = Number((await hre.ethers.provider.getNetwork()).chainId)
+  const manifest = readManifest(network, deploymentsDir) ?? { network, chainId, contracts: {} }
+  if (manifest.chainId !== chainId) {
+    throw new Error(`Manifest of network "${network}" is for chainId ${manifest.chainId}, connected to ${chainId}`)
+  }
+
+  const [deployer] = await hre.ethers.getSigners()
+  const TimelockFactory = await hre.ethers.getContractFactory('PresaleTimelock', deployer)
+  const timelock = (await TimelockFactory.deploy(
+    minDelay,
+    proposers,
+    executors,
+    approvalThreshold
+  )) as unknown as PresaleTimelock
+  const receipt = await timelock.deploymentTransaction()?.wait(options.confirmations ?? 1)
+  if (!receipt) {
+    throw new Error('Deployment transaction of PresaleTimelock is not mined')
+  }
+
+  const deployment: ContractDeployment = {
+    address: await timelock.getAddress(),
+    transactionHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    deployer: deployer.address,
+    args: [minDelay.toString(), proposers, executors, approvalThreshold.toString()],
+    deployedAt: new Date().toISOString()
+  }
+  manifest.contracts.PresaleTimelock = deployment
+  writeManifest(manifest, deploymentsDir)
+  return { timelock, deployment }
+}
@@ -0,0 +1,250 @@
+import fs from 'fs'
+import { getAddress } from 'ethers'
+import type { Presale } from '../../typechain-types'
+
+export type WhitelistAction = 'add' | 'remove'
+
+export interface InvalidRow {
+  line: number
+  value: string
+  reason: string
+}
+
+export interface AddressList {
+  addresses: string[]
+  invalid: InvalidRow[]
+  duplicates: number
+}
+
+export interface JournalBatch {
+  addresses: string[]
+  transactionHash: string
+  status: 'pending' | 'confirmed'
+}
+
+export interface WhitelistJournal {
+  presale: string
+  action: WhitelistAction
+  batches: JournalBatch[]
+}
+
+export interface GasEstimate {
+  base: bigint
+  perAddress: bigint
+}
+
+export interface WhitelistBatchesOptions {
+  action: WhitelistAction
+  addresses: string[]
+  journalPath: string
+  /** Gas limit of one batch transaction. */
+  maxGas: bigint
+  /** Upper bound of addresses in one batch. */
+  maxBatchSize?: number
+  dryRun?: boolean
+  log?: (message: string) => void
+}
+
+export interface WhitelistBatchesResult {
+  /** Addresses skipped because whitelist already has the requested status. */
+  skipped: number
+  /** Addresses sent in batches of this run. */
+  sent: number
+  batches: number
+}
+
+const CELL_SEPARATOR = /[,;\t]/
+const STATUS_CHECK_CONCURRENCY = 100
+
+/**
+ * Parse CSV or newline separated list of addresses, the address is taken from the first column.
+ * Header row, empty lines and lines starting with `#` are skipped.
+ * @param content Content of file.
+ */
+export function parseAddressList(content: string): AddressList {
+  const seen = new Set<string>()
+  const result: AddressList = { addresses: [], invalid: [], duplicates: 0 }
+  let isFirstRow = true
+  content.split(/\r?\n/).forEach((row, index) => {
+    const trimmed = row.trim()
+    if (!trimmed || trimmed.startsWith('#')) {
+      return
+    }
+    const value = trimmed
+      .split(CELL_SEPARATOR)[0]
+      .trim()
+      .replace(/^"(.*)"$/, '$1')
+    const isHeader = isFirstRow && !/^0x/i.test(value)
+    isFirstRow = false
+    if (isHeader) {
+      return
+    }
+    let address: string
+    try {
+      address = getAddress(value)
+    } catch {
+      const reason = /^0x[0-9a-fA-F]{40}$/.test(value) ? 'bad checksum' : 'invalid address'
+      result.invalid.push({ line: index + 1, value, reason })
+      return
+    }
+    if (seen.has(address)) {
+      result.duplicates++
+      return
+    }
+    seen.add(address)
+    result.addresses.push(address)
+  })
+  return result
+}
+
+export function readJournal(journalPath: string): WhitelistJournal | undefined {
+  if (!fs.existsSync(journalPath)) {
+    return undefined
+  }
+  return JSON.parse(fs.readFileSync(journalPath, 'utf8'))
+}
+
+export function writeJournal(journalPath: string, journal: WhitelistJournal): void {
+  fs.writeFileSync(journalPath, JSON.stringify(journal, null, 2) + '\n')
+}
+
+/**
+ * Keep addresses whose whitelist status still has to be changed by action.
+ * @param presale Presale contract.
+ * @param action Adding or removing addresses.
+ * @param addresses Addresses to check.
+ */
+export async function filterPendingAddresses(
+  presale: Presale,
+  action: WhitelistAction,
+  addresses: string[]
+): Promise<string[]> {
+  const pending: string[] = []
+  for (let i = 0; i < addresses.length; i += STATUS_CHECK_CONCURRENCY) {
+    const chunk = addresses.slice(i, i + STATUS_CHECK_CONCURRENCY)
+    const statuses = await Promise.all(chunk.map((address) => presale.isAddressWhitelisted(address)))
+    chunk.forEach((address, index) => {
+      if (statuses[index] !== (action === 'add')) {
+        pending.push(address)
+      }
+    })
+  }
+  return pending
+}
+
+function batchMethod(presale: Presale, action: WhitelistAction) {
+  return action === 'add' ? presale.addBatchToWhitelist : presale.removeBatchFromWhiteList
+}
+
+/**
+ * Estimate gas of batch transaction as fixed base cost plus cost of every address.
+ * @param presale Presale contract.
+ * @param action Adding or removing addresses.
+ * @param sample Addresses pending in whitelist, at least one.
+ */
+export async function estimateBatchGas(
+  presale: Presale,
+  action: WhitelistAction,
+  sample: string[]
+): Promise<GasEstimate> {
+  const method = batchMethod(presale, action)
+  const single = await method.estimateGas(sample.slice(0, 1))
+  if (sample.length < 2) {
+    return { base: 0n, perAddress: single }
+  }
+  const multiple = await method.estimateGas(sample)
+  const perAddress = (multiple - single) / BigInt(sample.length - 1)
+  return { base: single - perAddress, perAddress }
+}
+
+/**
+ * Number of addresses which fit into gas limit of one transaction.
+ * @param estimate Gas estimate of batch.
+ * @param maxGas Gas limit of one transaction.
+ * @param maxBatchSize Upper bound of addresses in one batch.
+ */
+export function batchSizeForGas(estimate: GasEstimate, maxGas: bigint, maxBatchSize?: number): number {
+  const size = estimate.perAddress > 0n ? Number((maxGas - estimate.base) / estimate.perAddress) : Infinity
+  if (size < 1) {
+    throw new Error(`Gas limit ${maxGas} is too low for one address, estimated ${estimate.base + estimate.perAddress}`)
+  }
+  return Math.min(size, maxBatchSize ?? Infinity)
+}
+
+async function settlePendingBatches(
+  presale: Presale,
+  journal: WhitelistJournal,
+  journalPath: string,
+  log: (message: string) => void
+): Promise<void> {
+  const provider = presale.runner?.provider
+  if (!provider) {
+    throw new Error('Presale is not connected to provider')
+  }
+  for (const batch of journal.batches.filter((batch) => batch.status === 'pending')) {
+    log(`Waiting for batch from previous run: ${batch.transactionHash}`)
+    const transaction = await provider.getTransaction(batch.transactionHash)
+    const receipt = transaction ? await transaction.wait().catch(() => null) : null
+    if (receipt?.status === 1) {
+      batch.status = 'confirmed'
+    } else {
+      log(`Batch ${batch.transactionHash} is dropped or reverted, its addresses will be sent again`)
+      journal.batches.splice(journal.batches.indexOf(batch), 1)
+    }
+    writeJournal(journalPath, journal)
+  }
+}
+
+/**
+ * Add or remove addresses in whitelist with batches sized by gas estimate.
+ * Every sent batch is recorded in journal, so interrupted run resumes without resending confirmed batches.
+ * @param presale Presale contract connected to owner.
+ * @param options Addresses, journal and limits.
+ */
+export async function runWhitelistBatches(
+  presale: Presale,
+  options: WhitelistBatchesOptions
+): Promise<WhitelistBatchesResult> {
+  const { action, journalPath, maxGas, maxBatchSize, dryRun = false, log = () => undefined } = options
+  const presaleAddress = await presale.getAddress()
+  const journal = readJournal(journalPath) ?? { presale: presaleAddress, action, batches: [] }
+  if (journal.presale !== presaleAddress || journal.action !== action) {
+    throw new Error(`Journal ${journalPath} belongs to "${journal.action}" on ${journal.presale}`)
+  }
+  if (!dryRun) {
+    await settlePendingBatches(presale, journal, journalPath, log)
+  }
+
+  const confirmed = new Set(journal.batches.flatMap((batch) => batch.addresses))
+  const unsent = options.addresses.filter((address) => !confirmed.has(address))
+  const pending = await filterPendingAddresses(presale, action, unsent)
+  const result: WhitelistBatchesResult = { skipped: options.addresses.length - pending.length, sent: 0, batches: 0 }
+  if (pending.length === 0) {
+    return result
+  }
+
+  const estimate = await estimateBatchGas(presale, action, pending.slice(0, 10))
+  const batchSize = batchSizeForGas(estimate, maxGas, maxBatchSize)
+  log(`Estimated gas: ${estimate.base} per batch and ${estimate.perAddress} per address, batch size ${batchSize}`)
+  if (dryRun) {
+    result.batches = Math.ceil(pending.length / batchSize)
+    return result
+  }
+
+  const method = batchMethod(presale, action)
+  for (let i = 0; i < pending.length; i += batchSize) {
+    const addresses = pending.slice(i, i + batchSize)
+    const tx = await method(addresses)
+    const batch: JournalBatch = { addresses, transactionHash: tx.hash, status: 'pending' }
+    journal.batches.push(batch)
+    writeJournal(journalPath, journal)
+    log(`Sent batch ${result.batches + 1} of ${addresses.length} address(es): ${tx.hash}`)
+
+    await tx.wait()
+    batch.status = 'confirmed'
+    writeJournal(journalPath, journal)
+    result.sent += addresses.length
+    result.batches++
+  }
+  return result
+}
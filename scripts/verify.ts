@@ -0,0 +1,21 @@
+import hre from 'hardhat'
+import { manifestPath, readManifest, verifyDeployment, writeManifest } from './utils/deployment'
+
+async function main() {
+  const manifest = readManifest(hre.network.name)
+  const deployment = manifest?.contracts.Presale
+  if (!manifest || !deployment) {
+    throw new Error(`Presale is not found in ${manifestPath(hre.network.name)}`)
+  }
+
+  console.log('Verifying contract address: ', deployment.address)
+
+  await verifyDeployment(hre, deployment)
+  deployment.verified = true
+  writeManifest(manifest)
+}
+
+main().catch((error) => {
+  console.log(error)
+  process.exit(1)
+})
@@ -0,0 +1,415 @@
+import {
+  BaseContract,
+  ContractEventPayload,
+  ContractRunner,
+  ContractTransactionResponse,
+  EventLog,
+  Provider,
+  Signature,
+  Signer,
+  TypedDataDomain,
+  ZeroAddress,
+  ZeroHash
+} from 'ethers'
+import { ERC20Permit__factory, Presale__factory } from '../../typechain-types'
+import type { Presale } from '../../typechain-types'
+import type {
+  AddedToWhitelistEvent,
+  ChangedFeeTokenEvent,
+  ChangedGuardianEvent,
+  ChangedMinRegistrationsEvent,
+  ChangedReferralRebateEvent,
+  ChangedPhaseCountEvent,
+  ChangedPhaseEvent,
+  ChangedSettingsEvent,
+  ChangedVoucherSignerEvent,
+  MerkleRootChangedEvent,
+  PausedEvent,
+  PresaleCancelledEvent,
+  ReferralRebateClaimedEvent,
+  ReferralRebateForfeitedEvent,
+  ReferredEvent,
+  RefundedEvent,
+  RegisteredEvent,
+  RemovedFromWhitelistEvent,
+  TokenWithdrawalEvent,
+  UnpausedEvent,
+  VoucherInvalidatedEvent,
+  VoucherUsedEvent,
+  WhitelistTurnedOffEvent,
+  WhitelistTurnedOnEvent,
+  WithdrawalEvent
+} from '../../typechain-types/contracts/Presale'
+import { PresaleClientError, PresaleError, decodePresaleError } from './errors'
+import { Voucher, getVoucherDomain, signVoucher } from './voucher'
+
+/** Reasons of `canRegister` in the order of checks of `register`. */
+export type RegistrationBlocker = Extract<
+  PresaleError,
+  {
+    name:
+      | 'UserAlreadyRegistered'
+      | 'PresaleIsNotActive'
+      | 'NoActivePhase'
+      | 'RegistrationLimitExceeded'
+      | 'EnforcedPause'
+      | 'PresaleIsCancelled'
+      | 'UserIsNotWhitelisted'
+  }
+>
+
+/** Result of `canRegister`, phase is numbered from one and zero when presale has no phases. */
+export type RegistrationCheck =
+  | { canRegister: true; registrationFee: bigint; tokenRegistrationFee: bigint; phase: number }
+  | { canRegister: false; reason: RegistrationBlocker }
+
+export interface PresaleSettings {
+  startDate: bigint
+  endDate: bigint
+  maxRegistrations: bigint
+  registrationFee: bigint
+}
+
+/** EIP-2612 permit of registration fee in token signed by user for Presale. */
+export interface PermitSignature {
+  deadline: bigint
+  v: number
+  r: string
+  s: string
+}
+
+/** Arguments of events of Presale by event name. */
+export interface PresaleEvents {
+  Registered: RegisteredEvent.OutputObject
+  ChangedSettings: ChangedSettingsEvent.OutputObject
+  Withdrawal: WithdrawalEvent.OutputObject
+  TokenWithdrawal: TokenWithdrawalEvent.OutputObject
+  ChangedFeeToken: ChangedFeeTokenEvent.OutputObject
+  ChangedMinRegistrations: ChangedMinRegistrationsEvent.OutputObject
+  ChangedPhase: ChangedPhaseEvent.OutputObject
+  ChangedPhaseCount: ChangedPhaseCountEvent.OutputObject
+  PresaleCancelled: PresaleCancelledEvent.OutputObject
+  Refunded: RefundedEvent.OutputObject
+  Paused: PausedEvent.OutputObject
+  Unpaused: UnpausedEvent.OutputObject
+  AddedToWhitelist: AddedToWhitelistEvent.OutputObject
+  RemovedFromWhitelist: RemovedFromWhitelistEvent.OutputObject
+  WhitelistTurnedOn: WhitelistTurnedOnEvent.OutputObject
+  WhitelistTurnedOff: WhitelistTurnedOffEvent.OutputObject
+  MerkleRootChanged: MerkleRootChangedEvent.OutputObject
+  ChangedGuardian: ChangedGuardianEvent.OutputObject
+  ChangedVoucherSigner: ChangedVoucherSignerEvent.OutputObject
+  VoucherUsed: VoucherUsedEvent.OutputObject
+  VoucherInvalidated: VoucherInvalidatedEvent.OutputObject
+  ChangedReferralRebate: ChangedReferralRebateEvent.OutputObject
+  Referred: ReferredEvent.OutputObject
+  ReferralRebateForfeited: ReferralRebateForfeitedEvent.OutputObject
+  ReferralRebateClaimed: ReferralRebateClaimedEvent.OutputObject
+}
+
+export type PresaleEventListener<E extends keyof PresaleEvents> = (args: PresaleEvents[E], log: EventLog) => void
+
+/**
+ * Client of Presale for frontends and services.
+ * It checks registration before sending it and turns reverts into `PresaleClientError` with structured custom error.
+ */
+export class PresaleClient {
+  readonly contract: Presale
+
+  constructor(address: string, runner: ContractRunner) {
+    this.contract = Presale__factory.connect(address, runner)
+  }
+
+  async getSettings(): Promise<PresaleSettings> {
+    const [startDate, endDate, maxRegistrations, registrationFee] = await this.contract.getSettings()
+    return { startDate, endDate, maxRegistrations, registrationFee }
+  }
+
+  /**
+   * Check that user can register now, with the same checks as `register` of contract except the fee.
+   * Phase is found by timestamp of the latest block, like `currentPhase` of contract.
+   * @param user Address of user.
+   * @param proof Merkle proof of user, needed when whitelist uses Merkle mode.
+   * @return Fee to pay or the first reason why contract would revert.
+   */
+  async canRegister(user: string, proof: string[] = []): Promise<RegistrationCheck> {
+    const provider = this.getProvider()
+    const [
+      settings,
+      phases,
+      tokenRegistrationFee,
+      registration,
+      registrationCount,
+      paused,
+      cancelled,
+      whitelistStatus,
+      whitelisted,
+      block
+    ] = await Promise.all([
+      this.getSettings(),
+      this.contract.getPhases(),
+      this.contract.tokenRegistrationFee(),
+      this.contract.checkRegistration(user),
+      this.contract.getRegistrationCount(),
+      this.contract.paused(),
+      this.contract.isCancelled(),
+      this.contract.whitelistStatus(),
+      this.contract.isAddressWhitelistedWithProof(user, proof),
+      provider.getBlock('latest')
+    ])
+    const { startDate, endDate, maxRegistrations } = settings
+    const timestamp = BigInt(block?.timestamp ?? Math.floor(Date.now() / 1000))
+    const phase = phases.findIndex((item) => timestamp >= item.startDate && timestamp <= item.endDate) + 1
+    const current = phase > 0 ? phases[phase - 1] : undefined
+
+    if (registration.isRegistered) {
+      return { canRegister: false, reason: { name: 'UserAlreadyRegistered', user, timestamp: registration.timestamp } }
+    }
+    if (timestamp < startDate || timestamp > endDate) {
+      return { canRegister: false, reason: { name: 'PresaleIsNotActive', startDate, endDate } }
+    }
+    if (phases.length > 0 && !current) {
+      return { canRegister: false, reason: { name: 'NoActivePhase' } }
+    }
+    if (registrationCount >= maxRegistrations) {
+      return { canRegister: false, reason: { name: 'RegistrationLimitExceeded', registrationCount, maxRegistrations } }
+    }
+    if (current) {
+      const phaseRegistrationCount = await this.contract.getPhaseRegistrationCount(phase)
+      if (phaseRegistrationCount >= current.maxRegistrations) {
+        return {
+          canRegister: false,
+          reason: {
+            name: 'RegistrationLimitExceeded',
+            registrationCount: phaseRegistrationCount,
+            maxRegistrations: current.maxRegistrations
+          }
+        }
+      }
+    }
+    if (paused) {
+      return { canRegister: false, reason: { name: 'EnforcedPause' } }
+    }
+    if (cancelled) {
+      return { canRegister: false, reason: { name: 'PresaleIsCancelled' } }
+    }
+    if ((whitelistStatus || current?.isWhitelistRequired) && !whitelisted) {
+      return { canRegister: false, reason: { name: 'UserIsNotWhitelisted', user } }
+    }
+    return {
+      canRegister: true,
+      registrationFee: current?.registrationFee ?? settings.registrationFee,
+      tokenRegistrationFee: current?.tokenRegistrationFee ?? tokenRegistrationFee,
+      phase
+    }
+  }
+
+  /**
+   * Register signer of client with exact registration fee, proof is sent only when whitelist uses Merkle mode.
+   * @param proof Merkle proof of signer.
+   * @param referrer Registered user who referred signer and accrues rebate of fee.
+   * @throws PresaleClientError when registration is not possible or contract reverts.
+   */
+  async register(proof: string[] = [], referrer?: string): Promise<ContractTransactionResponse> {
+    const check = await this.checkSigner(proof, referrer)
+    const overrides = { value: check.registrationFee }
+    try {
+      if (referrer) {
+        return await this.contract.registerWithReferrer(proof, referrer, overrides)
+      }
+      return (await this.contract.merkleRoot()) === ZeroHash
+        ? await this.contract.register(overrides)
+        : await this.contract.registerWithProof(proof, overrides)
+    } catch (error) {
+      throw this.toClientError(error)
+    }
+  }
+
+  /**
+   * Register signer of client with registration fee in token taken by `transferFrom`.
+   * @param proof Merkle proof of signer, ignored when whitelist uses mapping mode.
+   * @param permit EIP-2612 permit of fee, otherwise fee must be approved to Presale before.
+   * @param referrer Registered user who referred signer, fee must be approved because permit is not taken with it.
+   * @throws PresaleClientError when registration is not possible or contract reverts.
+   */
+  async registerWithToken(
+    proof: string[] = [],
+    permit?: PermitSignature,
+    referrer?: string
+  ): Promise<ContractTransactionResponse> {
+    if (permit && referrer) {
+      throw new Error('Registration with referrer takes approved fee, not permit')
+    }
+    await this.checkSigner(proof, referrer)
+    if ((await this.contract.feeToken()) === ZeroAddress) {
+      throw new PresaleClientError({ name: 'FeeTokenIsNotSet' })
+    }
+    try {
+      if (referrer) {
+        return await this.contract.registerWithTokenAndReferrer(proof, referrer)
+      }
+      return permit
+        ? await this.contract.registerWithPermit(proof, permit.deadline, permit.v, permit.r, permit.s)
+        : await this.contract.registerWithToken(proof)
+    } catch (error) {
+      throw this.toClientError(error)
+    }
+  }
+
+  /**
+   * Sign EIP-2612 permit of registration fee in token for Presale by signer of client.
+   * Domain is read by ERC-5267 `eip712Domain`, tokens without it are expected to use version 1.
+   * @param deadline Deadline of permit, unix timestamp in seconds.
+   */
+  async signPermit(deadline: bigint): Promise<PermitSignature> {
+    const signer = this.getSigner()
+    const [tokenAddress, value, { chainId }] = await Promise.all([
+      this.contract.feeToken(),
+      this.contract.getCurrentPhase().then((phase) => phase.tokenRegistrationFee),
+      this.getProvider().getNetwork()
+    ])
+    if (tokenAddress === ZeroAddress) {
+      throw new PresaleClientError({ name: 'FeeTokenIsNotSet' })
+    }
+    const token = ERC20Permit__factory.connect(tokenAddress, signer)
+    const owner = await signer.getAddress()
+    const domain: TypedDataDomain = await token.eip712Domain().then(
+      ({ name, version }) => ({ name, version, chainId, verifyingContract: tokenAddress }),
+      async () => ({ name: await token.name(), version: '1', chainId, verifyingContract: tokenAddress })
+    )
+    const types = {
+      Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' }
+      ]
+    }
+    const message = { owner, spender: this.contract.target, value, nonce: await token.nonces(owner), deadline }
+    const { v, r, s } = Signature.from(await signer.signTypedData(domain, types, message))
+    return { deadline, v, r, s }
+  }
+
+  /**
+   * Sign voucher of registration by signer of client, which must be owner or voucher signer of Presale.
+   * @param voucher Voucher of registration.
+   * @return EIP-712 signature.
+   */
+  async signVoucher(voucher: Voucher): Promise<string> {
+    return signVoucher(this.getSigner(), await getVoucherDomain(this.contract), voucher)
+  }
+
+  /**
+   * Register registrant of voucher, signer of client acts as relayer paying gas and fee of voucher.
+   * @param voucher Voucher of registration.
+   * @param signature EIP-712 signature of voucher.
+   * @throws PresaleClientError when contract reverts.
+   */
+  async registerWithSignature(voucher: Voucher, signature: string): Promise<ContractTransactionResponse> {
+    try {
+      return await this.contract.registerWithSignature(voucher, signature, { value: voucher.fee })
+    } catch (error) {
+      throw this.toClientError(error)
+    }
+  }
+
+  /**
+   * Get unclaimed rebate of referrer.
+   * @param referrer Address of referrer.
+   * @param asset Address of fee token or zero address for ETH.
+   */
+  async getReferralRebate(referrer: string, asset: string = ZeroAddress): Promise<bigint> {
+    return this.contract.getReferralRebate(referrer, asset)
+  }
+
+  /**
+   * Claim unclaimed rebate of signer of client, checked before sending.
+   * @param asset Address of fee token or zero address for ETH.
+   * @throws PresaleClientError when rebates are locked, nothing to claim or contract reverts.
+   */
+  async claimReferralRebate(asset: string = ZeroAddress): Promise<ContractTransactionResponse> {
+    const referrer = await this.getSigner().getAddress()
+    const [rebate, cancelled, registrationCount, minRegistrations] = await Promise.all([
+      this.contract.getReferralRebate(referrer, asset),
+      this.contract.isCancelled(),
+      this.contract.getRegistrationCount(),
+      this.contract.minRegistrations()
+    ])
+    if (cancelled || registrationCount < minRegistrations) {
+      throw new PresaleClientError({ name: 'ReferralRebatesLocked' })
+    }
+    if (rebate === 0n) {
+      throw new PresaleClientError({ name: 'NoReferralRebate', referrer, asset })
+    }
+    try {
+      return await this.contract.claimReferralRebate(asset)
+    } catch (error) {
+      throw this.toClientError(error)
+    }
+  }
+
+  /**
+   * Subscribe to event of Presale.
+   * @param name Name of event.
+   * @param listener Listener called with arguments of event by name.
+   * @return Function to unsubscribe.
+   */
+  async on<E extends keyof PresaleEvents>(name: E, listener: PresaleEventListener<E>): Promise<() => Promise<void>> {
+    const handler = (...args: unknown[]) => {
+      const payload = args[args.length - 1] as ContractEventPayload
+      listener(payload.args.toObject() as PresaleEvents[E], payload.log)
+    }
+    const contract: BaseContract = this.contract
+    await contract.on(name, handler)
+    return async () => {
+      await contract.off(name, handler)
+    }
+  }
+
+  /** Decode custom error of Presale from error thrown by ethers. */
+  decodeError(error: unknown): PresaleError | undefined {
+    return decodePresaleError(error, this.contract.interface)
+  }
+
+  private getSigner(): Signer {
+    const runner = this.contract.runner
+    if (!runner || !('getAddress' in runner) || typeof runner.getAddress !== 'function') {
+      throw new Error('Presale client is not connected to signer')
+    }
+    return runner as Signer
+  }
+
+  private getProvider(): Provider {
+    const provider = this.contract.runner?.provider
+    if (!provider) {
+      throw new Error('Presale client is not connected to provider')
+    }
+    return provider
+  }
+
+  private async checkSigner(
+    proof: string[],
+    referrer?: string
+  ): Promise<Extract<RegistrationCheck, { canRegister: true }>> {
+    const user = await this.getSigner().getAddress()
+    const check = await this.canRegister(user, proof)
+    if (!check.canRegister) {
+      throw new PresaleClientError(check.reason)
+    }
+    if (referrer) {
+      if (referrer.toLowerCase() === user.toLowerCase()) {
+        throw new PresaleClientError({ name: 'SelfReferral', user })
+      }
+      if (!(await this.contract.checkRegistration(referrer)).isRegistered) {
+        throw new PresaleClientError({ name: 'ReferrerIsNotRegistered', referrer })
+      }
+    }
+    return check
+  }
+
+  private toClientError(error: unknown): unknown {
+    const decoded = this.decodeError(error)
+    return decoded ? new PresaleClientError(decoded) : error
+  }
+}
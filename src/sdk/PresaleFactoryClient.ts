@@ -0,0 +1,142 @@
+import { ContractRunner } from 'ethers'
+import { PresaleFactory__factory } from '../../typechain-types'
+import type { PresaleFactory } from '../../typechain-types'
+import { PresaleClient, PresaleSettings } from './PresaleClient'
+import { PresaleClientError, PresaleError, decodePresaleError } from './errors'
+import { PRESALE_STATUSES, PresaleStatus } from './status'
+
+/** Parameters of presale, the same as constructor of Presale. */
+export interface CreatePresaleParams extends PresaleSettings {
+  whitelistStatus: boolean
+}
+
+/** Filter of presales in registry, both conditions must match when both are set. */
+export interface PresaleFilter {
+  owner?: string
+  status?: PresaleStatus
+}
+
+/** State of presale created by factory. */
+export interface PresaleSummary extends PresaleSettings {
+  address: string
+  owner: string
+  status: PresaleStatus
+  registrationCount: bigint
+  whitelistStatus: boolean
+  isCancelled: boolean
+}
+
+/**
+ * Client of PresaleFactory to create presales and look them up in its registry.
+ * Presales are returned as addresses or as `PresaleClient` connected with the same runner.
+ */
+export class PresaleFactoryClient {
+  readonly contract: PresaleFactory
+
+  constructor(address: string, runner: ContractRunner) {
+    this.contract = PresaleFactory__factory.connect(address, runner)
+  }
+
+  /** Client of presale connected with runner of factory client. */
+  presale(address: string): PresaleClient {
+    if (!this.contract.runner) {
+      throw new Error('Presale factory client is not connected to runner')
+    }
+    return new PresaleClient(address, this.contract.runner)
+  }
+
+  /**
+   * Create presale owned by signer of client and wait until it is mined.
+   * @param params Settings and initial whitelist status of presale.
+   * @return Client of created presale.
+   */
+  async createPresale(params: CreatePresaleParams): Promise<PresaleClient> {
+    const { startDate, endDate, maxRegistrations, registrationFee, whitelistStatus } = params
+    let receipt
+    try {
+      const tx = await this.contract.createPresale(
+        startDate,
+        endDate,
+        maxRegistrations,
+        registrationFee,
+        whitelistStatus
+      )
+      receipt = await tx.wait()
+    } catch (error) {
+      throw this.toClientError(error)
+    }
+    const created = receipt?.logs
+      .map((log) => this.contract.interface.parseLog(log))
+      .find((parsed) => parsed?.name === 'PresaleCreated')
+    if (!created) {
+      throw new Error('PresaleCreated event is not found in receipt')
+    }
+    return this.presale(created.args.presale)
+  }
+
+  /**
+   * List addresses of presales in order of creation.
+   * @param filter Current owner and status of presales, all presales by default.
+   */
+  async getPresales(filter: PresaleFilter = {}): Promise<string[]> {
+    const { owner, status } = filter
+    const [byOwner, byStatus] = await Promise.all([
+      owner ? this.contract.getPresalesByOwner(owner) : undefined,
+      status ? this.contract.getPresalesByStatus(PRESALE_STATUSES.indexOf(status)) : undefined
+    ])
+    if (byOwner && byStatus) {
+      return byOwner.filter((address) => byStatus.includes(address))
+    }
+    return byOwner ?? byStatus ?? this.contract.getPresales()
+  }
+
+  /**
+   * Read state of presale created by factory.
+   * @param address Address of presale.
+   * @throws PresaleClientError with `UnknownPresale` when presale is not created by factory.
+   */
+  async getPresale(address: string): Promise<PresaleSummary> {
+    let status: bigint
+    try {
+      status = await this.contract.getStatus(address)
+    } catch (error) {
+      throw this.toClientError(error)
+    }
+    const presale = this.presale(address)
+    const [settings, owner, registrationCount, whitelistStatus, isCancelled] = await Promise.all([
+      presale.getSettings(),
+      presale.contract.owner(),
+      presale.contract.getRegistrationCount(),
+      presale.contract.whitelistStatus(),
+      presale.contract.isCancelled()
+    ])
+    return {
+      address,
+      owner,
+      status: PRESALE_STATUSES[Number(status)],
+      ...settings,
+      registrationCount,
+      whitelistStatus,
+      isCancelled
+    }
+  }
+
+  /**
+   * Read state of every presale matching filter.
+   * @param filter Current owner and status of presales, all presales by default.
+   */
+  async listPresales(filter: PresaleFilter = {}): Promise<PresaleSummary[]> {
+    const addresses = await this.getPresales(filter)
+    return Promise.all(addresses.map((address) => this.getPresale(address)))
+  }
+
+  /** Decode custom error of PresaleFactory from error thrown by ethers. */
+  decodeError(error: unknown): PresaleError | undefined {
+    return decodePresaleError(error, this.contract.interface)
+  }
+
+  private toClientError(error: unknown): unknown {
+    const decoded = this.decodeError(error)
+    return decoded ? new PresaleClientError(decoded) : error
+  }
+}
@@ -0,0 +1,117 @@
+import { ErrorDescription, Interface } from 'ethers'
+
+/** Custom errors of Presale, PresaleFactory, inherited contracts and OpenZeppelin libraries with named arguments. */
+export type PresaleError =
+  | { name: 'PresaleIncorrectDates'; startDate: bigint; endDate: bigint }
+  | { name: 'UserAlreadyRegistered'; user: string; timestamp: bigint }
+  | { name: 'PresaleIsNotActive'; startDate: bigint; endDate: bigint }
+  | { name: 'RegistrationLimitExceeded'; registrationCount: bigint; maxRegistrations: bigint }
+  | { name: 'InvalidMaxRegistrationsUpdate'; newMaxRegistrations: bigint; registrationCount: bigint }
+  | { name: 'IncorrectRegistrationFee'; registrationFee: bigint }
+  | { name: 'NotEnoughFunds'; amount: bigint; balance: bigint }
+  | { name: 'PresaleIsCancelled' }
+  | { name: 'UserIsNotRegistered'; user: string }
+  | { name: 'UserAlreadyRefunded'; user: string }
+  | { name: 'EnforcedRefund' }
+  | { name: 'ExpectedRefund' }
+  | { name: 'NoActivePhase' }
+  | { name: 'InvalidPhase'; phase: bigint }
+  | { name: 'InvalidVoucherSigner'; signer: string }
+  | { name: 'VoucherExpired'; expiry: bigint }
+  | { name: 'VoucherNonceUsed'; registrant: string; nonce: bigint }
+  | { name: 'SelfReferral'; user: string }
+  | { name: 'ReferrerIsNotRegistered'; referrer: string }
+  | { name: 'InvalidReferralRebate'; referralRebateBps: bigint }
+  | { name: 'ReferralRebatesLocked' }
+  | { name: 'NoReferralRebate'; referrer: string; asset: string }
+  | { name: 'ECDSAInvalidSignature' }
+  | { name: 'ECDSAInvalidSignatureLength'; length: bigint }
+  | { name: 'ECDSAInvalidSignatureS'; s: string }
+  | { name: 'FeeTokenIsNotSet' }
+  | { name: 'FeeTokenInUse'; token: string }
+  | { name: 'UserAlreadyWhitelisted'; user: string }
+  | { name: 'UserIsNotWhitelisted'; user: string }
+  | { name: 'EnforcedWhitelist' }
+  | { name: 'ExpectedWhitelist' }
+  | { name: 'EnforcedPause' }
+  | { name: 'ExpectedPause' }
+  | { name: 'OwnableUnauthorizedAccount'; account: string }
+  | { name: 'OwnableInvalidOwner'; owner: string }
+  | { name: 'ReentrancyGuardReentrantCall' }
+  | { name: 'AddressInsufficientBalance'; account: string }
+  | { name: 'FailedInnerCall' }
+  | { name: 'InsufficientBalance'; balance: bigint; needed: bigint }
+  | { name: 'FailedCall' }
+  | { name: 'SafeERC20FailedOperation'; token: string }
+  | { name: 'UnknownPresale'; presale: string }
+
+export type PresaleErrorName = PresaleError['name']
+
+/** Error thrown by `PresaleClient` when the contract reverts or would revert with a custom error. */
+export class PresaleClientError extends Error {
+  readonly error: PresaleError
+
+  constructor(error: PresaleError) {
+    super(`Presale reverted with ${error.name}`)
+    this.name = 'PresaleClientError'
+    this.error = error
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+function isRevertData(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith('0x') && value.length >= 10
+}
+
+/**
+ * Find data of revert in error thrown by ethers or by provider wrapped into it.
+ * @param error Error thrown on call or transaction.
+ * @return Revert data or undefined if error has no revert data.
+ */
+export function getRevertData(error: unknown): string | undefined {
+  let current = error
+  for (let depth = 0; isRecord(current) && depth < 5; depth++) {
+    if (isRevertData(current.data)) {
+      return current.data
+    }
+    if (isRecord(current.data) && typeof current.data.data === 'string') {
+      return current.data.data
+    }
+    current = current.error ?? (isRecord(current.info) ? current.info.error : undefined) ?? current.cause
+  }
+  return undefined
+}
+
+/**
+ * Convert parsed custom error to structured error with arguments by name.
+ * @param parsed Custom error parsed by interface of Presale.
+ */
+export function toPresaleError(parsed: ErrorDescription): PresaleError {
+  const error: Record<string, unknown> = { name: parsed.name }
+  parsed.fragment.inputs.forEach((input, index) => {
+    error[input.name] = parsed.args[index]
+  })
+  return error as PresaleError
+}
+
+/**
+ * Decode custom error of Presale by its selector.
+ * @param errorOrData Error thrown by ethers or revert data.
+ * @param contractInterface Interface of Presale used to find errors by selector.
+ * @return Structured error or undefined if error is not a custom error of Presale.
+ */
+export function decodePresaleError(errorOrData: unknown, contractInterface: Interface): PresaleError | undefined {
+  const data = typeof errorOrData === 'string' ? errorOrData : getRevertData(errorOrData)
+  if (!data) {
+    return undefined
+  }
+  try {
+    const parsed = contractInterface.parseError(data)
+    return parsed ? toPresaleError(parsed) : undefined
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,6 @@
+export * from './errors'
+export * from './merkle'
+export * from './PresaleClient'
+export * from './PresaleFactoryClient'
+export * from './status'
+export * from './voucher'
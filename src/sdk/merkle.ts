@@ -0,0 +1,50 @@
+import { StandardMerkleTree } from '@openzeppelin/merkle-tree'
+import { getAddress } from 'ethers'
+
+const LEAF_ENCODING = ['address']
+
+export interface WhitelistProofs {
+  root: string
+  /** Merkle proofs by checksummed address. */
+  proofs: Record<string, string[]>
+}
+
+/**
+ * Build Merkle tree of whitelist with leaves in the format checked by the `Whitelist` contract.
+ * @param addresses Whitelisted addresses.
+ * @return Root of tree and proof of every address.
+ */
+export function buildWhitelistProofs(addresses: string[]): WhitelistProofs {
+  if (addresses.length === 0) {
+    throw new Error('Merkle tree of whitelist needs at least one address')
+  }
+  const tree = StandardMerkleTree.of(
+    addresses.map((address) => [getAddress(address)]),
+    LEAF_ENCODING
+  )
+  const proofs: Record<string, string[]> = {}
+  for (const [index, [address]] of tree.entries()) {
+    proofs[address] = tree.getProof(index)
+  }
+  return { root: tree.root, proofs }
+}
+
+/**
+ * Find Merkle proof of address, e.g. in proofs file loaded by frontend.
+ * @param whitelist Root and proofs of whitelist.
+ * @param address Address of user in any case.
+ * @return Proof or undefined if address is not in whitelist.
+ */
+export function getWhitelistProof(whitelist: WhitelistProofs, address: string): string[] | undefined {
+  return whitelist.proofs[getAddress(address)]
+}
+
+/**
+ * Verify Merkle proof of address against root off-chain.
+ * @param root Merkle root of whitelist.
+ * @param address Address of user.
+ * @param proof Merkle proof of address.
+ */
+export function verifyWhitelistProof(root: string, address: string, proof: string[]): boolean {
+  return StandardMerkleTree.verify(root, LEAF_ENCODING, [getAddress(address)], proof)
+}
@@ -0,0 +1,4 @@
+/** Statuses of presale in the order of `PresaleStatus` enum of PresaleFactory. */
+export const PRESALE_STATUSES = ['upcoming', 'active', 'ended', 'paused'] as const
+
+export type PresaleStatus = (typeof PRESALE_STATUSES)[number]
@@ -0,0 +1,92 @@
+import { Signer, TypedDataDomain, getAddress, verifyTypedData } from 'ethers'
+import type { Presale } from '../../typechain-types'
+
+/** EIP-712 voucher of registration, `fee` replaces fee of presale and zero waives it. */
+export interface Voucher {
+  registrant: string
+  fee: bigint
+  nonce: bigint
+  /** Voucher is valid until this unix timestamp in seconds inclusive. */
+  expiry: bigint
+}
+
+/** Voucher with its signature in JSON format, amounts as decimal strings. */
+export interface SignedVoucherJson {
+  voucher: { registrant: string; fee: string; nonce: string; expiry: string }
+  signature: string
+}
+
+export const VOUCHER_TYPES = {
+  Voucher: [
+    { name: 'registrant', type: 'address' },
+    { name: 'fee', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' }
+  ]
+}
+
+/**
+ * Read EIP-712 domain of vouchers from Presale by ERC-5267 `eip712Domain`.
+ * @param presale Presale contract.
+ */
+export async function getVoucherDomain(presale: Presale): Promise<TypedDataDomain> {
+  const { name, version, chainId, verifyingContract } = await presale.eip712Domain()
+  return { name, version, chainId, verifyingContract }
+}
+
+/**
+ * Sign voucher by owner or voucher signer of Presale.
+ * @param signer Owner or voucher signer.
+ * @param domain EIP-712 domain of Presale.
+ * @param voucher Voucher of registration.
+ * @return EIP-712 signature.
+ */
+export async function signVoucher(signer: Signer, domain: TypedDataDomain, voucher: Voucher): Promise<string> {
+  return signer.signTypedData(domain, VOUCHER_TYPES, voucher)
+}
+
+/**
+ * Recover signer of voucher off-chain, like `recoverVoucherSigner` of contract.
+ * @param domain EIP-712 domain of Presale.
+ * @param voucher Voucher of registration.
+ * @param signature EIP-712 signature of voucher.
+ */
+export function recoverVoucherSigner(domain: TypedDataDomain, voucher: Voucher, signature: string): string {
+  return verifyTypedData(domain, VOUCHER_TYPES, voucher, signature)
+}
+
+export function serializeVoucher(voucher: Voucher, signature: string): SignedVoucherJson {
+  return {
+    voucher: {
+      registrant: voucher.registrant,
+      fee: voucher.fee.toString(),
+      nonce: voucher.nonce.toString(),
+      expiry: voucher.expiry.toString()
+    },
+    signature
+  }
+}
+
+/**
+ * Parse voucher with signature from JSON format.
+ * @throws Error when fields are missing or not valid.
+ */
+export function parseVoucher(json: SignedVoucherJson): { voucher: Voucher; signature: string } {
+  const { voucher, signature } = json ?? {}
+  if (!voucher || typeof voucher.registrant !== 'string' || typeof signature !== 'string') {
+    throw new Error('Expected voucher with registrant, fee, nonce, expiry and signature')
+  }
+  try {
+    return {
+      voucher: {
+        registrant: getAddress(voucher.registrant),
+        fee: BigInt(voucher.fee),
+        nonce: BigInt(voucher.nonce),
+        expiry: BigInt(voucher.expiry)
+      },
+      signature
+    }
+  } catch {
+    throw new Error('Expected address of registrant, fee, nonce and expiry of voucher as decimal strings')
+  }
+}
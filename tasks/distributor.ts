@@ -0,0 +1,207 @@
+import fs from 'fs'
+import { task, types } from 'hardhat/config'
+import { HardhatPluginError } from 'hardhat/plugins'
+import { ZeroAddress, parseUnits } from 'ethers'
+import { parseDuration, parsePresaleDate } from '../scripts/utils/config'
+import {
+  ALLOCATION_MODES,
+  AllocationMode,
+  allocationsToCsv,
+  allocationsToJson,
+  deployDistributor,
+  previewAllocations,
+  readRegistrations
+} from '../scripts/utils/distributor'
+import { formatDate, formatDiff, formatToken } from '../scripts/utils/format'
+import { createIndexer } from './indexer'
+import {
+  ADDRESS_DESCRIPTION,
+  getDistributor,
+  getPresale,
+  getToken,
+  latestTimestamp,
+  parseAddresses,
+  sendTransaction
+} from './utils'
+
+const DISTRIBUTOR_DESCRIPTION = 'Address of PresaleDistributor, taken from deployment manifest by default'
+
+function parseMode(mode: string): AllocationMode {
+  if (!(mode in ALLOCATION_MODES)) {
+    throw new HardhatPluginError('presale', `Unknown mode: ${mode}, expected fixed or pro-rata`)
+  }
+  return mode as AllocationMode
+}
+
+function formatMode(mode: bigint): string {
+  return Object.entries(ALLOCATION_MODES).find(([, value]) => BigInt(value) === mode)?.[0] ?? 'none'
+}
+
+task('distributor:deploy', 'Deploys PresaleDistributor of token for registrants of Presale')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .addParam('token', 'Address of ERC-20 token distributed')
+  .setAction(async ({ address, token }, hre) => {
+    const [tokenAddress] = parseAddresses([token])
+    const presale = await getPresale(hre, address)
+    const { deployment } = await deployDistributor(hre, { presale: await presale.getAddress(), token: tokenAddress })
+    console.log('PresaleDistributor: ', deployment.address)
+    console.log('Transaction hash: ', deployment.transactionHash)
+  })
+
+task('distributor:preview', 'Previews allocation of every registrant from registrations on chain before funding')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .addOptionalParam('distributor', DISTRIBUTOR_DESCRIPTION)
+  .addOptionalParam('token', 'Address of token, taken from distributor by default')
+  .addParam('mode', 'Allocation mode: fixed or pro-rata')
+  .addParam('amount', 'Tokens per registrant in fixed mode or whole pool in pro-rata mode')
+  .addOptionalParam('store', 'Path to store of indexer, indexer/<network>.json by default')
+  .addOptionalParam('fromBlock', 'Start block, deployment block from manifest by default', undefined, types.int)
+  .addOptionalParam('chunkSize', 'Number of blocks in one getLogs request', 2000, types.int)
+  .addOptionalParam('confirmations', 'Number of blocks rewound on reorg', 12, types.int)
+  .addOptionalParam('format', 'Format of export: csv or json', 'csv')
+  .addOptionalParam('out', 'Path to export of allocations')
+  .setAction(async (args, hre) => {
+    const mode = parseMode(args.mode)
+    if (args.format !== 'csv' && args.format !== 'json') {
+      throw new HardhatPluginError('presale', `Unknown format: ${args.format}, expected csv or json`)
+    }
+    const distributor = args.token ? undefined : await getDistributor(hre, args.distributor)
+    const token = await getToken(hre, args.token ?? (await distributor?.token()))
+    const [decimals, symbol] = await Promise.all([token.decimals(), token.symbol()])
+    const format = (amount: bigint) => formatToken(amount, decimals, symbol)
+
+    const indexer = await createIndexer(hre, args)
+    await indexer.sync()
+    const presale = await getPresale(hre, indexer.store.presale)
+    const registrations = await readRegistrations(
+      presale,
+      indexer.registrants().map((registrant) => registrant.user)
+    )
+    let preview
+    try {
+      preview = previewAllocations(registrations, mode, parseUnits(args.amount, decimals))
+    } catch (error) {
+      throw new HardhatPluginError('presale', (error as Error).message)
+    }
+    const { rows, total, dust, totalFees } = preview
+
+    if (args.out) {
+      fs.writeFileSync(args.out, args.format === 'csv' ? allocationsToCsv(rows) : allocationsToJson(rows))
+      console.log('Allocations exported: ', args.out)
+    }
+    rows.forEach((row) =>
+      console.log(`${row.user} ${format(row.allocation)}${row.excluded ? ` (${row.excluded})` : ''}`)
+    )
+    console.log('Registrants: ', rows.length)
+    console.log('Excluded: ', rows.filter((row) => row.excluded).length)
+    console.log('Total allocation: ', format(total))
+    console.log('Rounding dust: ', format(dust))
+    if (distributor) {
+      console.log('Distributor balance: ', format(await token.balanceOf(distributor.target)))
+    }
+    if (mode === 'pro-rata' && totalFees !== (await presale.getTotalFees(ZeroAddress))) {
+      console.log('WARNING: indexed registrants do not add up to fees of Presale, sync indexer from deployment block')
+    }
+  })
+
+task('distributor:configure', 'Sets allocation and vesting of PresaleDistributor, possible until claims start')
+  .addOptionalParam('distributor', DISTRIBUTOR_DESCRIPTION)
+  .addParam('mode', 'Allocation mode: fixed or pro-rata')
+  .addParam('amount', 'Tokens per registrant in fixed mode or whole pool in pro-rata mode')
+  .addParam('start', 'Start of claims after end date: unix timestamp, ISO date or relative value like now+7d')
+  .addOptionalParam('cliff', 'Cliff after start: seconds or value like 30d', '0')
+  .addOptionalParam('duration', 'Vesting duration after start: seconds or value like 180d, 0 releases at once', '0')
+  .addFlag('dryRun', 'Print changes without sending transaction')
+  .setAction(async (args, hre) => {
+    const mode = parseMode(args.mode)
+    const distributor = await getDistributor(hre, args.distributor)
+    const token = await getToken(hre, await distributor.token())
+    const [decimals, symbol] = await Promise.all([token.decimals(), token.symbol()])
+    const amount = parseUnits(args.amount, decimals)
+    const start = parsePresaleDate(args.start, await latestTimestamp(hre))
+    const cliff = parseDuration(args.cliff)
+    const duration = parseDuration(args.duration)
+    const [currentMode, currentAmount, currentStart, currentCliff, currentDuration] = await Promise.all([
+      distributor.allocationMode(),
+      distributor.allocationAmount(),
+      distributor.claimStart(),
+      distributor.vestingCliff(),
+      distributor.vestingDuration()
+    ])
+
+    console.log(
+      formatDiff([
+        { name: 'Mode', current: formatMode(currentMode), next: mode },
+        {
+          name: 'Amount',
+          current: formatToken(currentAmount, decimals, symbol),
+          next: formatToken(amount, decimals, symbol)
+        },
+        {
+          name: 'Claim start',
+          current: currentStart === 0n ? 'not set' : formatDate(currentStart),
+          next: formatDate(start)
+        },
+        { name: 'Cliff', current: `${currentCliff}s`, next: `${cliff}s` },
+        { name: 'Vesting duration', current: `${currentDuration}s`, next: `${duration}s` }
+      ])
+    )
+    if (args.dryRun) {
+      return
+    }
+    await sendTransaction(distributor, () =>
+      distributor.setAllocation(ALLOCATION_MODES[mode], amount, start, cliff, duration)
+    )
+  })
+
+task('distributor:fund', 'Transfers tokens missing for allocations not claimed yet from signer to distributor')
+  .addOptionalParam('distributor', DISTRIBUTOR_DESCRIPTION)
+  .addFlag('dryRun', 'Print amount without sending transaction')
+  .setAction(async ({ distributor: address, dryRun }, hre) => {
+    const distributor = await getDistributor(hre, address)
+    const [signer] = await hre.ethers.getSigners()
+    const token = (await getToken(hre, await distributor.token())).connect(signer)
+    const [decimals, symbol, outstanding, balance] = await Promise.all([
+      token.decimals(),
+      token.symbol(),
+      distributor.getOutstandingAllocations(),
+      token.balanceOf(distributor.target)
+    ])
+    console.log('Outstanding allocations: ', formatToken(outstanding, decimals, symbol))
+    console.log('Distributor balance: ', formatToken(balance, decimals, symbol))
+    if (balance >= outstanding) {
+      console.log('Distributor is funded')
+      return
+    }
+    console.log('Transfer: ', formatToken(outstanding - balance, decimals, symbol))
+    if (dryRun) {
+      return
+    }
+    await sendTransaction(token, () => token.transfer(distributor.target, outstanding - balance))
+  })
+
+task('distributor:status', 'Prints allocation, vesting and funding of PresaleDistributor')
+  .addOptionalParam('distributor', DISTRIBUTOR_DESCRIPTION)
+  .setAction(async ({ distributor: address }, hre) => {
+    const distributor = await getDistributor(hre, address)
+    const token = await getToken(hre, await distributor.token())
+    const [decimals, symbol] = await Promise.all([token.decimals(), token.symbol()])
+    const format = (amount: bigint) => formatToken(amount, decimals, symbol)
+    const claimStart = await distributor.claimStart()
+    const now = BigInt(await latestTimestamp(hre))
+
+    console.log('PresaleDistributor: ', await distributor.getAddress())
+    console.log('Presale: ', await distributor.presale())
+    console.log('Token: ', token.target)
+    console.log('Mode: ', formatMode(await distributor.allocationMode()))
+    console.log('Amount: ', format(await distributor.allocationAmount()))
+    console.log('Claim start: ', claimStart === 0n ? 'not set' : formatDate(claimStart))
+    console.log('Claims: ', claimStart === 0n || now < claimStart ? 'not started' : 'started')
+    console.log('Cliff: ', `${await distributor.vestingCliff()}s`)
+    console.log('Vesting duration: ', `${await distributor.vestingDuration()}s`)
+    const snapshotTime = await distributor.snapshotTime()
+    console.log('Snapshot: ', snapshotTime === 0n ? 'not taken' : formatDate(snapshotTime))
+    console.log('Released: ', format(await distributor.totalReleased()))
+    console.log('Outstanding allocations: ', format(await distributor.getOutstandingAllocations()))
+    console.log('Balance: ', format(await token.balanceOf(distributor.target)))
+  })
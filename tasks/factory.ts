@@ -0,0 +1,106 @@
+import { task, types } from 'hardhat/config'
+import { HardhatPluginError } from 'hardhat/plugins'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { resolvePresaleArgs } from '../scripts/utils/config'
+import { resolveContractAddress } from '../scripts/utils/deployment'
+import { formatDate, formatEth } from '../scripts/utils/format'
+import type { PresaleFactoryClient } from '../src/sdk/PresaleFactoryClient'
+import { PRESALE_STATUSES, PresaleStatus } from '../src/sdk/status'
+import { latestTimestamp, parseAddresses, toTaskError } from './utils'
+
+const FACTORY_DESCRIPTION = 'Address of PresaleFactory, taken from deployment manifest by default'
+
+/**
+ * Client of PresaleFactory connected with the first signer.
+ * The client is loaded on use like `deployFactory`, both need typechain bindings which compile generates after tasks
+ * are loaded.
+ */
+async function getFactoryClient(hre: HardhatRuntimeEnvironment, address?: string): Promise<PresaleFactoryClient> {
+  const { PresaleFactoryClient } = await import('../src/sdk/PresaleFactoryClient')
+  const [signer] = await hre.ethers.getSigners()
+  return new PresaleFactoryClient(resolveContractAddress(hre, 'PresaleFactory', address), signer)
+}
+
+function parseStatus(status: string): PresaleStatus {
+  if (!(PRESALE_STATUSES as readonly string[]).includes(status)) {
+    throw new HardhatPluginError('presale', `Unknown status: ${status}, expected ${PRESALE_STATUSES.join(', ')}`)
+  }
+  return status as PresaleStatus
+}
+
+task('factory:deploy', 'Deploys PresaleFactory with Presale implementation cloned for every presale').setAction(
+  async (_, hre) => {
+    const { deployFactory } = await import('../scripts/utils/factory')
+    const { deployment } = await deployFactory(hre)
+    console.log('PresaleFactory: ', deployment.address)
+    console.log('Implementation: ', deployment.implementation)
+    console.log('Transaction hash: ', deployment.transactionHash)
+  }
+)
+
+task('factory:create', 'Creates presale owned by signer through PresaleFactory')
+  .addOptionalParam('factory', FACTORY_DESCRIPTION)
+  .addParam('start', 'Start date: unix timestamp, ISO date or relative value like now+1d')
+  .addParam('end', 'End date: unix timestamp, ISO date or relative value like now+5d')
+  .addParam('max', 'Max registrations', undefined, types.int)
+  .addParam('fee', 'Registration fee in ETH, e.g. 0.1')
+  .addFlag('whitelist', 'Turn on whitelist from the start')
+  .setAction(async (args, hre) => {
+    const client = await getFactoryClient(hre, args.factory)
+    let settings
+    try {
+      settings = resolvePresaleArgs(
+        {
+          startDate: args.start,
+          endDate: args.end,
+          maxRegistrations: args.max,
+          registrationFee: args.fee,
+          whitelistStatusInit: args.whitelist
+        },
+        await latestTimestamp(hre)
+      )
+    } catch (error) {
+      throw new HardhatPluginError('presale', (error as Error).message)
+    }
+    const [startDate, endDate, maxRegistrations, registrationFee, whitelistStatus] = settings
+    const presale = await client
+      .createPresale({ startDate, endDate, maxRegistrations, registrationFee, whitelistStatus })
+      .catch((error) => {
+        throw toTaskError(error, client.contract)
+      })
+    console.log('Presale: ', await presale.contract.getAddress())
+  })
+
+task('factory:list', 'Lists presales created by PresaleFactory')
+  .addOptionalParam('factory', FACTORY_DESCRIPTION)
+  .addOptionalParam('owner', 'Current owner of presales')
+  .addOptionalParam('status', `Status of presales: ${PRESALE_STATUSES.join(', ')}`)
+  .setAction(async (args, hre) => {
+    const client = await getFactoryClient(hre, args.factory)
+    const presales = await client.listPresales({
+      owner: args.owner ? parseAddresses([args.owner])[0] : undefined,
+      status: args.status ? parseStatus(args.status) : undefined
+    })
+    presales.forEach((presale) =>
+      console.log(
+        `${presale.address} ${presale.status} owner ${presale.owner}`,
+        `${formatDate(presale.startDate)} - ${formatDate(presale.endDate)}`,
+        `registrations ${presale.registrationCount}/${presale.maxRegistrations} fee ${formatEth(presale.registrationFee)}`
+      )
+    )
+    console.log('Presales: ', presales.length)
+  })
+
+task('factory:inspect', 'Prints status in registry of PresaleFactory and state of presale')
+  .addOptionalParam('factory', FACTORY_DESCRIPTION)
+  .addParam('presale', 'Address of presale created by factory')
+  .setAction(async (args, hre) => {
+    const client = await getFactoryClient(hre, args.factory)
+    const [address] = parseAddresses([args.presale])
+    const summary = await client.getPresale(address).catch((error) => {
+      throw toTaskError(error, client.contract)
+    })
+    console.log('Factory: ', await client.contract.getAddress())
+    console.log('Registry status: ', summary.status)
+    await hre.run('presale:status', { address })
+  })
@@ -0,0 +1,43 @@
+import { task, types } from 'hardhat/config'
+import { HardhatPluginError } from 'hardhat/plugins'
+import {
+  GAS_SNAPSHOT_PATH,
+  compareGasSnapshots,
+  formatGasDiff,
+  measureGas,
+  readGasSnapshot,
+  writeGasSnapshot
+} from '../scripts/utils/gas'
+
+task('gas:snapshot', 'Measures gas of Presale and writes it to snapshot')
+  .addOptionalParam('file', 'Path to snapshot', GAS_SNAPSHOT_PATH)
+  .setAction(async ({ file }, hre) => {
+    await hre.run('compile', { quiet: true })
+    const current = await measureGas(hre)
+    const base = readGasSnapshot(file) ?? {}
+    console.log(formatGasDiff(compareGasSnapshots(base, current, 0)))
+    writeGasSnapshot(current, file)
+    console.log('Snapshot written: ', file)
+  })
+
+task('gas:check', 'Measures gas of Presale and fails when it regressed beyond threshold of snapshot')
+  .addOptionalParam('file', 'Path to snapshot', GAS_SNAPSHOT_PATH)
+  .addOptionalParam('threshold', 'Allowed increase in percent', 1, types.float)
+  .setAction(async ({ file, threshold }, hre) => {
+    const base = readGasSnapshot(file)
+    if (!base) {
+      throw new HardhatPluginError('presale', `Snapshot ${file} is not found, create it with gas:snapshot`)
+    }
+    await hre.run('compile', { quiet: true })
+    const entries = compareGasSnapshots(base, await measureGas(hre), threshold)
+    console.log(formatGasDiff(entries))
+    const regressed = entries.filter((entry) => entry.regressed)
+    if (regressed.length > 0) {
+      throw new HardhatPluginError(
+        'presale',
+        `Gas regressed beyond ${threshold}%: ${regressed.map((entry) => entry.name).join(', ')}, ` +
+          'update snapshot with gas:snapshot if it is expected'
+      )
+    }
+    console.log(`Gas is within ${threshold}% of snapshot`)
+  })
@@ -0,0 +1,12 @@
+import './indexer'
+import './presale'
+import './whitelist'
+import './report'
+import './voucher'
+import './timelock'
+import './gas'
+import './simulator'
+import './referral'
+import './distributor'
+import './upgrade'
+import './factory'
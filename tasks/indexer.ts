@@ -0,0 +1,60 @@
+import { task, types } from 'hardhat/config'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { Interface } from 'ethers'
+import { readManifest, resolveContractAddress } from '../scripts/utils/deployment'
+import { PresaleIndexer, indexerStorePath } from '../scripts/utils/indexer'
+import { ADDRESS_DESCRIPTION } from './utils'
+
+export interface IndexerArgs {
+  address?: string
+  store?: string
+  fromBlock?: number
+  chunkSize: number
+  confirmations: number
+}
+
+/**
+ * Create indexer of Presale, start block defaults to the deployment block from manifest.
+ * @param hre Hardhat runtime environment.
+ * @param args Arguments of task.
+ */
+export async function createIndexer(hre: HardhatRuntimeEnvironment, args: IndexerArgs): Promise<PresaleIndexer> {
+  const presale = resolveContractAddress(hre, 'Presale', args.address)
+  const deployment = readManifest(hre.network.name)?.contracts.Presale
+  const startBlock = args.fromBlock ?? (deployment?.address === presale ? deployment.blockNumber : 0)
+  const { abi } = await hre.artifacts.readArtifact('Presale')
+  return new PresaleIndexer({
+    presale,
+    provider: hre.ethers.provider,
+    contractInterface: new Interface(abi),
+    storePath: args.store ?? indexerStorePath(hre.network.name),
+    startBlock,
+    chunkSize: args.chunkSize,
+    confirmations: args.confirmations,
+    log: (message) => console.log(message)
+  })
+}
+
+task('presale:index', 'Indexes events of Presale into local JSON store')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .addOptionalParam('store', 'Path to store, indexer/<network>.json by default')
+  .addOptionalParam('fromBlock', 'Start block, deployment block from manifest by default', undefined, types.int)
+  .addOptionalParam('chunkSize', 'Number of blocks in one getLogs request', 2000, types.int)
+  .addOptionalParam('confirmations', 'Number of blocks rewound on reorg', 12, types.int)
+  .addFlag('follow', 'Keep following new blocks')
+  .addOptionalParam('interval', 'Interval of following in milliseconds', 4000, types.int)
+  .setAction(async (args, hre) => {
+    const indexer = await createIndexer(hre, args)
+    if (args.follow) {
+      process.once('SIGINT', () => indexer.stop())
+      console.log('Following new blocks, press Ctrl+C to stop')
+      await indexer.follow(args.interval)
+    } else {
+      await indexer.sync()
+    }
+
+    console.log('Last indexed block: ', indexer.store.lastBlock)
+    console.log('Events: ', indexer.store.events.length)
+    console.log('Registrants: ', indexer.registrants().length)
+    console.log('Whitelist: ', indexer.whitelist().length)
+  })
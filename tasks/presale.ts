@@ -0,0 +1,322 @@
+import { task, types } from 'hardhat/config'
+import { HardhatPluginError } from 'hardhat/plugins'
+import fs from 'fs'
+import { ZeroAddress, ZeroHash, isHexString, parseEther, parseUnits } from 'ethers'
+import { PresalePhase, parsePresaleDate, resolvePhases } from '../scripts/utils/config'
+import { formatDate, formatDiff, formatEth, formatToken } from '../scripts/utils/format'
+import { ADDRESS_DESCRIPTION, getPresale, getToken, latestTimestamp, parseAddresses, sendTransaction } from './utils'
+
+task('presale:status', 'Prints state and settings of Presale')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .setAction(async ({ address }, hre) => {
+    const presale = await getPresale(hre, address)
+    const [startDate, endDate, maxRegistrations, registrationFee] = await presale.getSettings()
+    const now = await latestTimestamp(hre)
+    const state = now < startDate ? 'upcoming' : now > endDate ? 'ended' : 'active'
+
+    console.log('Presale: ', await presale.getAddress())
+    console.log('VERSION: ', (await presale.VERSION()).toString())
+    console.log('Owner: ', await presale.owner())
+    console.log('Pending owner: ', await presale.pendingOwner())
+    console.log('Guardian: ', await presale.guardian())
+    console.log('State: ', state)
+    console.log('Paused: ', await presale.paused())
+    console.log('Cancelled: ', await presale.isCancelled())
+    console.log('Refunds: ', (await presale.isRefundAvailable()) ? 'open' : 'closed')
+    console.log('Whitelist: ', (await presale.whitelistStatus()) ? 'on' : 'off')
+    console.log('Merkle root: ', await presale.merkleRoot())
+    console.log('Start date: ', formatDate(startDate))
+    console.log('End date: ', formatDate(endDate))
+    console.log('Max registrations: ', maxRegistrations.toString())
+    console.log('Min registrations: ', (await presale.minRegistrations()).toString())
+    console.log('Registration fee: ', formatEth(registrationFee))
+    console.log('Referral rebate: ', `${await presale.referralRebateBps()} bps`)
+    const phase = await presale.currentPhase()
+    console.log('Current phase: ', phase === 0n ? 'none' : phase.toString())
+    console.log('Balance: ', formatEth(await hre.ethers.provider.getBalance(presale.target)))
+    console.log('Locked: ', formatEth(await presale.getLockedFunds(ZeroAddress)))
+    const feeToken = await presale.feeToken()
+    if (feeToken !== ZeroAddress) {
+      const token = await getToken(hre, feeToken)
+      const [decimals, symbol] = await Promise.all([token.decimals(), token.symbol()])
+      console.log('Fee token: ', feeToken)
+      console.log('Token registration fee: ', formatToken(await presale.tokenRegistrationFee(), decimals, symbol))
+      console.log('Token balance: ', formatToken(await token.balanceOf(presale.target), decimals, symbol))
+      console.log('Token locked: ', formatToken(await presale.getLockedFunds(feeToken), decimals, symbol))
+    }
+  })
+
+task('presale:pause', 'Pauses registrations on Presale')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .setAction(async ({ address }, hre) => {
+    const presale = await getPresale(hre, address)
+    console.log('Pausing Presale: ', presale.target)
+    await sendTransaction(presale, () => presale.pause())
+  })
+
+task('presale:unpause', 'Resumes registrations on Presale')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .setAction(async ({ address }, hre) => {
+    const presale = await getPresale(hre, address)
+    console.log('Unpausing Presale: ', presale.target)
+    await sendTransaction(presale, () => presale.unpause())
+  })
+
+task('presale:guardian', 'Sets guardian allowed to pause Presale without owner, zero address removes it')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .addParam('guardian', 'Address of guardian')
+  .addFlag('dryRun', 'Print changes without sending transaction')
+  .setAction(async ({ address, guardian, dryRun }, hre) => {
+    const [guardianAddress] = parseAddresses([guardian])
+    const presale = await getPresale(hre, address)
+    console.log(formatDiff([{ name: 'Guardian', current: await presale.guardian(), next: guardianAddress }]))
+    if (dryRun) {
+      return
+    }
+    await sendTransaction(presale, () => presale.setGuardian(guardianAddress))
+  })
+
+task('presale:settings', 'Changes settings of Presale, omitted settings keep current values')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .addOptionalParam('start', 'Start date: unix timestamp, ISO date or relative value like now+1d')
+  .addOptionalParam('end', 'End date: unix timestamp, ISO date or relative value like now+5d')
+  .addOptionalParam('max', 'Max registrations', undefined, types.int)
+  .addOptionalParam('fee', 'Registration fee in ETH')
+  .addFlag('dryRun', 'Print changes without sending transaction')
+  .setAction(async ({ address, start, end, max, fee, dryRun }, hre) => {
+    const presale = await getPresale(hre, address)
+    const [startDate, endDate, maxRegistrations, registrationFee] = await presale.getSettings()
+    const now = await latestTimestamp(hre)
+    const newStartDate = start === undefined ? startDate : BigInt(parsePresaleDate(start, now))
+    const newEndDate = end === undefined ? endDate : BigInt(parsePresaleDate(end, now))
+    const newMaxRegistrations = max === undefined ? maxRegistrations : BigInt(max)
+    const newRegistrationFee = fee === undefined ? registrationFee : parseEther(fee)
+
+    console.log(
+      formatDiff([
+        { name: 'Start date', current: formatDate(startDate), next: formatDate(newStartDate) },
+        { name: 'End date', current: formatDate(endDate), next: formatDate(newEndDate) },
+        { name: 'Max registrations', current: maxRegistrations.toString(), next: newMaxRegistrations.toString() },
+        { name: 'Registration fee', current: formatEth(registrationFee), next: formatEth(newRegistrationFee) }
+      ])
+    )
+    if (
+      newStartDate === startDate &&
+      newEndDate === endDate &&
+      newMaxRegistrations === maxRegistrations &&
+      newRegistrationFee === registrationFee
+    ) {
+      console.log('Settings are not changed')
+      return
+    }
+    if (dryRun) {
+      return
+    }
+    await sendTransaction(presale, () =>
+      presale.setSettings(newStartDate, newEndDate, newMaxRegistrations, newRegistrationFee)
+    )
+  })
+
+task('presale:withdraw', 'Withdraws funds from Presale to owner')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .addOptionalParam('amount', 'Amount in ETH or in units of token with --token')
+  .addOptionalParam('token', 'Address of token to withdraw instead of ETH')
+  .addFlag('all', 'Withdraw whole available balance, fees locked for refunds and unclaimed rebates stay on contract')
+  .addFlag('dryRun', 'Print changes without sending transaction')
+  .setAction(async ({ address, amount, token, all, dryRun }, hre) => {
+    if (all === (amount !== undefined)) {
+      throw new HardhatPluginError('presale', 'Pass either --amount or --all')
+    }
+    const presale = await getPresale(hre, address)
+    let balance: bigint
+    let withdrawal: bigint
+    let format: (amount: bigint) => string
+    if (token) {
+      const erc20 = await getToken(hre, token)
+      const [decimals, symbol] = await Promise.all([erc20.decimals(), erc20.symbol()])
+      balance = await erc20.balanceOf(presale.target)
+      withdrawal = all ? await presale.availableBalance(token) : parseUnits(amount, decimals)
+      format = (value) => formatToken(value, decimals, symbol)
+    } else {
+      balance = await hre.ethers.provider.getBalance(presale.target)
+      withdrawal = all ? await presale.availableBalance(ZeroAddress) : parseEther(amount)
+      format = formatEth
+    }
+
+    console.log(formatDiff([{ name: 'Balance', current: format(balance), next: format(balance - withdrawal) }]))
+    if (withdrawal === 0n) {
+      console.log('Nothing to withdraw')
+      return
+    }
+    if (dryRun) {
+      return
+    }
+    await sendTransaction(presale, () =>
+      token ? presale.withdrawTokenFunds(token, withdrawal) : presale.withdrawFunds(withdrawal)
+    )
+  })
+
+task('presale:fee-token', 'Sets token and amount of registration fee in token, zero address turns it off')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .addParam('token', 'Address of ERC-20 token')
+  .addParam('fee', 'Registration fee in units of token, e.g. 10.5 for 10.5 USDC')
+  .addFlag('dryRun', 'Print changes without sending transaction')
+  .setAction(async ({ address, token, fee, dryRun }, hre) => {
+    const [tokenAddress] = parseAddresses([token])
+    const presale = await getPresale(hre, address)
+    const [feeToken, tokenRegistrationFee] = await Promise.all([presale.feeToken(), presale.tokenRegistrationFee()])
+    const decimals = tokenAddress === ZeroAddress ? 0n : await (await getToken(hre, tokenAddress)).decimals()
+    const newTokenRegistrationFee = parseUnits(fee, decimals)
+
+    console.log(
+      formatDiff([
+        { name: 'Fee token', current: feeToken, next: tokenAddress },
+        {
+          name: 'Token registration fee',
+          current: tokenRegistrationFee.toString(),
+          next: newTokenRegistrationFee.toString()
+        }
+      ])
+    )
+    if (dryRun) {
+      return
+    }
+    await sendTransaction(presale, () => presale.setFeeToken(tokenAddress, newTokenRegistrationFee))
+  })
+
+task('presale:phases', 'Prints phases of Presale with registration counts')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .setAction(async ({ address }, hre) => {
+    const presale = await getPresale(hre, address)
+    const [phases, current] = await Promise.all([presale.getPhases(), presale.currentPhase()])
+    if (phases.length === 0) {
+      console.log('Presale has no phases, registration follows settings')
+      return
+    }
+    for (const [index, phase] of phases.entries()) {
+      const number = index + 1
+      const count = await presale.getPhaseRegistrationCount(number)
+      console.log(
+        `Phase ${number}${BigInt(number) === current ? ' (active)' : ''}: ${formatDate(phase.startDate)} - ${formatDate(
+          phase.endDate
+        )}, ${count}/${phase.maxRegistrations} registrations, fee ${formatEth(phase.registrationFee)}, token fee ${
+          phase.tokenRegistrationFee
+        }, whitelist ${phase.isWhitelistRequired ? 'required' : 'not required'}`
+      )
+    }
+    if (current === 0n) {
+      console.log('No phase is active')
+    }
+  })
+
+task('presale:phases:set', 'Replaces phases of Presale with phases from JSON file, empty list removes phases')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .addParam('file', 'Path to JSON file with array of { start, end, max, fee, tokenFee?, whitelist? }')
+  .addFlag('dryRun', 'Print changes without sending transaction')
+  .setAction(async ({ address, file, dryRun }, hre) => {
+    const presale = await getPresale(hre, address)
+    const feeToken = await presale.feeToken()
+    const decimals = feeToken === ZeroAddress ? 0n : await (await getToken(hre, feeToken)).decimals()
+    let phases: PresalePhase[]
+    try {
+      phases = resolvePhases(JSON.parse(fs.readFileSync(file, 'utf8')), await latestTimestamp(hre), decimals)
+    } catch (error) {
+      throw new HardhatPluginError('presale', `Invalid phases file ${file}: ${(error as Error).message}`)
+    }
+
+    const current = await presale.getPhases()
+    const formatPhase = (phase?: PresalePhase) => {
+      if (!phase) {
+        return 'none'
+      }
+      return [
+        `${formatDate(phase.startDate)} - ${formatDate(phase.endDate)}`,
+        `max ${phase.maxRegistrations}`,
+        `fee ${formatEth(phase.registrationFee)}`,
+        `token fee ${phase.tokenRegistrationFee}`,
+        `whitelist ${phase.isWhitelistRequired}`
+      ].join(', ')
+    }
+    console.log(
+      formatDiff(
+        Array.from({ length: Math.max(current.length, phases.length) }, (_, index) => ({
+          name: `Phase ${index + 1}`,
+          current: formatPhase(current[index]),
+          next: formatPhase(phases[index])
+        }))
+      )
+    )
+    if (dryRun) {
+      return
+    }
+    await sendTransaction(presale, () => presale.setPhases(phases))
+  })
+
+task('presale:whitelist:on', 'Turns on whitelist of Presale')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .setAction(async ({ address }, hre) => {
+    const presale = await getPresale(hre, address)
+    console.log('Turning on whitelist of Presale: ', presale.target)
+    await sendTransaction(presale, () => presale.turnOnWhitelist())
+  })
+
+task('presale:whitelist:off', 'Turns off whitelist of Presale')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .setAction(async ({ address }, hre) => {
+    const presale = await getPresale(hre, address)
+    console.log('Turning off whitelist of Presale: ', presale.target)
+    await sendTransaction(presale, () => presale.turnOffWhitelist())
+  })
+
+task('presale:whitelist:add', 'Adds addresses to whitelist of Presale')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .addVariadicPositionalParam('users', 'Addresses of users')
+  .setAction(async ({ address, users }, hre) => {
+    const presale = await getPresale(hre, address)
+    const addresses = parseAddresses(users)
+    console.log(`Adding ${addresses.length} address(es) to whitelist of Presale: `, presale.target)
+    await sendTransaction(presale, () =>
+      addresses.length === 1 ? presale.addToWhiteList(addresses[0]) : presale.addBatchToWhitelist(addresses)
+    )
+  })
+
+task('presale:whitelist:remove', 'Removes addresses from whitelist of Presale')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .addVariadicPositionalParam('users', 'Addresses of users')
+  .setAction(async ({ address, users }, hre) => {
+    const presale = await getPresale(hre, address)
+    const addresses = parseAddresses(users)
+    console.log(`Removing ${addresses.length} address(es) from whitelist of Presale: `, presale.target)
+    await sendTransaction(presale, () =>
+      addresses.length === 1 ? presale.removeFromWhitelist(addresses[0]) : presale.removeBatchFromWhiteList(addresses)
+    )
+  })
+
+task('presale:whitelist:root', 'Sets Merkle root of whitelist, zero root switches whitelist back to mapping mode')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .addOptionalParam('root', 'Merkle root')
+  .addOptionalParam('proofs', 'Path to proofs file built by whitelist:merkle')
+  .addFlag('dryRun', 'Print changes without sending transaction')
+  .setAction(async ({ address, root, proofs, dryRun }, hre) => {
+    if ((root === undefined) === (proofs === undefined)) {
+      throw new HardhatPluginError('presale', 'Pass either --root or --proofs')
+    }
+    const newRoot = root ?? JSON.parse(fs.readFileSync(proofs, 'utf8')).root
+    if (!isHexString(newRoot, 32)) {
+      throw new HardhatPluginError('presale', `Invalid Merkle root: ${newRoot}`)
+    }
+    const presale = await getPresale(hre, address)
+    const currentRoot = await presale.merkleRoot()
+    const mode = (merkleRoot: string) => (merkleRoot === ZeroHash ? 'mapping' : 'merkle')
+
+    console.log(
+      formatDiff([
+        { name: 'Merkle root', current: currentRoot, next: newRoot },
+        { name: 'Mode', current: mode(currentRoot), next: mode(newRoot) }
+      ])
+    )
+    if (dryRun) {
+      return
+    }
+    await sendTransaction(presale, () => presale.setMerkleRoot(newRoot))
+  })
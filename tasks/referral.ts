@@ -0,0 +1,63 @@
+import fs from 'fs'
+import { task, types } from 'hardhat/config'
+import { HardhatPluginError } from 'hardhat/plugins'
+import { ZeroAddress } from 'ethers'
+import { formatDiff, formatEth, formatToken } from '../scripts/utils/format'
+import { buildReferralLeaderboard, referralsToCsv, referralsToJson } from '../scripts/utils/referrals'
+import { createIndexer } from './indexer'
+import { ADDRESS_DESCRIPTION, getPresale, getToken, sendTransaction } from './utils'
+
+task('presale:referrals', 'Prints leaderboard of referrers and exports their rebates from indexed events')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .addOptionalParam('store', 'Path to store of indexer, indexer/<network>.json by default')
+  .addOptionalParam('fromBlock', 'Start block, deployment block from manifest by default', undefined, types.int)
+  .addOptionalParam('chunkSize', 'Number of blocks in one getLogs request', 2000, types.int)
+  .addOptionalParam('confirmations', 'Number of blocks rewound on reorg', 12, types.int)
+  .addOptionalParam('format', 'Format of export: csv or json', 'csv')
+  .addOptionalParam('out', 'Path to export of whole leaderboard')
+  .addOptionalParam('top', 'Number of printed rows', 10, types.int)
+  .setAction(async (args, hre) => {
+    if (args.format !== 'csv' && args.format !== 'json') {
+      throw new HardhatPluginError('presale', `Unknown format: ${args.format}, expected csv or json`)
+    }
+    const indexer = await createIndexer(hre, args)
+    await indexer.sync()
+    const rows = buildReferralLeaderboard(indexer)
+
+    if (args.out) {
+      fs.writeFileSync(args.out, args.format === 'csv' ? referralsToCsv(rows) : referralsToJson(rows))
+      console.log('Referrers exported: ', args.out)
+    }
+    console.log('Block: ', indexer.store.lastBlock)
+    console.log('Referrers: ', new Set(rows.map((row) => row.referrer)).size)
+    const formats = new Map<string, (amount: bigint) => string>([[ZeroAddress, formatEth]])
+    for (const [index, row] of rows.slice(0, args.top).entries()) {
+      if (!formats.has(row.asset)) {
+        const token = await getToken(hre, row.asset)
+        const [decimals, symbol] = await Promise.all([token.decimals(), token.symbol()])
+        formats.set(row.asset, (amount) => formatToken(amount, decimals, symbol))
+      }
+      const format = formats.get(row.asset) ?? formatEth
+      console.log(
+        `${index + 1}. ${row.referrer} ${row.referrals} referrals, accrued ${format(row.accrued)}, ` +
+          `claimed ${format(row.claimed)}, unclaimed ${format(row.unclaimed)}`
+      )
+    }
+  })
+
+task('presale:referral-rebate', 'Sets rebate of referrers for registrations made after the change')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .addParam('bps', 'Rebate in basis points of paid fee, 0 turns rebates off', undefined, types.int)
+  .addFlag('dryRun', 'Print changes without sending transaction')
+  .setAction(async ({ address, bps, dryRun }, hre) => {
+    if (bps < 0 || bps > 10000) {
+      throw new HardhatPluginError('presale', `Referral rebate ${bps} bps is out of range 0-10000`)
+    }
+    const presale = await getPresale(hre, address)
+    const current = await presale.referralRebateBps()
+    console.log(formatDiff([{ name: 'Referral rebate', current: `${current} bps`, next: `${bps} bps` }]))
+    if (dryRun) {
+      return
+    }
+    await sendTransaction(presale, () => presale.setReferralRebate(bps))
+  })
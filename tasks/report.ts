@@ -0,0 +1,88 @@
+import fs from 'fs'
+import { task, types } from 'hardhat/config'
+import { HardhatPluginError } from 'hardhat/plugins'
+import { ZeroAddress } from 'ethers'
+import { formatEth, formatToken } from '../scripts/utils/format'
+import { buildReport, findOutstandingRefunds, registrantsToCsv, registrantsToJson } from '../scripts/utils/report'
+import { createIndexer } from './indexer'
+import { ADDRESS_DESCRIPTION, getPresale, getToken } from './utils'
+
+task('presale:report', 'Exports registrants and reconciles fees and withdrawals with balance of Presale')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .addOptionalParam('store', 'Path to store of indexer, indexer/<network>.json by default')
+  .addOptionalParam('fromBlock', 'Start block, deployment block from manifest by default', undefined, types.int)
+  .addOptionalParam('chunkSize', 'Number of blocks in one getLogs request', 2000, types.int)
+  .addOptionalParam('confirmations', 'Number of blocks rewound on reorg', 12, types.int)
+  .addOptionalParam('format', 'Format of export: csv or json', 'csv')
+  .addOptionalParam('out', 'Path to export of registrants')
+  .addFlag('strict', 'Fail when the books do not balance')
+  .setAction(async (args, hre) => {
+    if (args.format !== 'csv' && args.format !== 'json') {
+      throw new HardhatPluginError('presale', `Unknown format: ${args.format}, expected csv or json`)
+    }
+    const indexer = await createIndexer(hre, args)
+    await indexer.sync()
+    const presale = await getPresale(hre, indexer.store.presale)
+    const { registrants, reconciliation, mismatches } = await buildReport(indexer, presale)
+
+    if (args.out) {
+      fs.writeFileSync(args.out, args.format === 'csv' ? registrantsToCsv(registrants) : registrantsToJson(registrants))
+      console.log('Registrants exported: ', args.out)
+    }
+    console.log('Block: ', indexer.store.lastBlock)
+    console.log('Registrants: ', registrants.length)
+    console.log('Total fees: ', formatEth(reconciliation.totalFees))
+    console.log('Overpayments: ', formatEth(reconciliation.totalOverpayments))
+    console.log('Withdrawals: ', formatEth(reconciliation.totalWithdrawals))
+    console.log('Refunds: ', formatEth(reconciliation.totalRefunds))
+    console.log('Top-ups: ', formatEth(reconciliation.totalTopUps))
+    console.log('Referral rebates: ', formatEth(reconciliation.totalRebates))
+    console.log('Expected balance: ', formatEth(reconciliation.expectedBalance))
+    console.log('Balance: ', formatEth(reconciliation.balance))
+    console.log('Status: ', reconciliation.status)
+    if (reconciliation.status === 'surplus') {
+      console.log(`WARNING: surplus of ${formatEth(reconciliation.difference)} was received without registration`)
+    } else if (reconciliation.status === 'deficit') {
+      console.log(
+        `WARNING: deficit of ${formatEth(-reconciliation.difference)}, balance is less than fees minus withdrawals`
+      )
+    }
+    mismatches.forEach((mismatch) => console.log(`WARNING: registration mismatch ${mismatch}`))
+
+    if (args.strict && (reconciliation.status !== 'balanced' || mismatches.length > 0)) {
+      throw new HardhatPluginError('presale', 'The books do not balance')
+    }
+  })
+
+task('presale:refunds', 'Lists registrants whose fees are not refunded yet')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .addOptionalParam('store', 'Path to store of indexer, indexer/<network>.json by default')
+  .addOptionalParam('fromBlock', 'Start block, deployment block from manifest by default', undefined, types.int)
+  .addOptionalParam('chunkSize', 'Number of blocks in one getLogs request', 2000, types.int)
+  .addOptionalParam('confirmations', 'Number of blocks rewound on reorg', 12, types.int)
+  .setAction(async (args, hre) => {
+    const indexer = await createIndexer(hre, args)
+    await indexer.sync()
+    const presale = await getPresale(hre, indexer.store.presale)
+    const refunds = await findOutstandingRefunds(indexer, presale)
+
+    console.log(
+      'Refunds: ',
+      (await presale.isRefundAvailable({ blockTag: indexer.store.lastBlock })) ? 'open' : 'closed'
+    )
+    const formats = new Map<string, (amount: bigint) => string>([[ZeroAddress, formatEth]])
+    const amounts = new Map<string, bigint>()
+    for (const { user, paidFee, asset } of refunds) {
+      if (!formats.has(asset)) {
+        const token = await getToken(hre, asset)
+        const [decimals, symbol] = await Promise.all([token.decimals(), token.symbol()])
+        formats.set(asset, (amount) => formatToken(amount, decimals, symbol))
+      }
+      amounts.set(asset, (amounts.get(asset) ?? 0n) + paidFee)
+      console.log(`${user} ${formats.get(asset)?.(paidFee)}`)
+    }
+    console.log('Outstanding refunds: ', refunds.length)
+    for (const [asset, amount] of amounts) {
+      console.log('Outstanding amount: ', formats.get(asset)?.(amount))
+    }
+  })
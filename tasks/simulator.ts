@@ -0,0 +1,35 @@
+import fs from 'fs'
+import { task } from 'hardhat/config'
+import { HardhatPluginError } from 'hardhat/plugins'
+import { formatSimulation, loadScenario, runScenario } from '../scripts/utils/simulator'
+
+task('presale:simulate', 'Runs launch scenario from YAML or JSON file on in-process Hardhat network')
+  .addParam('file', 'Path to scenario')
+  .addOptionalParam('out', 'Path to write timeline and summary in JSON format')
+  .setAction(async ({ file, out }, hre) => {
+    if (hre.network.name !== 'hardhat') {
+      throw new HardhatPluginError('presale', `Scenario runs on in-process Hardhat network, not on ${hre.network.name}`)
+    }
+    let scenario
+    try {
+      scenario = loadScenario(file)
+    } catch (error) {
+      throw new HardhatPluginError('presale', (error as Error).message)
+    }
+    await hre.run('compile', { quiet: true })
+    const result = await runScenario(hre, scenario)
+    console.log(formatSimulation(result))
+    if (out) {
+      fs.writeFileSync(
+        out,
+        JSON.stringify(result, (_, value) => (typeof value === 'bigint' ? value.toString() : value), 2) + '\n'
+      )
+      console.log('Result written: ', out)
+    }
+    if (result.failures.length > 0) {
+      throw new HardhatPluginError(
+        'presale',
+        `${result.failures.length} of ${result.timeline.length} steps differ from expected outcomes`
+      )
+    }
+  })
@@ -0,0 +1,169 @@
+import { task, types } from 'hardhat/config'
+import { HardhatPluginError } from 'hardhat/plugins'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { Interface, ZeroHash, hexlify, isHexString, parseEther, randomBytes } from 'ethers'
+import type { PresaleTimelock } from '../typechain-types'
+import { parseDuration } from '../scripts/utils/config'
+import { formatDate, formatEth } from '../scripts/utils/format'
+import { TimelockOperation, deployTimelock, describeCall, listOperations } from '../scripts/utils/timelock'
+import { ADDRESS_DESCRIPTION, getPresale, getTimelock, parseAddresses, sendTransaction } from './utils'
+
+const TIMELOCK_DESCRIPTION = 'Address of PresaleTimelock, taken from deployment manifest by default'
+
+function splitAddresses(value: string): string[] {
+  return parseAddresses(value.split(',').map((address) => address.trim()))
+}
+
+async function findOperation(timelock: PresaleTimelock, id: string): Promise<TimelockOperation> {
+  if (!isHexString(id, 32)) {
+    throw new HardhatPluginError('presale', `Invalid operation id: ${id}`)
+  }
+  const operation = (await listOperations(timelock)).find((item) => item.id === id.toLowerCase())
+  if (!operation) {
+    throw new HardhatPluginError('presale', `Operation ${id} is not scheduled on ${timelock.target}`)
+  }
+  return operation
+}
+
+async function printOperation(hre: HardhatRuntimeEnvironment, timelock: PresaleTimelock, operation: TimelockOperation) {
+  const interfaces = [(await hre.ethers.getContractFactory('Presale')).interface, timelock.interface]
+  console.log('Operation: ', operation.id)
+  console.log('  State: ', operation.state)
+  if (operation.state === 'waiting' || operation.state === 'ready') {
+    console.log('  ETA: ', formatDate(operation.eta))
+    console.log('  Approvals: ', `${operation.approvalCount} of ${await timelock.approvalThreshold()}`)
+  }
+  for (const call of operation.calls) {
+    const value = call.value > 0n ? ` with ${formatEth(call.value)}` : ''
+    console.log('  Call: ', `${call.target}.${describeCall(call, interfaces)}${value}`)
+  }
+}
+
+task('timelock:deploy', 'Deploys PresaleTimelock and optionally transfers ownership of Presale to it')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .addParam('proposers', 'Comma-separated addresses allowed to queue, approve and cancel operations')
+  .addOptionalParam('executors', 'Comma-separated addresses allowed to execute operations, proposers by default')
+  .addOptionalParam('delay', 'Minimum delay of operations: seconds or value like 2d', '2d')
+  .addOptionalParam('threshold', 'Number of proposers approving operation before execution', 1, types.int)
+  .addFlag('transfer', 'Transfer ownership of Presale to timelock and queue its acceptance')
+  .setAction(async ({ address, proposers, executors, delay, threshold, transfer }, hre) => {
+    const proposerAddresses = splitAddresses(proposers)
+    const minDelay = parseDuration(delay)
+    const { timelock, deployment } = await deployTimelock(hre, {
+      minDelay,
+      proposers: proposerAddresses,
+      executors: executors ? splitAddresses(executors) : proposerAddresses,
+      approvalThreshold: threshold
+    })
+    console.log('PresaleTimelock: ', deployment.address)
+    console.log('Transaction hash: ', deployment.transactionHash)
+    console.log('Min delay: ', `${minDelay}s`)
+    console.log('Approval threshold: ', `${threshold} of ${proposerAddresses.length}`)
+    if (!transfer) {
+      return
+    }
+    const presale = await getPresale(hre, address)
+    console.log('Transferring ownership of Presale: ', presale.target)
+    await sendTransaction(presale, () => presale.transferOwnership(deployment.address))
+    const [signer] = await hre.ethers.getSigners()
+    if (!(await timelock.hasRole(await timelock.PROPOSER_ROLE(), signer.address))) {
+      console.log('Ownership is pending, a proposer must queue acceptOwnership with timelock:queue')
+      return
+    }
+    await hre.run('timelock:queue', { address, timelock: deployment.address, function: 'acceptOwnership' })
+  })
+
+task('timelock:queue', 'Queues call of Presale or of timelock itself to execute after delay')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .addOptionalParam('timelock', TIMELOCK_DESCRIPTION)
+  .addParam('function', 'Name or signature of function, e.g. setSettings')
+  .addOptionalParam('args', 'Arguments of function as JSON array', '[]')
+  .addOptionalParam('value', 'Amount in ETH sent with call from balance of timelock', '0')
+  .addOptionalParam('delay', 'Delay: seconds or value like 2d, minimum delay by default')
+  .addOptionalParam('salt', 'Salt distinguishing equal operations, random by default')
+  .addOptionalParam('predecessor', 'Id of operation which must be executed before this one', ZeroHash)
+  .addFlag('self', 'Call timelock itself, e.g. to change delay, roles or approval threshold')
+  .setAction(async (taskArgs, hre) => {
+    const timelock = await getTimelock(hre, taskArgs.timelock)
+    const target = taskArgs.self ? timelock : await getPresale(hre, taskArgs.address)
+    let args: unknown[]
+    try {
+      args = JSON.parse(taskArgs.args)
+    } catch {
+      throw new HardhatPluginError('presale', `Invalid arguments: ${taskArgs.args}, expected JSON array`)
+    }
+    const contractInterface: Interface = target.interface
+    const fragment = contractInterface.getFunction(taskArgs.function)
+    if (!fragment || !Array.isArray(args)) {
+      throw new HardhatPluginError('presale', `Unknown function ${taskArgs.function} or arguments are not an array`)
+    }
+    const data = contractInterface.encodeFunctionData(fragment, args)
+    const value = parseEther(taskArgs.value)
+    const salt = taskArgs.salt ?? hexlify(randomBytes(32))
+    const delay = taskArgs.delay === undefined ? await timelock.getMinDelay() : BigInt(parseDuration(taskArgs.delay))
+    const id = await timelock.hashOperation(target.target, value, data, taskArgs.predecessor, salt)
+    console.log(`Queueing ${fragment.format()} on ${target.target}`)
+    await sendTransaction(timelock, () =>
+      timelock.schedule(target.target, value, data, taskArgs.predecessor, salt, delay)
+    )
+    console.log('Operation: ', id)
+    console.log('ETA: ', formatDate(await timelock.getTimestamp(id)))
+  })
+
+task('timelock:list', 'Prints operations of timelock pending execution')
+  .addOptionalParam('timelock', TIMELOCK_DESCRIPTION)
+  .addFlag('all', 'Print executed and cancelled operations too')
+  .setAction(async ({ timelock: timelockAddress, all }, hre) => {
+    const timelock = await getTimelock(hre, timelockAddress)
+    const operations = (await listOperations(timelock)).filter(
+      (operation) => all || operation.state === 'waiting' || operation.state === 'ready'
+    )
+    if (operations.length === 0) {
+      console.log('No operations')
+    }
+    for (const operation of operations) {
+      await printOperation(hre, timelock, operation)
+    }
+  })
+
+task('timelock:approve', 'Approves pending operation by proposer')
+  .addOptionalParam('timelock', TIMELOCK_DESCRIPTION)
+  .addParam('id', 'Id of operation')
+  .setAction(async ({ timelock: timelockAddress, id }, hre) => {
+    const timelock = await getTimelock(hre, timelockAddress)
+    await printOperation(hre, timelock, await findOperation(timelock, id))
+    await sendTransaction(timelock, () => timelock.approve(id))
+    console.log('Approvals: ', `${await timelock.getApprovalCount(id)} of ${await timelock.approvalThreshold()}`)
+  })
+
+task('timelock:execute', 'Executes operation whose delay has passed')
+  .addOptionalParam('timelock', TIMELOCK_DESCRIPTION)
+  .addParam('id', 'Id of operation')
+  .setAction(async ({ timelock: timelockAddress, id }, hre) => {
+    const timelock = await getTimelock(hre, timelockAddress)
+    const operation = await findOperation(timelock, id)
+    await printOperation(hre, timelock, operation)
+    const { calls, predecessor, salt } = operation
+    const presale = await getPresale(hre, calls[0].target)
+    await sendTransaction([timelock, presale], () => {
+      if (calls.length === 1) {
+        return timelock.execute(calls[0].target, calls[0].value, calls[0].data, predecessor, salt)
+      }
+      return timelock.executeBatch(
+        calls.map((call) => call.target),
+        calls.map((call) => call.value),
+        calls.map((call) => call.data),
+        predecessor,
+        salt
+      )
+    })
+  })
+
+task('timelock:cancel', 'Cancels pending operation, its approvals are dropped')
+  .addOptionalParam('timelock', TIMELOCK_DESCRIPTION)
+  .addParam('id', 'Id of operation')
+  .setAction(async ({ timelock: timelockAddress, id }, hre) => {
+    const timelock = await getTimelock(hre, timelockAddress)
+    await printOperation(hre, timelock, await findOperation(timelock, id))
+    await sendTransaction(timelock, () => timelock.cancel(id))
+  })
@@ -0,0 +1,35 @@
+import { task } from 'hardhat/config'
+import { HardhatPluginError } from 'hardhat/plugins'
+import { getDeployment, upgradePresale } from '../scripts/utils/deployment'
+import { getPresale, toTaskError } from './utils'
+
+task('presale:upgrade', 'Upgrades Presale behind proxy to new implementation, refused on incompatible storage layout')
+  .addOptionalParam('contract', 'Contract of new implementation', 'Presale')
+  .addFlag('dryRun', 'Check storage layout without deploying implementation')
+  .addFlag('verify', 'Verify new implementation on Etherscan')
+  .setAction(async ({ contract, dryRun, verify }, hre) => {
+    await hre.run('compile', { quiet: true })
+    const presale = await getPresale(hre)
+    const previousVersion = (await presale.VERSION()).toString()
+    const { deployment, upgraded } = await upgradePresale(hre, { contract, dryRun, verify }).catch((error) => {
+      throw toTaskError(error, presale)
+    })
+    if (!upgraded) {
+      console.log(`Storage layout of ${contract} is compatible with Presale at ${deployment.address}`)
+      return
+    }
+    console.log('Implementation: ', deployment.implementation)
+    console.log('VERSION: ', `${previousVersion} -> ${deployment.version}`)
+  })
+
+task('presale:versions', 'Prints implementations of Presale behind proxy recorded in deployment manifest').setAction(
+  async (_, hre) => {
+    const deployment = getDeployment(hre, 'Presale')
+    if (!deployment.versions) {
+      throw new HardhatPluginError('presale', `Presale at ${deployment.address} is not deployed behind proxy`)
+    }
+    deployment.versions.forEach(({ version, implementation, blockNumber, deployedAt }) =>
+      console.log(`v${version} ${implementation} block ${blockNumber} ${deployedAt}`)
+    )
+  }
+)
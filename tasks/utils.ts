@@ -0,0 +1,73 @@
+import { HardhatPluginError } from 'hardhat/plugins'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { BaseContract, ContractTransactionResponse, getAddress, isAddress } from 'ethers'
+import type { IERC20Metadata, Presale, PresaleDistributor, PresaleTimelock } from '../typechain-types'
+import { resolveContractAddress } from '../scripts/utils/deployment'
+import { decodeError } from '../scripts/utils/errors'
+
+export const ADDRESS_DESCRIPTION = 'Address of Presale, taken from deployment manifest by default'
+
+export async function getPresale(hre: HardhatRuntimeEnvironment, address?: string): Promise<Presale> {
+  const presaleAddress = resolveContractAddress(hre, 'Presale', address)
+  return (await hre.ethers.getContractAt('Presale', presaleAddress)) as unknown as Presale
+}
+
+export async function getTimelock(hre: HardhatRuntimeEnvironment, address?: string): Promise<PresaleTimelock> {
+  const timelockAddress = resolveContractAddress(hre, 'PresaleTimelock', address)
+  return (await hre.ethers.getContractAt('PresaleTimelock', timelockAddress)) as unknown as PresaleTimelock
+}
+
+export async function getDistributor(hre: HardhatRuntimeEnvironment, address?: string): Promise<PresaleDistributor> {
+  const distributorAddress = resolveContractAddress(hre, 'PresaleDistributor', address)
+  return (await hre.ethers.getContractAt('PresaleDistributor', distributorAddress)) as unknown as PresaleDistributor
+}
+
+export async function getToken(hre: HardhatRuntimeEnvironment, address: string): Promise<IERC20Metadata> {
+  return (await hre.ethers.getContractAt('IERC20Metadata', address)) as unknown as IERC20Metadata
+}
+
+/**
+ * Send transaction to contract and wait for it, custom errors of contracts are thrown as readable messages.
+ * @param contracts Contract receiving transaction, or contracts whose errors it may bubble up.
+ * @param transaction Function sending transaction.
+ */
+export async function sendTransaction(
+  contracts: BaseContract | BaseContract[],
+  transaction: () => Promise<ContractTransactionResponse>
+): Promise<void> {
+  try {
+    const tx = await transaction()
+    console.log('Transaction hash: ', tx.hash)
+    await tx.wait()
+  } catch (error) {
+    throw toTaskError(error, contracts)
+  }
+}
+
+/**
+ * Convert custom error of contracts to task error with readable message, other errors are returned as is.
+ * @param error Error thrown on call or transaction.
+ * @param contracts Contracts whose custom errors are decoded, the first one matching wins.
+ */
+export function toTaskError(error: unknown, contracts: BaseContract | BaseContract[]): unknown {
+  for (const contract of Array.isArray(contracts) ? contracts : [contracts]) {
+    const decoded = decodeError(error, contract.interface)
+    if (decoded) {
+      return new HardhatPluginError('presale', `${decoded.name}: ${decoded.message}`)
+    }
+  }
+  return error
+}
+
+export function parseAddresses(values: string[]): string[] {
+  return values.map((value) => {
+    if (!isAddress(value)) {
+      throw new HardhatPluginError('presale', `Invalid address: ${value}`)
+    }
+    return getAddress(value)
+  })
+}
+
+export async function latestTimestamp(hre: HardhatRuntimeEnvironment): Promise<number> {
+  return Number((await hre.ethers.provider.getBlock('latest'))?.timestamp)
+}
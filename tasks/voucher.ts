@@ -0,0 +1,87 @@
+import { task, types } from 'hardhat/config'
+import { HardhatPluginError } from 'hardhat/plugins'
+import fs from 'fs'
+import { hexlify, isAddress, parseEther, randomBytes, toBigInt } from 'ethers'
+import { parsePresaleDate } from '../scripts/utils/config'
+import { formatDiff, formatEth } from '../scripts/utils/format'
+import { PresaleRelayer } from '../scripts/utils/relayer'
+import { getVoucherDomain, serializeVoucher, signVoucher } from '../src/sdk/voucher'
+import { ADDRESS_DESCRIPTION, getPresale, latestTimestamp, sendTransaction } from './utils'
+
+task('presale:voucher', 'Signs voucher of gasless registration by owner or voucher signer')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .addParam('registrant', 'Address of registrant')
+  .addOptionalParam('fee', 'Fee in ETH paid by relayer instead of registration fee, 0 waives it', '0')
+  .addOptionalParam('nonce', 'Nonce of voucher, random by default')
+  .addOptionalParam('expiry', 'Expiry: unix timestamp, ISO date or relative value like now+1d', 'now+1d')
+  .addOptionalParam('out', 'Path to write signed voucher in JSON format, printed by default')
+  .setAction(async ({ address, registrant, fee, nonce, expiry, out }, hre) => {
+    if (!isAddress(registrant)) {
+      throw new HardhatPluginError('presale', `Invalid address: ${registrant}`)
+    }
+    const presale = await getPresale(hre, address)
+    const [signer] = await hre.ethers.getSigners()
+    const voucher = {
+      registrant,
+      fee: parseEther(fee),
+      nonce: nonce === undefined ? toBigInt(hexlify(randomBytes(16))) : BigInt(nonce),
+      expiry: BigInt(parsePresaleDate(expiry, await latestTimestamp(hre)))
+    }
+    const signature = await signVoucher(signer, await getVoucherDomain(presale), voucher)
+    const json = JSON.stringify(serializeVoucher(voucher, signature), null, 2) + '\n'
+    if (out) {
+      fs.writeFileSync(out, json)
+      console.log(`Voucher of ${registrant} written to ${out}`)
+    } else {
+      console.log(json)
+    }
+  })
+
+task('presale:voucher:signer', 'Sets signer of vouchers besides owner, zero address leaves only owner')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .addParam('signer', 'Address of signer')
+  .addFlag('dryRun', 'Print changes without sending transaction')
+  .setAction(async ({ address, signer, dryRun }, hre) => {
+    if (!isAddress(signer)) {
+      throw new HardhatPluginError('presale', `Invalid address: ${signer}`)
+    }
+    const presale = await getPresale(hre, address)
+    console.log(formatDiff([{ name: 'Voucher signer', current: await presale.voucherSigner(), next: signer }]))
+    if (dryRun) {
+      return
+    }
+    await sendTransaction(presale, () => presale.setVoucherSigner(signer))
+  })
+
+task('presale:voucher:invalidate', 'Invalidates nonce of voucher issued but not used yet')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .addParam('registrant', 'Address of registrant')
+  .addParam('nonce', 'Nonce of voucher')
+  .setAction(async ({ address, registrant, nonce }, hre) => {
+    const presale = await getPresale(hre, address)
+    console.log(`Invalidating voucher ${nonce} of ${registrant}`)
+    await sendTransaction(presale, () => presale.invalidateVoucher(registrant, BigInt(nonce)))
+  })
+
+task('presale:relayer', 'Runs HTTP relayer submitting vouchers of gasless registration')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .addOptionalParam('port', 'Port to listen', 8787, types.int)
+  .addOptionalParam('host', 'Host to listen', '127.0.0.1')
+  .addOptionalParam('maxFee', 'Maximum fee of voucher in ETH paid by relayer', '0')
+  .setAction(async ({ address, port, host, maxFee }, hre) => {
+    const presale = await getPresale(hre, address)
+    const relayer = new PresaleRelayer({
+      presale,
+      maxFee: parseEther(maxFee),
+      log: (message) => console.log(message)
+    })
+    const listening = await relayer.listen(port, host)
+    const [signer] = await hre.ethers.getSigners()
+    console.log('Presale: ', presale.target)
+    console.log('Relayer: ', signer.address)
+    console.log('Max fee: ', formatEth(parseEther(maxFee)))
+    console.log(`Listening on http://${listening.address}:${listening.port}, press Ctrl+C to stop`)
+    await new Promise<void>((resolve) => {
+      process.once('SIGINT', () => relayer.close().then(resolve, resolve))
+    })
+  })
@@ -0,0 +1,86 @@
+import fs from 'fs'
+import { task, types } from 'hardhat/config'
+import { HardhatPluginError } from 'hardhat/plugins'
+import { ActionType } from 'hardhat/types'
+import { buildWhitelistProofs } from '../src/sdk/merkle'
+import { WhitelistAction, parseAddressList, runWhitelistBatches } from '../scripts/utils/whitelist'
+import { ADDRESS_DESCRIPTION, getPresale, toTaskError } from './utils'
+
+interface WhitelistFileArgs {
+  address?: string
+  file: string
+  journal?: string
+  maxGas: number
+  batchSize?: number
+  dryRun: boolean
+}
+
+function whitelistFileAction(action: WhitelistAction): ActionType<WhitelistFileArgs> {
+  return async ({ address, file, journal, maxGas, batchSize, dryRun }, hre) => {
+    if (!fs.existsSync(file)) {
+      throw new HardhatPluginError('presale', `File is not found: ${file}`)
+    }
+    const presale = await getPresale(hre, address)
+    const list = parseAddressList(fs.readFileSync(file, 'utf8'))
+    const journalPath = journal ?? `${file}.${hre.network.name}.${action}.journal.json`
+
+    list.invalid.forEach(({ line, value, reason }) => console.log(`Line ${line}: ${value} - ${reason}`))
+    console.log('Valid addresses: ', list.addresses.length)
+    console.log('Duplicates: ', list.duplicates)
+    console.log('Invalid rows: ', list.invalid.length)
+    console.log('Journal: ', journalPath)
+
+    try {
+      const result = await runWhitelistBatches(presale, {
+        action,
+        addresses: list.addresses,
+        journalPath,
+        maxGas: BigInt(maxGas),
+        maxBatchSize: batchSize,
+        dryRun,
+        log: (message) => console.log(message)
+      })
+      console.log(`Skipped as already ${action === 'add' ? 'whitelisted' : 'not whitelisted'}: `, result.skipped)
+      console.log(`${dryRun ? 'To send' : 'Sent'}: `, dryRun ? list.addresses.length - result.skipped : result.sent)
+      console.log('Batches: ', result.batches)
+    } catch (error) {
+      throw toTaskError(error, presale)
+    }
+  }
+}
+
+task('whitelist:import', 'Adds addresses from CSV or newline separated file to whitelist of Presale')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .addParam('file', 'Path to file with addresses in the first column')
+  .addOptionalParam('journal', 'Path to progress journal, next to the file by default')
+  .addOptionalParam('maxGas', 'Gas limit of one batch transaction', 10_000_000, types.int)
+  .addOptionalParam('batchSize', 'Upper bound of addresses in one batch', undefined, types.int)
+  .addFlag('dryRun', 'Print plan of batches without sending transactions')
+  .setAction(whitelistFileAction('add'))
+
+task('whitelist:remove', 'Removes addresses from CSV or newline separated file from whitelist of Presale')
+  .addOptionalParam('address', ADDRESS_DESCRIPTION)
+  .addParam('file', 'Path to file with addresses in the first column')
+  .addOptionalParam('journal', 'Path to progress journal, next to the file by default')
+  .addOptionalParam('maxGas', 'Gas limit of one batch transaction', 10_000_000, types.int)
+  .addOptionalParam('batchSize', 'Upper bound of addresses in one batch', undefined, types.int)
+  .addFlag('dryRun', 'Print plan of batches without sending transactions')
+  .setAction(whitelistFileAction('remove'))
+
+task('whitelist:merkle', 'Builds Merkle root and proofs file of whitelist from CSV or newline separated file')
+  .addParam('file', 'Path to file with addresses in the first column')
+  .addOptionalParam('out', 'Path to proofs file, next to the file by default')
+  .setAction(async ({ file, out }) => {
+    if (!fs.existsSync(file)) {
+      throw new HardhatPluginError('presale', `File is not found: ${file}`)
+    }
+    const list = parseAddressList(fs.readFileSync(file, 'utf8'))
+    list.invalid.forEach(({ line, value, reason }) => console.log(`Line ${line}: ${value} - ${reason}`))
+    const whitelist = buildWhitelistProofs(list.addresses)
+    const proofsPath = out ?? `${file}.proofs.json`
+    fs.writeFileSync(proofsPath, JSON.stringify(whitelist, null, 2) + '\n')
+
+    console.log('Addresses: ', list.addresses.length)
+    console.log('Merkle root: ', whitelist.root)
+    console.log('Proofs: ', proofsPath)
+  })
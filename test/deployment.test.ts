@@ -0,0 +1,95 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { expect } from 'chai'
+import hre, { ethers } from 'hardhat'
+import { PresaleNetworkConfig, parsePresaleDate, resolvePresaleArgs } from '../scripts/utils/config'
+import { deployPresale, readManifest } from '../scripts/utils/deployment'
+
+describe('Deployment pipeline', function () {
+  const now = 1700000000
+  const config: PresaleNetworkConfig = {
+    startDate: 'now-2h',
+    endDate: 'now+5d',
+    maxRegistrations: 13,
+    registrationFee: '0.1',
+    whitelistStatusInit: false
+  }
+  let deploymentsDir: string
+
+  beforeEach(async () => {
+    deploymentsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deployments-'))
+  })
+
+  afterEach(async () => {
+    fs.rmSync(deploymentsDir, { recursive: true, force: true })
+  })
+
+  describe('Config', function () {
+    it('Should parse relative, ISO and unix dates', async function () {
+      expect(parsePresaleDate('now', now)).to.equal(now)
+      expect(parsePresaleDate('now+5d', now)).to.equal(now + 5 * 24 * 60 * 60)
+      expect(parsePresaleDate('now-2h', now)).to.equal(now - 2 * 60 * 60)
+      expect(parsePresaleDate('2023-11-14T22:13:20Z', now)).to.equal(now)
+      expect(parsePresaleDate(now, now)).to.equal(now)
+    })
+
+    it('Should not allow unknown dates', async function () {
+      expect(() => parsePresaleDate('tomorrow', now)).to.throw('Invalid date')
+      expect(() => parsePresaleDate(-1, now)).to.throw('Invalid date')
+    })
+
+    it('Should resolve config to constructor arguments', async function () {
+      expect(resolvePresaleArgs(config, now)).to.deep.equal([
+        BigInt(now - 2 * 60 * 60),
+        BigInt(now + 5 * 24 * 60 * 60),
+        BigInt(13),
+        ethers.parseEther('0.1'),
+        false
+      ])
+    })
+
+    it('Should not allow start date after end date', async function () {
+      expect(() => resolvePresaleArgs({ ...config, startDate: 'now+6d' }, now)).to.throw('Incorrect dates')
+    })
+
+    it('Should not allow incorrect max registrations and fee', async function () {
+      expect(() => resolvePresaleArgs({ ...config, maxRegistrations: 1.5 }, now)).to.throw('maxRegistrations')
+      expect(() => resolvePresaleArgs({ ...config, registrationFee: 'free' }, now)).to.throw('registrationFee')
+    })
+  })
+
+  describe('Deploy', function () {
+    it('Should deploy Presale and write manifest', async function () {
+      const { deployment, deployed } = await deployPresale(hre, { config, deploymentsDir })
+      const manifest = readManifest(hre.network.name, deploymentsDir)
+      const presale = await ethers.getContractAt('Presale', deployment.address)
+
+      expect(deployed).to.be.true
+      expect(manifest?.chainId).to.equal(31337)
+      expect(manifest?.contracts.Presale).to.deep.equal(deployment)
+      expect(deployment.version).to.equal('1')
+      expect(deployment.args[2]).to.equal('13')
+      expect(await presale.getSettings()).to.include.members([BigInt(13), ethers.parseEther('0.1')])
+    })
+
+    it('Should reuse existing deployment on re-run with the same config', async function () {
+      const first = await deployPresale(hre, { config, deploymentsDir })
+      const second = await deployPresale(hre, { config, deploymentsDir })
+
+      expect(second.deployed).to.be.false
+      expect(second.deployment.address).to.equal(first.deployment.address)
+    })
+
+    it('Should not allow re-run with another config without force', async function () {
+      await deployPresale(hre, { config, deploymentsDir })
+      const newConfig = { ...config, maxRegistrations: 20 }
+
+      await expect(deployPresale(hre, { config: newConfig, deploymentsDir })).to.be.rejectedWith('another config')
+
+      const { deployment, deployed } = await deployPresale(hre, { config: newConfig, deploymentsDir, force: true })
+      expect(deployed).to.be.true
+      expect(readManifest(hre.network.name, deploymentsDir)?.contracts.Presale.address).to.equal(deployment.address)
+    })
+  })
+})
@@ -0,0 +1,439 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { expect } from 'chai'
+import hre, { ethers, network } from 'hardhat'
+import { HardhatPluginError } from 'hardhat/plugins'
+import { ContractFactory, Signer, ZeroAddress } from 'ethers'
+import { MockERC20, Presale, PresaleDistributor } from '../typechain-types'
+import { ALLOCATION_MODES, previewAllocations, readRegistrations } from '../scripts/utils/distributor'
+
+describe('Distributor', function () {
+  let PresaleFactory: ContractFactory
+  let presale: Presale
+  let distributor: PresaleDistributor
+  let token: MockERC20
+  let owner: Signer
+  let addr1: Signer
+  let addr2: Signer
+  let addr3: Signer
+  let addr4: Signer
+  let addr1Address: string
+  let addr2Address: string
+  let addr3Address: string
+  let addr4Address: string
+  let distributorAddress: string
+  let endDate: number
+  let claimStart: number
+  let snapshot: string
+  const maxRegistrations = 13
+  const registrationFee = ethers.parseEther('0.1')
+  const allocation = ethers.parseEther('1000')
+  const { fixed, 'pro-rata': proRata } = ALLOCATION_MODES
+
+  beforeEach(async () => {
+    snapshot = await network.provider.send('evm_snapshot')
+    PresaleFactory = await ethers.getContractFactory('Presale')
+    ;[owner, addr1, addr2, addr3, addr4] = await ethers.getSigners()
+    ;[addr1Address, addr2Address, addr3Address, addr4Address] = await Promise.all(
+      [addr1, addr2, addr3, addr4].map((signer) => signer.getAddress())
+    )
+    const now = Number((await ethers.provider.getBlock('latest'))?.timestamp)
+    endDate = now + 60 * 60
+    claimStart = endDate + 60
+    presale = (await PresaleFactory.deploy(now - 60, endDate, maxRegistrations, registrationFee, false)) as Presale
+    token = (await ethers.deployContract('MockERC20', ['Presale Token', 'PRE', 18])) as unknown as MockERC20
+    distributor = (await ethers.deployContract('PresaleDistributor', [
+      await presale.getAddress(),
+      await token.getAddress()
+    ])) as unknown as PresaleDistributor
+    distributorAddress = await distributor.getAddress()
+    await token.mint(await owner.getAddress(), allocation * 100n)
+
+    await presale.connect(addr1).register({ value: registrationFee })
+    await presale.connect(addr2).register({ value: registrationFee * 2n })
+    await presale.connect(addr3).register({ value: registrationFee + 1n })
+  })
+
+  afterEach(async () => {
+    await network.provider.send('evm_revert', [snapshot])
+  })
+
+  /** Next transaction or mined block gets this timestamp, reverts are estimated on a block at it. */
+  async function at(timestamp: number) {
+    await network.provider.send('evm_setNextBlockTimestamp', [timestamp - 1])
+    await network.provider.send('hardhat_mine', ['0x1'])
+    await network.provider.send('evm_setNextBlockTimestamp', [timestamp])
+  }
+
+  describe('Settings', function () {
+    it('Should emit the correct event after changing allocation', async function () {
+      await expect(distributor.setAllocation(fixed, allocation, claimStart, 60, 600))
+        .to.emit(distributor, 'ChangedAllocation')
+        .withArgs(fixed, allocation, claimStart, 60, 600)
+    })
+
+    it('Should not allow non-owners to change allocation', async function () {
+      await expect(
+        distributor.connect(addr1).setAllocation(fixed, allocation, claimStart, 0, 0)
+      ).to.be.revertedWithCustomError(distributor, 'OwnableUnauthorizedAccount')
+    })
+
+    it('Should not allow empty allocation, claims before end date or cliff longer than vesting', async function () {
+      await expect(distributor.setAllocation(0, allocation, claimStart, 0, 0)).to.be.revertedWithCustomError(
+        distributor,
+        'InvalidAllocation'
+      )
+      await expect(distributor.setAllocation(fixed, 0, claimStart, 0, 0)).to.be.revertedWithCustomError(
+        distributor,
+        'InvalidAllocation'
+      )
+      await expect(distributor.setAllocation(fixed, allocation, endDate, 0, 0))
+        .to.be.revertedWithCustomError(distributor, 'InvalidClaimStart')
+        .withArgs(endDate, endDate)
+      await expect(distributor.setAllocation(fixed, allocation, claimStart, 61, 60))
+        .to.be.revertedWithCustomError(distributor, 'InvalidVesting')
+        .withArgs(61, 60)
+    })
+
+    it('Should not allow to change allocation once claims started', async function () {
+      await distributor.setAllocation(fixed, allocation, claimStart, 0, 0)
+      await at(claimStart)
+      await expect(distributor.setAllocation(fixed, allocation * 2n, claimStart + 60, 0, 0))
+        .to.be.revertedWithCustomError(distributor, 'ClaimsStarted')
+        .withArgs(claimStart)
+    })
+  })
+
+  describe('Fixed', function () {
+    beforeEach(async () => {
+      await distributor.setAllocation(fixed, allocation, claimStart, 0, 0)
+      await token.transfer(distributorAddress, allocation * 3n)
+    })
+
+    it('Should let every registrant claim its allocation once', async function () {
+      await at(claimStart)
+      for (const user of [addr1, addr2, addr3]) {
+        await expect(distributor.connect(user).claim())
+          .to.emit(distributor, 'Claimed')
+          .withArgs(await user.getAddress(), allocation)
+      }
+      await expect(distributor.connect(addr1).claim())
+        .to.be.revertedWithCustomError(distributor, 'NothingToClaim')
+        .withArgs(addr1Address)
+      expect(await token.balanceOf(distributorAddress)).to.equal(0)
+      expect(await distributor.getOutstandingAllocations()).to.equal(0)
+    })
+
+    it('Should not allow claims by unregistered addresses', async function () {
+      await at(claimStart)
+      await expect(distributor.connect(addr4).claim())
+        .to.be.revertedWithCustomError(distributor, 'UserIsNotRegistered')
+        .withArgs(addr4Address)
+      expect(await distributor.getAllocation(addr4Address)).to.equal(0)
+    })
+
+    it('Should not allow claims before claim start', async function () {
+      await at(claimStart - 1)
+      await expect(distributor.connect(addr1).claim())
+        .to.be.revertedWithCustomError(distributor, 'ClaimsNotStarted')
+        .withArgs(claimStart)
+    })
+
+    it('Should not allow claims while end date is moved past claim start', async function () {
+      await presale.setSettings(0, claimStart + 60, maxRegistrations, registrationFee)
+      await at(claimStart)
+      await expect(distributor.connect(addr1).claim()).to.be.revertedWithCustomError(distributor, 'ClaimsNotStarted')
+    })
+
+    it('Should not allow claims while refunds are open', async function () {
+      await presale.setMinRegistrations(4)
+      await at(claimStart)
+      await expect(distributor.connect(addr1).claim()).to.be.revertedWithCustomError(distributor, 'ClaimsLocked')
+    })
+
+    it('Should close claims for good when presale is cancelled after the first claim', async function () {
+      await at(claimStart)
+      await distributor.connect(addr1).claim()
+      await presale.cancelPresale()
+      await expect(distributor.connect(addr2).claim()).to.be.revertedWithCustomError(distributor, 'PresaleIsCancelled')
+      expect(await token.balanceOf(addr2Address)).to.equal(0)
+    })
+
+    it('Should not owe allocations to registrations reopened after the first claim', async function () {
+      await at(claimStart)
+      await expect(distributor.connect(addr1).claim())
+        .to.emit(distributor, 'AllocationsSnapshot')
+        .withArgs(claimStart, registrationFee * 4n + 1n, 3)
+      await presale.setSettings(0, claimStart + 60, maxRegistrations, registrationFee)
+      await presale.connect(addr4).register({ value: registrationFee })
+      await at(claimStart + 61)
+
+      expect(await distributor.getAllocation(addr4Address)).to.equal(0)
+      expect(await distributor.getOutstandingAllocations()).to.equal(allocation * 2n)
+      await expect(distributor.connect(addr4).claim())
+        .to.be.revertedWithCustomError(distributor, 'NothingToClaim')
+        .withArgs(addr4Address)
+      for (const user of [addr2, addr3]) {
+        await distributor.connect(user).claim()
+      }
+      expect(await token.balanceOf(distributorAddress)).to.equal(0)
+      expect(await distributor.getOutstandingAllocations()).to.equal(0)
+    })
+
+    it('Should report nothing claimable after refund of claimed allocation', async function () {
+      await at(claimStart)
+      await distributor.connect(addr1).claim()
+      await presale.cancelPresale()
+      await presale.connect(addr1).refund()
+
+      expect(await distributor.getAllocation(addr1Address)).to.equal(0)
+      expect(await distributor.getClaimable(addr1Address)).to.equal(0)
+    })
+
+    it('Should not count refunded registrations in outstanding allocations like preview', async function () {
+      await presale.cancelPresale()
+      await presale.connect(addr3).refund()
+      const registrations = await readRegistrations(presale, [addr1Address, addr2Address, addr3Address])
+
+      expect(await presale.getActiveRegistrationCount()).to.equal(2)
+      expect(await distributor.getOutstandingAllocations()).to.equal(allocation * 2n)
+      expect(previewAllocations(registrations, 'fixed', allocation).total).to.equal(allocation * 2n)
+    })
+
+    it('Should withdraw only tokens above outstanding allocations', async function () {
+      await token.transfer(distributorAddress, allocation / 2n)
+      await expect(distributor.withdrawUnallocated())
+        .to.emit(distributor, 'UnallocatedWithdrawal')
+        .withArgs(allocation / 2n)
+      await expect(distributor.withdrawUnallocated())
+        .to.be.revertedWithCustomError(distributor, 'NotEnoughTokens')
+        .withArgs(allocation * 3n, allocation * 3n)
+    })
+  })
+
+  describe('Pro rata', function () {
+    const pool = 1000n
+
+    beforeEach(async () => {
+      await distributor.setAllocation(proRata, pool, claimStart, 0, 0)
+      await token.transfer(distributorAddress, pool)
+    })
+
+    it('Should share pool by paid fee rounded down and leave dust below one unit per registrant', async function () {
+      const fees = registrationFee * 4n + 1n
+      const expected = [registrationFee, registrationFee * 2n, registrationFee + 1n].map((fee) => (pool * fee) / fees)
+      await at(claimStart)
+      for (const [index, user] of [addr1, addr2, addr3].entries()) {
+        await distributor.connect(user).claim()
+        expect(await token.balanceOf(await user.getAddress())).to.equal(expected[index])
+      }
+      const dust = await token.balanceOf(distributorAddress)
+      expect(dust).to.equal(pool - expected.reduce((sum, amount) => sum + amount, 0n))
+      expect(dust).to.be.above(0).and.below(3)
+      await expect(distributor.withdrawUnallocated()).to.be.revertedWithCustomError(distributor, 'NotEnoughTokens')
+    })
+
+    it('Should keep shares of the first claim when registrations reopen', async function () {
+      const fees = registrationFee * 4n + 1n
+      const expected = [registrationFee, registrationFee * 2n, registrationFee + 1n].map((fee) => (pool * fee) / fees)
+      await at(claimStart)
+      await distributor.connect(addr1).claim()
+      await presale.setSettings(0, claimStart + 60, maxRegistrations, registrationFee)
+      await presale.connect(addr4).register({ value: registrationFee })
+      await at(claimStart + 61)
+
+      expect(await distributor.snapshotTotalFees()).to.equal(fees)
+      expect(await distributor.getAllocation(addr4Address)).to.equal(0)
+      await expect(distributor.connect(addr4).claim()).to.be.revertedWithCustomError(distributor, 'NothingToClaim')
+      for (const [index, user] of [addr1, addr2, addr3].entries()) {
+        if (index > 0) {
+          await distributor.connect(user).claim()
+        }
+        expect(await token.balanceOf(await user.getAddress())).to.equal(expected[index])
+      }
+      expect(await token.balanceOf(distributorAddress)).to.equal(await distributor.getOutstandingAllocations())
+    })
+
+    it('Should allocate nothing when no fee is paid in ETH', async function () {
+      presale = (await PresaleFactory.deploy(endDate - 2 * 60 * 60, endDate, maxRegistrations, 0, false)) as Presale
+      await presale.connect(addr1).register()
+      distributor = (await ethers.deployContract('PresaleDistributor', [
+        await presale.getAddress(),
+        await token.getAddress()
+      ])) as unknown as PresaleDistributor
+      await distributor.setAllocation(proRata, pool, claimStart, 0, 0)
+      await token.transfer(await distributor.getAddress(), pool)
+
+      await at(claimStart)
+      expect(await distributor.getAllocation(addr1Address)).to.equal(0)
+      expect(await distributor.getClaimable(addr1Address)).to.equal(0)
+      await expect(distributor.connect(addr1).claim())
+        .to.be.revertedWithCustomError(distributor, 'NothingToClaim')
+        .withArgs(addr1Address)
+      const registrations = await readRegistrations(presale, [addr1Address])
+      expect(() => previewAllocations(registrations, 'pro-rata', pool)).to.throw(
+        'No fees are paid in ETH to share pool pro rata'
+      )
+    })
+
+    it('Should preview the same allocations and dust as the contract', async function () {
+      const registrations = await readRegistrations(presale, [addr1Address, addr2Address, addr3Address, addr1Address])
+      const { rows, total, dust } = previewAllocations(registrations, 'pro-rata', pool)
+      expect(rows).to.have.length(3)
+      for (const row of rows) {
+        expect(row.allocation).to.equal(await distributor.getAllocation(row.user))
+      }
+      expect(total + dust).to.equal(pool)
+      expect(dust).to.be.above(0)
+    })
+
+    it('Should not allow claims of registrants paid in token', async function () {
+      const feeToken = (await ethers.deployContract('MockERC20', ['USD Coin', 'USDC', 6])) as unknown as MockERC20
+      presale = (await PresaleFactory.deploy(
+        endDate - 2 * 60 * 60,
+        endDate,
+        maxRegistrations,
+        registrationFee,
+        false
+      )) as Presale
+      await presale.setFeeToken(await feeToken.getAddress(), 10)
+      await feeToken.mint(addr4Address, 10)
+      await feeToken.connect(addr4).approve(await presale.getAddress(), 10)
+      await presale.connect(addr4).registerWithToken([])
+      await presale.connect(addr1).register({ value: registrationFee })
+      distributor = (await ethers.deployContract('PresaleDistributor', [
+        await presale.getAddress(),
+        await token.getAddress()
+      ])) as unknown as PresaleDistributor
+      await distributor.setAllocation(proRata, pool, claimStart, 0, 0)
+      await token.transfer(await distributor.getAddress(), pool)
+
+      const registrations = await readRegistrations(presale, [addr4Address, addr1Address])
+      expect(previewAllocations(registrations, 'pro-rata', pool).rows).to.deep.equal([
+        {
+          user: addr4Address,
+          paidFee: 10n,
+          asset: await feeToken.getAddress(),
+          allocation: 0n,
+          excluded: 'paid in token'
+        },
+        { user: addr1Address, paidFee: registrationFee, asset: ZeroAddress, allocation: pool }
+      ])
+      await at(claimStart)
+      await expect(distributor.connect(addr4).claim())
+        .to.be.revertedWithCustomError(distributor, 'UnsupportedFeeAsset')
+        .withArgs(await feeToken.getAddress())
+      await expect(distributor.connect(addr1).claim()).to.emit(distributor, 'Claimed').withArgs(addr1Address, pool)
+    })
+  })
+
+  describe('Vesting', function () {
+    const cliff = 100
+    const duration = 1000
+
+    beforeEach(async () => {
+      await distributor.setAllocation(fixed, allocation, claimStart, cliff, duration)
+      await token.transfer(distributorAddress, allocation * 3n)
+    })
+
+    it('Should release nothing before cliff', async function () {
+      await at(claimStart + cliff - 1)
+      await expect(distributor.connect(addr1).claim()).to.be.revertedWithCustomError(distributor, 'NothingToClaim')
+    })
+
+    it('Should release linearly from claim start after cliff and the rest at the end', async function () {
+      await at(claimStart + cliff)
+      await expect(distributor.connect(addr1).claim())
+        .to.emit(distributor, 'Claimed')
+        .withArgs(addr1Address, (allocation * BigInt(cliff)) / BigInt(duration))
+      await at(claimStart + duration / 2)
+      await distributor.connect(addr1).claim()
+      expect(await distributor.getReleased(addr1Address)).to.equal(allocation / 2n)
+      await at(claimStart + duration + 1)
+      await distributor.connect(addr1).claim()
+      expect(await token.balanceOf(addr1Address)).to.equal(allocation)
+      expect(await distributor.getClaimable(addr1Address)).to.equal(0)
+    })
+  })
+
+  describe('Tasks', function () {
+    const log = console.log
+    let directory: string
+    let output: string[]
+
+    beforeEach(async () => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'distributor-'))
+      output = []
+      console.log = (...args: unknown[]) => output.push(args.join(' '))
+    })
+
+    afterEach(async () => {
+      console.log = log
+      fs.rmSync(directory, { recursive: true, force: true })
+    })
+
+    it('Should preview and export every allocation', async function () {
+      const out = path.join(directory, 'allocations.csv')
+      await hre.run('distributor:preview', {
+        address: await presale.getAddress(),
+        distributor: distributorAddress,
+        mode: 'fixed',
+        amount: '1000',
+        store: path.join(directory, 'store.json'),
+        fromBlock: Number((await presale.deploymentTransaction()?.wait())?.blockNumber),
+        format: 'csv',
+        out
+      })
+      expect(fs.readFileSync(out, 'utf8').trim().split('\n')).to.have.length(4)
+      expect(output).to.include('Total allocation:  3000.0 PRE')
+      expect(output).to.include('Distributor balance:  0.0 PRE')
+    })
+
+    it('Should fail pro rata preview without fees in ETH', async function () {
+      await presale.cancelPresale()
+      for (const user of [addr1, addr2, addr3]) {
+        await presale.connect(user).refund()
+      }
+      await expect(
+        hre.run('distributor:preview', {
+          address: await presale.getAddress(),
+          distributor: distributorAddress,
+          mode: 'pro-rata',
+          amount: '1000',
+          store: path.join(directory, 'store.json'),
+          fromBlock: Number((await presale.deploymentTransaction()?.wait())?.blockNumber),
+          format: 'csv'
+        })
+      ).to.be.rejectedWith(HardhatPluginError, 'No fees are paid in ETH to share pool pro rata')
+    })
+
+    it('Should configure and fund distributor', async function () {
+      await hre.run('distributor:configure', {
+        distributor: distributorAddress,
+        mode: 'pro-rata',
+        amount: '500',
+        start: claimStart.toString(),
+        cliff: '1d',
+        duration: '30d'
+      })
+      expect(await distributor.allocationMode()).to.equal(proRata)
+      expect(await distributor.vestingDuration()).to.equal(30 * 24 * 60 * 60)
+      await hre.run('distributor:fund', { distributor: distributorAddress })
+      expect(await token.balanceOf(distributorAddress)).to.equal(ethers.parseEther('500'))
+      await hre.run('distributor:fund', { distributor: distributorAddress })
+      expect(output).to.include('Distributor is funded')
+    })
+
+    it('Should fail configure with readable error', async function () {
+      await expect(
+        hre.run('distributor:configure', {
+          distributor: distributorAddress,
+          mode: 'fixed',
+          amount: '1',
+          start: endDate.toString()
+        })
+      ).to.be.rejectedWith(/InvalidClaimStart: Claim start .* is not after end date/)
+    })
+  })
+})
@@ -0,0 +1,314 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { expect } from 'chai'
+import hre, { ethers, network } from 'hardhat'
+import { Signer } from 'ethers'
+import { Presale, PresaleFactory } from '../typechain-types'
+import { IMPLEMENTATION_ARGS, readManifest } from '../scripts/utils/deployment'
+import { deployFactory } from '../scripts/utils/factory'
+import { PRESALE_STATUSES, PresaleClientError, PresaleFactoryClient, getVoucherDomain, signVoucher } from '../src/sdk'
+
+describe('Presale factory', function () {
+  let factory: PresaleFactory
+  let implementation: Presale
+  let owner: Signer
+  let addr1: Signer
+  let addr2: Signer
+  let addr3: Signer
+  let addr4: Signer
+  let addr1Address: string
+  let addr2Address: string
+  let addr3Address: string
+  let now: number
+  let snapshot: string
+  const maxRegistrations = 13
+  const registrationFee = ethers.parseEther('0.1')
+  const [upcoming, active, ended, paused] = PRESALE_STATUSES.map((_, index) => index)
+
+  async function createPresale(
+    signer: Signer,
+    startDate: number,
+    endDate: number,
+    max = maxRegistrations,
+    fee = registrationFee,
+    whitelistStatus = false
+  ): Promise<Presale> {
+    const tx = await factory.connect(signer).createPresale(startDate, endDate, max, fee, whitelistStatus)
+    const receipt = await tx.wait()
+    const [created] = (await factory.queryFilter(factory.filters.PresaleCreated(), receipt?.blockNumber)).slice(-1)
+    return (await ethers.getContractAt('Presale', created.args.presale)) as unknown as Presale
+  }
+
+  beforeEach(async () => {
+    snapshot = await network.provider.send('evm_snapshot')
+    ;[owner, addr1, addr2, addr3, addr4] = await ethers.getSigners()
+    ;[addr1Address, addr2Address, addr3Address] = await Promise.all(
+      [addr1, addr2, addr3].map((signer) => signer.getAddress())
+    )
+    implementation = (await ethers.deployContract('Presale', IMPLEMENTATION_ARGS)) as unknown as Presale
+    factory = (await ethers.deployContract('PresaleFactory', [
+      await implementation.getAddress()
+    ])) as unknown as PresaleFactory
+    now = Number((await ethers.provider.getBlock('latest'))?.timestamp)
+  })
+
+  afterEach(async () => {
+    await network.provider.send('evm_revert', [snapshot])
+  })
+
+  describe('Create', function () {
+    it('Should create presale owned by caller with given settings', async function () {
+      await expect(factory.connect(addr1).createPresale(now - 60, now + 600, maxRegistrations, registrationFee, true))
+        .to.emit(factory, 'PresaleCreated')
+        .withArgs(ethers.isAddress, addr1Address, now - 60, now + 600, maxRegistrations, registrationFee, true)
+      const [address] = await factory.getPresales()
+      const presale = await ethers.getContractAt('Presale', address)
+
+      expect(await presale.owner()).to.equal(addr1Address)
+      expect(await presale.getSettings()).to.deep.equal([
+        BigInt(now - 60),
+        BigInt(now + 600),
+        BigInt(maxRegistrations),
+        registrationFee
+      ])
+      expect(await presale.whitelistStatus()).to.be.true
+      expect(await presale.VERSION()).to.equal(1)
+      expect(await factory.isPresale(address)).to.be.true
+      expect(await factory.isPresale(implementation)).to.be.false
+      expect(await factory.getPresaleCount()).to.equal(1)
+    })
+
+    it('Should not allow initializing created presale or implementation again', async function () {
+      const presale = await createPresale(addr1, now - 60, now + 600)
+
+      for (const contract of [presale, implementation]) {
+        await expect(
+          contract.connect(addr2).initialize(addr2Address, now, now + 1, 1, 0, false)
+        ).to.be.revertedWithCustomError(contract, 'InvalidInitialization')
+      }
+      expect(await presale.owner()).to.equal(addr1Address)
+    })
+
+    it('Should not allow upgrading created presale', async function () {
+      const presale = await createPresale(addr1, now - 60, now + 600)
+      const newImplementation = await ethers.deployContract('MockPresaleV2', IMPLEMENTATION_ARGS)
+
+      await expect(presale.connect(addr1).upgradeToAndCall(newImplementation, '0x')).to.be.revertedWithCustomError(
+        presale,
+        'UUPSUnauthorizedCallContext'
+      )
+    })
+  })
+
+  describe('Registry', function () {
+    it('Should list presales by current owner', async function () {
+      const first = await createPresale(addr1, now - 60, now + 600)
+      const second = await createPresale(addr2, now - 60, now + 600)
+      const third = await createPresale(addr1, now - 60, now + 600)
+
+      expect(await factory.getPresales()).to.deep.equal([first.target, second.target, third.target])
+      expect(await factory.getPresalesByOwner(addr1Address)).to.deep.equal([first.target, third.target])
+      expect(await factory.getPresalesByOwner(addr3Address)).to.be.empty
+
+      await first.connect(addr1).transferOwnership(addr2Address)
+      await first.connect(addr2).acceptOwnership()
+      expect(await factory.getPresalesByOwner(addr1Address)).to.deep.equal([third.target])
+      expect(await factory.getPresalesByOwner(addr2Address)).to.deep.equal([first.target, second.target])
+    })
+
+    it('Should list presales by status', async function () {
+      const upcomingPresale = await createPresale(addr1, now + 600, now + 1200)
+      const activePresale = await createPresale(addr1, now - 60, now + 1200)
+      const endedPresale = await createPresale(addr1, now - 120, now - 60)
+      const pausedPresale = await createPresale(addr2, now - 60, now + 1200)
+      const cancelledPresale = await createPresale(addr2, now - 60, now + 1200)
+      await pausedPresale.connect(addr2).pause()
+      await cancelledPresale.connect(addr2).cancelPresale()
+
+      expect(await factory.getPresalesByStatus(upcoming)).to.deep.equal([upcomingPresale.target])
+      expect(await factory.getPresalesByStatus(active)).to.deep.equal([activePresale.target])
+      expect(await factory.getPresalesByStatus(ended)).to.deep.equal([endedPresale.target, cancelledPresale.target])
+      expect(await factory.getPresalesByStatus(paused)).to.deep.equal([pausedPresale.target])
+      expect(await factory.getStatus(pausedPresale)).to.equal(paused)
+
+      await network.provider.send('evm_setNextBlockTimestamp', [now + 1201])
+      await network.provider.send('evm_mine')
+      expect(await factory.getPresalesByStatus(active)).to.be.empty
+      expect(await factory.getPresalesByStatus(ended)).to.deep.equal([
+        upcomingPresale.target,
+        activePresale.target,
+        endedPresale.target,
+        cancelledPresale.target
+      ])
+      expect(await factory.getPresalesByStatus(paused)).to.deep.equal([pausedPresale.target])
+    })
+
+    it('Should not return status of unknown presale', async function () {
+      await expect(factory.getStatus(implementation))
+        .to.be.revertedWithCustomError(factory, 'UnknownPresale')
+        .withArgs(implementation.target)
+    })
+  })
+
+  describe('Isolation', function () {
+    it('Should keep registrations, fees and whitelist of presales apart', async function () {
+      const first = await createPresale(addr1, now - 60, now + 600)
+      const second = await createPresale(addr2, now - 60, now + 600, 1, registrationFee * 2n, true)
+
+      await first.connect(addr3).register({ value: registrationFee })
+      await expect(second.connect(addr3).register({ value: registrationFee * 2n }))
+        .to.be.revertedWithCustomError(second, 'UserIsNotWhitelisted')
+        .withArgs(addr3Address)
+      await second.connect(addr2).addBatchToWhitelist([addr3Address, await addr4.getAddress()])
+      await second.connect(addr3).register({ value: registrationFee * 2n })
+      await first.connect(addr4).register({ value: registrationFee })
+      await expect(second.connect(addr4).register({ value: registrationFee * 2n })).to.be.revertedWithCustomError(
+        second,
+        'RegistrationLimitExceeded'
+      )
+
+      expect(await first.getRegistrationCount()).to.equal(2)
+      expect(await second.getRegistrationCount()).to.equal(1)
+      expect((await first.checkRegistration(addr3Address)).paidFee).to.equal(registrationFee)
+      expect((await second.checkRegistration(addr3Address)).paidFee).to.equal(registrationFee * 2n)
+      expect(await first.isAddressWhitelisted(addr3Address)).to.be.false
+      expect(await ethers.provider.getBalance(first)).to.equal(registrationFee * 2n)
+      expect(await ethers.provider.getBalance(second)).to.equal(registrationFee * 2n)
+      expect(await ethers.provider.getBalance(implementation)).to.equal(0)
+
+      await first.connect(addr1).withdrawFunds(registrationFee * 2n)
+      await first.connect(addr1).pause()
+      expect(await ethers.provider.getBalance(second)).to.equal(registrationFee * 2n)
+      expect(await second.paused()).to.be.false
+    })
+
+    it('Should not allow owner of one presale to manage another', async function () {
+      await createPresale(addr1, now - 60, now + 600)
+      const second = await createPresale(addr2, now - 60, now + 600)
+
+      await expect(second.connect(addr1).pause()).to.be.revertedWithCustomError(second, 'OwnableUnauthorizedAccount')
+      await expect(second.connect(addr1).withdrawFunds(0))
+        .to.be.revertedWithCustomError(second, 'OwnableUnauthorizedAccount')
+        .withArgs(addr1Address)
+    })
+
+    it('Should not accept voucher signed for another presale of the same owner', async function () {
+      const first = await createPresale(addr1, now - 60, now + 600, maxRegistrations, registrationFee, true)
+      const second = await createPresale(addr1, now - 60, now + 600, maxRegistrations, registrationFee, true)
+      const voucher = { registrant: addr3Address, fee: 0n, nonce: 1n, expiry: BigInt(now + 300) }
+      const domain = await getVoucherDomain(first)
+
+      expect(domain.verifyingContract).to.equal(first.target)
+      expect((await getVoucherDomain(second)).verifyingContract).to.equal(second.target)
+      const signature = await signVoucher(addr1, domain, voucher)
+      await expect(second.connect(addr4).registerWithSignature(voucher, signature)).to.be.revertedWithCustomError(
+        second,
+        'InvalidVoucherSigner'
+      )
+      await first.connect(addr4).registerWithSignature(voucher, signature)
+      expect((await first.checkRegistration(addr3Address)).isRegistered).to.be.true
+    })
+  })
+
+  describe('SDK', function () {
+    it('Should create, list and inspect presales through factory', async function () {
+      const client = new PresaleFactoryClient(await factory.getAddress(), addr1)
+      const presale = await client.createPresale({
+        startDate: BigInt(now - 60),
+        endDate: BigInt(now + 600),
+        maxRegistrations: BigInt(maxRegistrations),
+        registrationFee,
+        whitelistStatus: false
+      })
+      const address = await presale.contract.getAddress()
+      await createPresale(addr2, now + 600, now + 1200)
+      await presale.contract.connect(addr3).register({ value: registrationFee })
+
+      expect(await client.getPresales({ owner: addr1Address })).to.deep.equal([address])
+      expect(await client.getPresales({ owner: addr1Address, status: 'upcoming' })).to.be.empty
+      expect(await client.getPresales()).to.have.length(2)
+      expect(await client.listPresales({ status: 'active' })).to.deep.equal([
+        {
+          address,
+          owner: addr1Address,
+          status: 'active',
+          startDate: BigInt(now - 60),
+          endDate: BigInt(now + 600),
+          maxRegistrations: BigInt(maxRegistrations),
+          registrationFee,
+          registrationCount: 1n,
+          whitelistStatus: false,
+          isCancelled: false
+        }
+      ])
+    })
+
+    it('Should throw structured error for unknown presale', async function () {
+      const client = new PresaleFactoryClient(await factory.getAddress(), ethers.provider)
+
+      await expect(client.getPresale(addr1Address))
+        .to.be.rejectedWith(PresaleClientError)
+        .and.eventually.have.deep.property('error', { name: 'UnknownPresale', presale: addr1Address })
+    })
+  })
+
+  describe('Tasks', function () {
+    const log = console.log
+    let output: string[]
+
+    beforeEach(async () => {
+      output = []
+      console.log = (...args: unknown[]) => output.push(args.join(' '))
+    })
+
+    afterEach(async () => {
+      console.log = log
+    })
+
+    it('Should create, list and inspect presales', async function () {
+      const address = await factory.getAddress()
+      await hre.run('factory:create', { factory: address, start: 'now-1h', end: 'now+1d', max: 5, fee: '0.2' })
+      const [presale] = await factory.getPresales()
+
+      expect(output).to.include(`Presale:  ${presale}`)
+      expect(await (await ethers.getContractAt('Presale', presale)).owner()).to.equal(await owner.getAddress())
+
+      output = []
+      await hre.run('factory:list', { factory: address, status: 'active' })
+      expect(output[0]).to.include(`${presale} active`)
+      expect(output[0]).to.include('registrations 0/5 fee 0.2 ETH')
+      expect(output).to.include('Presales:  1')
+
+      output = []
+      await hre.run('factory:inspect', { factory: address, presale })
+      expect(output).to.include('Registry status:  active')
+      expect(output).to.include('Registration fee:  0.2 ETH')
+    })
+
+    it('Should not create presale with incorrect dates or list unknown status', async function () {
+      const address = await factory.getAddress()
+
+      await expect(
+        hre.run('factory:create', { factory: address, start: 'now+2d', end: 'now+1d', max: 5, fee: '0.1' })
+      ).to.be.rejectedWith('Incorrect dates')
+      await expect(hre.run('factory:list', { factory: address, status: 'closed' })).to.be.rejectedWith(
+        'Unknown status: closed'
+      )
+    })
+
+    it('Should deploy factory and record it in manifest', async function () {
+      const deploymentsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deployments-'))
+      try {
+        const { deployment } = await deployFactory(hre, { deploymentsDir })
+        const deployed = await ethers.getContractAt('PresaleFactory', deployment.address)
+
+        expect(readManifest(hre.network.name, deploymentsDir)?.contracts.PresaleFactory).to.deep.equal(deployment)
+        expect(await deployed.implementation()).to.equal(deployment.implementation)
+        expect(deployment.version).to.equal('1')
+      } finally {
+        fs.rmSync(deploymentsDir, { recursive: true, force: true })
+      }
+    })
+  })
+})
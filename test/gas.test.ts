@@ -0,0 +1,98 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { expect } from 'chai'
+import hre from 'hardhat'
+import {
+  GasSnapshot,
+  WHITELIST_BATCH_SIZES,
+  compareGasSnapshots,
+  formatGasDiff,
+  measureGas,
+  readGasSnapshot
+} from '../scripts/utils/gas'
+
+describe('Gas', function () {
+  this.timeout(2 * 60 * 1000)
+
+  describe('Snapshot', function () {
+    it('Should not regress beyond 1% of committed snapshot', async function () {
+      const base = readGasSnapshot()
+      expect(base, 'gas-snapshot.json is missing, run npm run gas:snapshot').to.not.be.undefined
+      const entries = compareGasSnapshots(base as GasSnapshot, await measureGas(hre), 1)
+      const regressed = entries.filter((entry) => entry.regressed || entry.current === undefined)
+      expect(regressed, `gas regressed, run npm run gas:snapshot if expected\n${formatGasDiff(entries)}`).to.be.empty
+    })
+
+    it('Should measure deployment, calls and every batch size of whitelist', async function () {
+      const gas = await measureGas(hre)
+      expect(Object.keys(gas)).to.include.members([
+        'Presale deployment',
+        'Presale bytecode size',
+        'register',
+        'setSettings',
+        'withdrawFunds',
+        ...WHITELIST_BATCH_SIZES.map((size) => `addBatchToWhitelist(${size})`)
+      ])
+      expect(gas['Presale bytecode size']).to.be.below(24576)
+      expect(gas['addBatchToWhitelist(500)']).to.be.above(gas['addBatchToWhitelist(100)'])
+    })
+  })
+
+  describe('Compare', function () {
+    const base: GasSnapshot = { register: 100000, setSettings: 40000, removed: 1000 }
+
+    it('Should mark entries above threshold as regressed', async function () {
+      const entries = compareGasSnapshots(base, { register: 101500, setSettings: 40000, added: 5 }, 1)
+      expect(entries).to.deep.equal([
+        { name: 'register', base: 100000, current: 101500, change: 1.5, regressed: true },
+        { name: 'setSettings', base: 40000, current: 40000, change: 0, regressed: false },
+        { name: 'removed', base: 1000, current: undefined, change: 0, regressed: false },
+        { name: 'added', base: undefined, current: 5, change: 0, regressed: false }
+      ])
+    })
+
+    it('Should not mark improvements and increases within threshold', async function () {
+      const entries = compareGasSnapshots(base, { register: 100900, setSettings: 30000, removed: 1000 }, 1)
+      expect(entries.some((entry) => entry.regressed)).to.be.false
+    })
+
+    it('Should format diff with marks of changed and regressed entries', async function () {
+      const diff = formatGasDiff(compareGasSnapshots(base, { register: 101500, setSettings: 40000, added: 5 }, 1))
+      expect(diff.split('\n')).to.deep.equal([
+        '! register     100000  ->  101500  +1.50%',
+        '  setSettings   40000  ->   40000',
+        '* removed        1000  ->       -  removed',
+        '* added             -  ->       5  new'
+      ])
+    })
+  })
+
+  describe('Tasks', function () {
+    const log = console.log
+    let file: string
+
+    beforeEach(async () => {
+      file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'gas-')), 'gas-snapshot.json')
+      console.log = () => undefined
+    })
+
+    afterEach(async () => {
+      console.log = log
+      fs.rmSync(path.dirname(file), { recursive: true, force: true })
+    })
+
+    it('Should write snapshot and pass check against it', async function () {
+      await hre.run('gas:snapshot', { file })
+      expect(readGasSnapshot(file)).to.have.property('register')
+      await hre.run('gas:check', { file })
+    })
+
+    it('Should fail check when gas regressed', async function () {
+      await hre.run('gas:snapshot', { file })
+      const snapshot = readGasSnapshot(file) as GasSnapshot
+      fs.writeFileSync(file, JSON.stringify({ ...snapshot, register: Math.floor(snapshot.register * 0.9) }))
+      await expect(hre.run('gas:check', { file })).to.be.rejectedWith(/Gas regressed beyond 1%: register/)
+    })
+  })
+})
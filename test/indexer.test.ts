@@ -0,0 +1,158 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { expect } from 'chai'
+import { ethers, network } from 'hardhat'
+import { ContractFactory, Signer, ZeroAddress } from 'ethers'
+import { Presale } from '../typechain-types'
+import { PresaleIndexer, PresaleIndexerOptions } from '../scripts/utils/indexer'
+
+describe('Event indexer', function () {
+  let PresaleFactory: ContractFactory
+  let presale: Presale
+  let owner: Signer
+  let addr1: Signer
+  let addr2: Signer
+  let addr1Address: string
+  let addr2Address: string
+  let directory: string
+  let options: PresaleIndexerOptions
+  const startDate = Math.floor((new Date().getTime() - 2 * 60 * 60 * 1000) / 1000)
+  const endDate = Math.floor((new Date().getTime() + 5 * 24 * 60 * 60 * 1000) / 1000)
+  const maxRegistrations = 13
+  const registrationFee = ethers.parseEther('0.1')
+
+  beforeEach(async () => {
+    PresaleFactory = await ethers.getContractFactory('Presale')
+    ;[owner, addr1, addr2] = await ethers.getSigners()
+    addr1Address = await addr1.getAddress()
+    addr2Address = await addr2.getAddress()
+    presale = (await PresaleFactory.deploy(startDate, endDate, maxRegistrations, registrationFee, false)) as Presale
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'indexer-'))
+    options = {
+      presale: await presale.getAddress(),
+      provider: ethers.provider,
+      contractInterface: presale.interface,
+      storePath: path.join(directory, 'store.json'),
+      startBlock: Number((await presale.deploymentTransaction()?.wait())?.blockNumber),
+      chunkSize: 2,
+      confirmations: 5
+    }
+  })
+
+  afterEach(async () => {
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  describe('Backfill', function () {
+    it('Should index events of Presale in chunks', async function () {
+      await presale.connect(owner).addBatchToWhitelist([addr1Address, addr2Address])
+      await presale.connect(owner).removeFromWhitelist(addr2Address)
+      await presale.connect(owner).turnOnWhitelist()
+      await presale.connect(addr1).register({ value: registrationFee })
+      await presale.connect(owner).setSettings(startDate, endDate, maxRegistrations + 1, registrationFee)
+      await presale.connect(owner).withdrawFunds(registrationFee)
+
+      const indexer = new PresaleIndexer(options)
+      expect(await indexer.sync()).to.equal(9)
+      expect(indexer.store.lastBlock).to.equal(await ethers.provider.getBlockNumber())
+      expect(indexer.store.events.map((event) => event.name)).to.deep.equal([
+        'OwnershipTransferred',
+        'Initialized',
+        'AddedToWhitelist',
+        'AddedToWhitelist',
+        'RemovedFromWhitelist',
+        'WhitelistTurnedOn',
+        'Registered',
+        'ChangedSettings',
+        'Withdrawal'
+      ])
+      expect(indexer.whitelist()).to.deep.equal([addr1Address])
+      expect(indexer.eventsByName('Withdrawal')[0].args.amount).to.equal(registrationFee.toString())
+    })
+
+    it('Should list registrants', async function () {
+      const tx = await presale.connect(addr1).register({ value: registrationFee })
+      const block = await ethers.provider.getBlock(Number(tx.blockNumber))
+
+      const indexer = new PresaleIndexer(options)
+      await indexer.sync()
+      expect(indexer.registrants()).to.deep.equal([
+        {
+          user: addr1Address,
+          timestamp: block?.timestamp,
+          paidFee: registrationFee,
+          asset: ZeroAddress,
+          phase: 0,
+          blockNumber: tx.blockNumber,
+          transactionHash: tx.hash
+        }
+      ])
+    })
+
+    it('Should continue from persisted store', async function () {
+      await presale.connect(addr1).register({ value: registrationFee })
+      await new PresaleIndexer(options).sync()
+      await presale.connect(addr2).register({ value: registrationFee })
+
+      const indexer = new PresaleIndexer(options)
+      expect(indexer.registrants()).to.have.length(1)
+      expect(await indexer.sync()).to.equal(1)
+      expect(indexer.registrants().map((registrant) => registrant.user)).to.deep.equal([addr1Address, addr2Address])
+    })
+
+    it('Should not allow store of another Presale', async function () {
+      await new PresaleIndexer(options).sync()
+      expect(() => new PresaleIndexer({ ...options, presale: addr1Address })).to.throw('belongs to Presale')
+    })
+  })
+
+  describe('Reorg', function () {
+    it('Should rewind confirmation window when indexed block is replaced', async function () {
+      const snapshot = await network.provider.send('evm_snapshot')
+      await presale.connect(addr1).register({ value: registrationFee })
+      const indexer = new PresaleIndexer(options)
+      await indexer.sync()
+      expect(indexer.registrants().map((registrant) => registrant.user)).to.deep.equal([addr1Address])
+
+      await network.provider.send('evm_revert', [snapshot])
+      await network.provider.send('hardhat_mine', ['0x2'])
+      await presale.connect(addr2).register({ value: registrationFee })
+
+      await indexer.sync()
+      expect(indexer.registrants().map((registrant) => registrant.user)).to.deep.equal([addr2Address])
+      expect(indexer.store.lastBlockHash).to.equal((await ethers.provider.getBlock('latest'))?.hash)
+    })
+
+    it('Should drop events of blocks replaced deeper than confirmation window', async function () {
+      const snapshot = await network.provider.send('evm_snapshot')
+      await presale.connect(addr1).register({ value: registrationFee })
+      await network.provider.send('hardhat_mine', ['0xa'])
+      const indexer = new PresaleIndexer(options)
+      await indexer.sync()
+      expect(indexer.registrants().map((registrant) => registrant.user)).to.deep.equal([addr1Address])
+
+      await network.provider.send('evm_revert', [snapshot])
+      await network.provider.send('hardhat_mine', ['0xc'])
+      await presale.connect(addr2).register({ value: registrationFee })
+
+      await indexer.sync()
+      expect(indexer.registrants().map((registrant) => registrant.user)).to.deep.equal([addr2Address])
+      expect(indexer.store.lastBlockHash).to.equal((await ethers.provider.getBlock('latest'))?.hash)
+    })
+  })
+
+  describe('Follow', function () {
+    it('Should index new blocks until stopped', async function () {
+      const indexer = new PresaleIndexer(options)
+      const following = indexer.follow(20)
+      await presale.connect(addr1).register({ value: registrationFee })
+      while (indexer.registrants().length === 0) {
+        await new Promise((resolve) => setTimeout(resolve, 20))
+      }
+      indexer.stop()
+      await following
+      expect(indexer.registrants()[0].user).to.equal(addr1Address)
+    })
+  })
+})
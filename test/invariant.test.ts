@@ -0,0 +1,347 @@
+import fc from 'fast-check'
+import { expect } from 'chai'
+import { ethers, network } from 'hardhat'
+import { ContractTransactionResponse, Signer } from 'ethers'
+import { Presale } from '../typechain-types'
+import { decodePresaleError } from '../src/sdk'
+
+/** Number of random sequences, `FUZZ_RUNS` runs a longer campaign. */
+const NUM_RUNS = Number(process.env.FUZZ_RUNS ?? 25)
+/** Seed, path and replay path printed by fast-check on failure, set them to replay the shrunk sequence. */
+const SEED = process.env.FUZZ_SEED === undefined ? undefined : Number(process.env.FUZZ_SEED)
+const PATH = process.env.FUZZ_PATH
+const REPLAY_PATH = process.env.FUZZ_REPLAY_PATH
+const SIGNERS = 5
+const DAY = 24 * 60 * 60
+
+/** Ghost accounting of successful transactions, compared with contract after every step. */
+interface Model {
+  registered: Set<string>
+  totalFees: bigint
+  totalWithdrawals: bigint
+}
+
+interface Real {
+  presale: Presale
+  signers: Signer[]
+}
+
+/** State changed only by owner, or by pending owner accepting ownership. */
+async function readConfig(presale: Presale) {
+  const [settings, paused, whitelistStatus, whitelist, pendingOwner] = await Promise.all([
+    presale.getSettings(),
+    presale.paused(),
+    presale.whitelistStatus(),
+    Promise.all(
+      (await ethers.getSigners()).slice(0, SIGNERS).map((signer) => presale.isAddressWhitelisted(signer.address))
+    ),
+    presale.pendingOwner()
+  ])
+  return JSON.stringify([settings, paused, whitelistStatus, whitelist, pendingOwner], (_, value) =>
+    typeof value === 'bigint' ? value.toString() : value
+  )
+}
+
+/**
+ * Send transaction and wait for it.
+ * @return Receipt or undefined when contract reverts with its custom error, other errors are thrown.
+ */
+async function attempt(presale: Presale, transaction: () => Promise<ContractTransactionResponse>) {
+  try {
+    return await (await transaction()).wait()
+  } catch (error) {
+    if (!decodePresaleError(error, presale.interface)) {
+      throw error
+    }
+    return undefined
+  }
+}
+
+/** Command sent by one of signers, config may change only when the sender is owner. */
+abstract class SignerCommand implements fc.AsyncCommand<Model, Real> {
+  constructor(readonly sender: number) {}
+
+  check(): boolean {
+    return true
+  }
+
+  async run(model: Model, real: Real): Promise<void> {
+    const { presale } = real
+    const signer = real.signers[this.sender]
+    const [owner, config] = await Promise.all([presale.owner(), readConfig(presale)])
+    const receipt = await attempt(presale, () => this.send(presale.connect(signer), model))
+    if (receipt) {
+      this.apply?.(model, await signer.getAddress())
+    }
+    if ((await readConfig(presale)) !== config) {
+      expect(await signer.getAddress(), `config changed by ${this}`).to.equal(owner)
+    }
+  }
+
+  /** Update ghost accounting after successful transaction. */
+  apply?(model: Model, sender: string): void
+
+  abstract send(presale: Presale, model: Model): Promise<ContractTransactionResponse>
+
+  abstract toString(): string
+}
+
+class RegisterCommand extends SignerCommand {
+  constructor(
+    sender: number,
+    readonly feeRatio: number
+  ) {
+    super(sender)
+  }
+
+  private value = 0n
+
+  async send(presale: Presale) {
+    this.value = ((await presale.registrationFee()) * BigInt(this.feeRatio)) / 2n
+    return presale.register({ value: this.value })
+  }
+
+  apply(model: Model, sender: string) {
+    expect(model.registered.has(sender), `${sender} registered twice`).to.be.false
+    model.registered.add(sender)
+    model.totalFees += this.value
+  }
+
+  toString() {
+    return `register(signer ${this.sender}, fee x${this.feeRatio / 2})`
+  }
+}
+
+class SetSettingsCommand extends SignerCommand {
+  constructor(
+    sender: number,
+    readonly startOffset: number,
+    readonly duration: number,
+    readonly maxRegistrations: number,
+    readonly fee: bigint
+  ) {
+    super(sender)
+  }
+
+  async send(presale: Presale) {
+    const now = Number((await ethers.provider.getBlock('latest'))?.timestamp)
+    const startDate = now + this.startOffset
+    return presale.setSettings(startDate, startDate + this.duration, this.maxRegistrations, this.fee)
+  }
+
+  toString() {
+    return `setSettings(signer ${this.sender}, start now${this.startOffset >= 0 ? '+' : ''}${this.startOffset}, duration ${this.duration}, max ${this.maxRegistrations}, fee ${this.fee})`
+  }
+}
+
+class PauseCommand extends SignerCommand {
+  constructor(
+    sender: number,
+    readonly pause: boolean
+  ) {
+    super(sender)
+  }
+
+  send(presale: Presale) {
+    return this.pause ? presale.pause() : presale.unpause()
+  }
+
+  toString() {
+    return `${this.pause ? 'pause' : 'unpause'}(signer ${this.sender})`
+  }
+}
+
+class WhitelistCommand extends SignerCommand {
+  constructor(
+    sender: number,
+    readonly action: 'on' | 'off' | 'add' | 'remove',
+    readonly user: number
+  ) {
+    super(sender)
+  }
+
+  async send(presale: Presale) {
+    const user = (await ethers.getSigners())[this.user].address
+    const actions = {
+      on: () => presale.turnOnWhitelist(),
+      off: () => presale.turnOffWhitelist(),
+      add: () => presale.addToWhiteList(user),
+      remove: () => presale.removeFromWhitelist(user)
+    }
+    return actions[this.action]()
+  }
+
+  toString() {
+    return `whitelist ${this.action}(signer ${this.sender}${this.action === 'add' || this.action === 'remove' ? `, user ${this.user}` : ''})`
+  }
+}
+
+class WithdrawCommand extends SignerCommand {
+  constructor(
+    sender: number,
+    readonly percent: number
+  ) {
+    super(sender)
+  }
+
+  private amount = 0n
+
+  async send(presale: Presale) {
+    this.amount = ((await ethers.provider.getBalance(presale.target)) * BigInt(this.percent)) / 100n
+    return presale.withdrawFunds(this.amount)
+  }
+
+  apply(model: Model) {
+    model.totalWithdrawals += this.amount
+  }
+
+  toString() {
+    return `withdrawFunds(signer ${this.sender}, ${this.percent}% of balance)`
+  }
+}
+
+class TransferOwnershipCommand extends SignerCommand {
+  constructor(
+    sender: number,
+    readonly newOwner: number
+  ) {
+    super(sender)
+  }
+
+  async send(presale: Presale) {
+    return presale.transferOwnership((await ethers.getSigners())[this.newOwner].address)
+  }
+
+  toString() {
+    return `transferOwnership(signer ${this.sender}, to signer ${this.newOwner})`
+  }
+}
+
+class AcceptOwnershipCommand implements fc.AsyncCommand<Model, Real> {
+  constructor(readonly sender: number) {}
+
+  check() {
+    return true
+  }
+
+  async run(_: Model, { presale, signers }: Real) {
+    const signer = signers[this.sender]
+    const [owner, pendingOwner] = await Promise.all([presale.owner(), presale.pendingOwner()])
+    await attempt(presale, () => presale.connect(signer).acceptOwnership())
+    if ((await presale.owner()) !== owner) {
+      expect(await signer.getAddress(), 'ownership accepted not by pending owner').to.equal(pendingOwner)
+    }
+  }
+
+  toString() {
+    return `acceptOwnership(signer ${this.sender})`
+  }
+}
+
+class TimeJumpCommand implements fc.AsyncCommand<Model, Real> {
+  constructor(readonly seconds: number) {}
+
+  check() {
+    return true
+  }
+
+  async run() {
+    await network.provider.send('evm_increaseTime', [this.seconds])
+    await network.provider.send('hardhat_mine', ['0x1'])
+  }
+
+  toString() {
+    return `timeJump(${this.seconds}s)`
+  }
+}
+
+async function checkInvariants(model: Model, { presale }: Real) {
+  const [settings, registrationCount, balance] = await Promise.all([
+    presale.getSettings(),
+    presale.getRegistrationCount(),
+    ethers.provider.getBalance(presale.target)
+  ])
+  expect(registrationCount, 'registration count is above max registrations').to.be.at.most(settings[2])
+  expect(registrationCount, 'registration count differs from registrants').to.equal(BigInt(model.registered.size))
+  expect(balance, 'balance differs from fees minus withdrawals').to.equal(model.totalFees - model.totalWithdrawals)
+  for (const user of model.registered) {
+    expect((await presale.checkRegistration(user)).isRegistered, `${user} lost registration`).to.be.true
+  }
+}
+
+const signer = fc.integer({ min: 0, max: SIGNERS - 1 })
+/** Owner sends half of commands, so that config changes are not rejected most of the time. */
+const sender = fc.oneof(fc.constant(0), signer)
+
+const commands = [
+  fc.tuple(signer, fc.integer({ min: 1, max: 4 })).map(([user, feeRatio]) => new RegisterCommand(user, feeRatio)),
+  fc
+    .tuple(
+      sender,
+      fc.integer({ min: -3 * DAY, max: DAY }),
+      fc.integer({ min: -60, max: 4 * DAY }),
+      fc.integer({ min: 0, max: 6 }),
+      fc.constantFrom(0n, ethers.parseEther('0.05'), ethers.parseEther('0.1'))
+    )
+    .map((args) => new SetSettingsCommand(...args)),
+  fc.tuple(sender, fc.boolean()).map(([user, pause]) => new PauseCommand(user, pause)),
+  fc
+    .tuple(sender, fc.constantFrom('on' as const, 'off' as const, 'add' as const, 'remove' as const), signer)
+    .map((args) => new WhitelistCommand(...args)),
+  fc.tuple(sender, fc.integer({ min: 0, max: 120 })).map(([user, percent]) => new WithdrawCommand(user, percent)),
+  fc.tuple(sender, signer).map(([user, newOwner]) => new TransferOwnershipCommand(user, newOwner)),
+  signer.map((user) => new AcceptOwnershipCommand(user)),
+  fc.integer({ min: 1, max: 2 * DAY }).map((seconds) => new TimeJumpCommand(seconds))
+]
+
+describe('Presale invariants', function () {
+  this.timeout(10 * 60 * 1000)
+  let presale: Presale
+  let signers: Signer[]
+
+  before(async () => {
+    signers = (await ethers.getSigners()).slice(0, SIGNERS)
+    const now = Number((await ethers.provider.getBlock('latest'))?.timestamp)
+    presale = (await ethers.deployContract('Presale', [
+      now - 60 * 60,
+      now + 2 * DAY,
+      5,
+      ethers.parseEther('0.1'),
+      false
+    ])) as unknown as Presale
+  })
+
+  it('Should keep invariants for random sequences of calls', async function () {
+    await fc.assert(
+      fc.asyncProperty(fc.commands(commands, { maxCommands: 30, replayPath: REPLAY_PATH }), async (sequence) => {
+        const snapshot = await network.provider.send('evm_snapshot')
+        try {
+          const model: Model = { registered: new Set(), totalFees: 0n, totalWithdrawals: 0n }
+          const real: Real = { presale, signers }
+          await fc.asyncModelRun(() => ({ model, real }), wrapWithInvariants(sequence))
+        } finally {
+          await network.provider.send('evm_revert', [snapshot])
+        }
+      }),
+      { numRuns: NUM_RUNS, seed: SEED, path: PATH, endOnFailure: false }
+    )
+  })
+})
+
+/** Check invariants after every command, so the shrunk sequence ends at the first broken step. */
+function wrapWithInvariants(sequence: Iterable<fc.AsyncCommand<Model, Real>>): Iterable<fc.AsyncCommand<Model, Real>> {
+  return {
+    [Symbol.iterator]: function* () {
+      for (const command of sequence) {
+        yield {
+          check: (model: Readonly<Model>) => command.check(model),
+          run: async (model: Model, real: Real) => {
+            await command.run(model, real)
+            await checkInvariants(model, real)
+          },
+          toString: () => command.toString()
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { ContractFactory, Signer, ZeroHash } from 'ethers'
+import { Presale } from '../typechain-types'
+import { WhitelistProofs, buildWhitelistProofs, getWhitelistProof, verifyWhitelistProof } from '../src/sdk'
+
+describe('Merkle whitelist', function () {
+  let PresaleFactory: ContractFactory
+  let presale: Presale
+  let owner: Signer
+  let addr1: Signer
+  let addr2: Signer
+  let addr3: Signer
+  let addr1Address: string
+  let addr2Address: string
+  let addr3Address: string
+  let whitelist: WhitelistProofs
+  const startDate = Math.floor((new Date().getTime() - 2 * 60 * 60 * 1000) / 1000)
+  const endDate = Math.floor((new Date().getTime() + 5 * 24 * 60 * 60 * 1000) / 1000)
+  const maxRegistrations = 13
+  const registrationFee = ethers.parseEther('0.1')
+
+  beforeEach(async () => {
+    PresaleFactory = await ethers.getContractFactory('Presale')
+    ;[owner, addr1, addr2, addr3] = await ethers.getSigners()
+    addr1Address = await addr1.getAddress()
+    addr2Address = await addr2.getAddress()
+    addr3Address = await addr3.getAddress()
+    presale = (await PresaleFactory.deploy(startDate, endDate, maxRegistrations, registrationFee, true)) as Presale
+    whitelist = buildWhitelistProofs([addr1Address, addr2Address, ethers.Wallet.createRandom().address])
+    await presale.connect(owner).setMerkleRoot(whitelist.root)
+  })
+
+  describe('Tree builder', function () {
+    it('Should build proofs verified by contract', async function () {
+      const proof = getWhitelistProof(whitelist, addr1Address.toLowerCase()) as string[]
+      expect(verifyWhitelistProof(whitelist.root, addr1Address, proof)).to.be.true
+      expect(await presale.isAddressWhitelistedWithProof(addr1Address, proof)).to.be.true
+    })
+
+    it('Should not find proof of address out of whitelist', async function () {
+      expect(getWhitelistProof(whitelist, addr3Address)).to.be.undefined
+    })
+
+    it('Should not allow empty whitelist', async function () {
+      expect(() => buildWhitelistProofs([])).to.throw('at least one address')
+    })
+  })
+
+  describe('Management', function () {
+    it('Should emit the correct event after changing Merkle root', async function () {
+      await expect(presale.connect(owner).setMerkleRoot(ZeroHash))
+        .to.emit(presale, 'MerkleRootChanged')
+        .withArgs(whitelist.root, ZeroHash)
+      expect(await presale.merkleRoot()).to.equal(ZeroHash)
+    })
+
+    it('Should not allow non-owners to change Merkle root', async function () {
+      await expect(presale.connect(addr1).setMerkleRoot(ZeroHash)).to.be.revertedWithCustomError(
+        presale,
+        'OwnableUnauthorizedAccount'
+      )
+    })
+  })
+
+  describe('Registration with proof', function () {
+    it('Should register user with valid proof', async function () {
+      const proof = getWhitelistProof(whitelist, addr1Address) as string[]
+      await presale.connect(addr1).registerWithProof(proof, { value: registrationFee })
+      expect((await presale.checkRegistration(addr1Address)).isRegistered).to.be.true
+    })
+
+    it('Should not register user with proof of another address', async function () {
+      const proof = getWhitelistProof(whitelist, addr2Address) as string[]
+      await expect(presale.connect(addr1).registerWithProof(proof, { value: registrationFee }))
+        .to.be.revertedWithCustomError(presale, 'UserIsNotWhitelisted')
+        .withArgs(addr1Address)
+    })
+
+    it('Should not register user out of whitelist', async function () {
+      const proof = getWhitelistProof(whitelist, addr1Address) as string[]
+      await expect(presale.connect(addr3).registerWithProof(proof, { value: registrationFee }))
+        .to.be.revertedWithCustomError(presale, 'UserIsNotWhitelisted')
+        .withArgs(addr3Address)
+    })
+
+    it('Should not register user with proof of stale root', async function () {
+      const staleProof = getWhitelistProof(whitelist, addr1Address) as string[]
+      const newWhitelist = buildWhitelistProofs([addr1Address, addr3Address])
+      await presale.connect(owner).setMerkleRoot(newWhitelist.root)
+      await expect(
+        presale.connect(addr1).registerWithProof(staleProof, { value: registrationFee })
+      ).to.be.revertedWithCustomError(presale, 'UserIsNotWhitelisted')
+
+      const proof = getWhitelistProof(newWhitelist, addr1Address) as string[]
+      await presale.connect(addr1).registerWithProof(proof, { value: registrationFee })
+      expect((await presale.checkRegistration(addr1Address)).isRegistered).to.be.true
+    })
+
+    it('Should keep other checks of registration', async function () {
+      const proof = getWhitelistProof(whitelist, addr1Address) as string[]
+      await presale.connect(owner).pause()
+      await expect(
+        presale.connect(addr1).registerWithProof(proof, { value: registrationFee })
+      ).to.be.revertedWithCustomError(presale, 'EnforcedPause')
+    })
+
+    it('Should register anyone with any proof if whitelist is off', async function () {
+      await presale.connect(owner).turnOffWhitelist()
+      await presale.connect(addr3).registerWithProof([], { value: registrationFee })
+      expect((await presale.checkRegistration(addr3Address)).isRegistered).to.be.true
+    })
+  })
+
+  describe('Switching modes', function () {
+    it('Should not accept mapping whitelist in Merkle mode', async function () {
+      await presale.connect(owner).addToWhiteList(addr3Address)
+      await expect(presale.connect(addr3).register({ value: registrationFee }))
+        .to.be.revertedWithCustomError(presale, 'UserIsNotWhitelisted')
+        .withArgs(addr3Address)
+      await expect(
+        presale.connect(addr3).registerWithProof([], { value: registrationFee })
+      ).to.be.revertedWithCustomError(presale, 'UserIsNotWhitelisted')
+    })
+
+    it('Should not register without proof in Merkle mode', async function () {
+      await expect(presale.connect(addr1).register({ value: registrationFee }))
+        .to.be.revertedWithCustomError(presale, 'UserIsNotWhitelisted')
+        .withArgs(addr1Address)
+    })
+
+    it('Should switch back to mapping mode with zero root', async function () {
+      await presale.connect(owner).addToWhiteList(addr3Address)
+      await presale.connect(owner).setMerkleRoot(ZeroHash)
+      await presale.connect(addr3).register({ value: registrationFee })
+      expect((await presale.checkRegistration(addr3Address)).isRegistered).to.be.true
+
+      const proof = getWhitelistProof(whitelist, addr1Address) as string[]
+      await expect(
+        presale.connect(addr1).registerWithProof(proof, { value: registrationFee })
+      ).to.be.revertedWithCustomError(presale, 'UserIsNotWhitelisted')
+    })
+  })
+})
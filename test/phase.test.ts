@@ -0,0 +1,363 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { expect } from 'chai'
+import hre, { ethers, network } from 'hardhat'
+import { ContractFactory, Signer } from 'ethers'
+import { MockERC20, Presale } from '../typechain-types'
+import { PhaseConfig, PresalePhase, resolvePhases } from '../scripts/utils/config'
+
+describe('Phases', function () {
+  let PresaleFactory: ContractFactory
+  let presale: Presale
+  let owner: Signer
+  let addr1: Signer
+  let addr2: Signer
+  let addr3: Signer
+  let addr1Address: string
+  let addr2Address: string
+  let snapshot: string
+  let now: number
+  let startDate: number
+  let endDate: number
+  let phases: PresalePhase[]
+  const maxRegistrations = 13
+  const registrationFee = ethers.parseEther('0.1')
+  const earlyFee = ethers.parseEther('0.05')
+
+  beforeEach(async () => {
+    snapshot = await network.provider.send('evm_snapshot')
+    PresaleFactory = await ethers.getContractFactory('Presale')
+    ;[owner, addr1, addr2, addr3] = await ethers.getSigners()
+    addr1Address = await addr1.getAddress()
+    addr2Address = await addr2.getAddress()
+    now = Number((await ethers.provider.getBlock('latest'))?.timestamp)
+    startDate = now - 60
+    endDate = now + 600
+    presale = (await PresaleFactory.deploy(startDate, endDate, maxRegistrations, registrationFee, false)) as Presale
+    phases = [
+      {
+        startDate: BigInt(now + 100),
+        endDate: BigInt(now + 200),
+        maxRegistrations: 2n,
+        registrationFee: earlyFee,
+        tokenRegistrationFee: 0n,
+        isWhitelistRequired: true
+      },
+      {
+        startDate: BigInt(now + 201),
+        endDate: BigInt(now + 300),
+        maxRegistrations: 10n,
+        registrationFee,
+        tokenRegistrationFee: 0n,
+        isWhitelistRequired: false
+      },
+      {
+        startDate: BigInt(now + 400),
+        endDate: BigInt(endDate),
+        maxRegistrations: 10n,
+        registrationFee: registrationFee * 2n,
+        tokenRegistrationFee: 0n,
+        isWhitelistRequired: false
+      }
+    ]
+    await presale.connect(owner).addBatchToWhitelist([addr1Address, addr2Address])
+    await presale.connect(owner).setPhases(phases)
+  })
+
+  afterEach(async () => {
+    await network.provider.send('evm_revert', [snapshot])
+  })
+
+  /** Set timestamp of the next transaction. */
+  async function at(timestamp: bigint | number) {
+    await network.provider.send('evm_setNextBlockTimestamp', [Number(timestamp)])
+  }
+
+  /** Mine block with timestamp for calls of views. */
+  async function mineAt(timestamp: bigint | number) {
+    await at(timestamp)
+    await network.provider.send('hardhat_mine', ['0x1'])
+  }
+
+  describe('Management', function () {
+    it('Should set phases and emit events', async function () {
+      const tx = presale.connect(owner).setPhases(phases.slice(0, 2))
+      await expect(tx)
+        .to.emit(presale, 'ChangedPhase')
+        .withArgs(1, phases[0].startDate, phases[0].endDate, 2, earlyFee, 0, true)
+      await expect(tx).to.emit(presale, 'ChangedPhaseCount').withArgs(3, 2)
+      const stored = await presale.getPhases()
+      expect(stored).to.have.length(2)
+      expect(stored[1].registrationFee).to.equal(registrationFee)
+    })
+
+    it('Should not allow non-owners to set phases', async function () {
+      await expect(presale.connect(addr1).setPhases([])).to.be.revertedWithCustomError(
+        presale,
+        'OwnableUnauthorizedAccount'
+      )
+    })
+
+    it('Should not allow phase out of presale dates', async function () {
+      const phase = { ...phases[2], endDate: BigInt(endDate + 1) }
+      await expect(presale.connect(owner).setPhases([phases[0], phase]))
+        .to.be.revertedWithCustomError(presale, 'InvalidPhase')
+        .withArgs(2)
+    })
+
+    it('Should not allow phase starting at end of previous phase', async function () {
+      const phase = { ...phases[1], startDate: phases[0].endDate }
+      await expect(presale.connect(owner).setPhases([phases[0], phase]))
+        .to.be.revertedWithCustomError(presale, 'InvalidPhase')
+        .withArgs(2)
+    })
+
+    it('Should not allow phase with start after end', async function () {
+      const phase = { ...phases[0], startDate: phases[0].endDate + 1n }
+      await expect(presale.connect(owner).setPhases([phase]))
+        .to.be.revertedWithCustomError(presale, 'PresaleIncorrectDates')
+        .withArgs(phase.startDate, phase.endDate)
+    })
+
+    it('Should not allow cap of phase below its registrations', async function () {
+      await at(phases[0].startDate)
+      await presale.connect(addr1).register({ value: earlyFee })
+      await expect(presale.connect(owner).setPhases([{ ...phases[0], maxRegistrations: 0n }]))
+        .to.be.revertedWithCustomError(presale, 'InvalidMaxRegistrationsUpdate')
+        .withArgs(0, 1)
+      await expect(presale.connect(owner).setPhases([]))
+        .to.be.revertedWithCustomError(presale, 'InvalidMaxRegistrationsUpdate')
+        .withArgs(0, 1)
+    })
+
+    it('Should return to settings of presale without phases', async function () {
+      await presale.connect(owner).setPhases([])
+      expect(await presale.currentPhase()).to.equal(0)
+      const phase = await presale.getCurrentPhase()
+      expect(phase.registrationFee).to.equal(registrationFee)
+      expect(phase.maxRegistrations).to.equal(maxRegistrations)
+      expect(phase.isWhitelistRequired).to.be.false
+      await presale.connect(addr3).register({ value: registrationFee })
+      expect((await presale.checkRegistration(await addr3.getAddress())).phase).to.equal(0)
+    })
+  })
+
+  describe('Settings', function () {
+    it('Should return to settings of presale after registrations in phase while no phase is active', async function () {
+      await at(phases[0].startDate)
+      await presale.connect(addr1).register({ value: earlyFee })
+      await at(phases[1].endDate + 1n)
+      await presale.connect(owner).setPhases([])
+      await presale.connect(addr3).register({ value: registrationFee })
+      expect((await presale.checkRegistration(await addr3.getAddress())).phase).to.equal(0)
+      expect(await presale.getPhaseRegistrationCount(1)).to.equal(1)
+    })
+
+    it('Should not move dates of presale past its phases', async function () {
+      await expect(presale.connect(owner).setSettings(now + 150, endDate, maxRegistrations, registrationFee))
+        .to.be.revertedWithCustomError(presale, 'InvalidPhase')
+        .withArgs(1)
+      await expect(presale.connect(owner).setSettings(startDate, now + 350, maxRegistrations, registrationFee))
+        .to.be.revertedWithCustomError(presale, 'InvalidPhase')
+        .withArgs(3)
+      await presale.connect(owner).setSettings(now + 100, endDate + 60, maxRegistrations, registrationFee)
+      await presale.connect(owner).setPhases(phases.slice(0, 2))
+      await presale.connect(owner).setSettings(startDate, now + 300, maxRegistrations, registrationFee)
+      expect(await presale.endDate()).to.equal(now + 300)
+    })
+  })
+
+  describe('Boundaries', function () {
+    it('Should have no active phase before the first phase', async function () {
+      await mineAt(phases[0].startDate - 2n)
+      expect(await presale.currentPhase()).to.equal(0)
+      await at(phases[0].startDate - 1n)
+      await expect(presale.connect(addr1).register({ value: registrationFee })).to.be.revertedWithCustomError(
+        presale,
+        'NoActivePhase'
+      )
+    })
+
+    it('Should start phase at its start date', async function () {
+      await mineAt(phases[0].startDate)
+      expect(await presale.currentPhase()).to.equal(1)
+      expect((await presale.getCurrentPhase()).registrationFee).to.equal(earlyFee)
+    })
+
+    it('Should register in phase at its end date', async function () {
+      await at(phases[0].endDate)
+      await presale.connect(addr1).register({ value: earlyFee })
+      const registration = await presale.checkRegistration(addr1Address)
+      expect(registration.phase).to.equal(1)
+      expect(registration.paidFee).to.equal(earlyFee)
+      expect(await presale.getPhaseRegistrationCount(1)).to.equal(1)
+    })
+
+    it('Should switch to the next phase right after end date', async function () {
+      await at(phases[0].endDate + 1n)
+      await expect(presale.connect(addr1).register({ value: earlyFee }))
+        .to.be.revertedWithCustomError(presale, 'IncorrectRegistrationFee')
+        .withArgs(registrationFee)
+      await at(phases[1].startDate + 1n)
+      await expect(presale.connect(addr1).register({ value: registrationFee }))
+        .to.emit(presale, 'Registered')
+        .withArgs(addr1Address, phases[1].startDate + 1n, registrationFee, ethers.ZeroAddress, 2)
+    })
+
+    it('Should not register between phases', async function () {
+      await at(phases[1].endDate + 1n)
+      await expect(presale.connect(addr3).register({ value: registrationFee })).to.be.revertedWithCustomError(
+        presale,
+        'NoActivePhase'
+      )
+      await at(phases[2].startDate - 1n)
+      await expect(presale.connect(addr3).register({ value: registrationFee * 2n })).to.be.revertedWithCustomError(
+        presale,
+        'NoActivePhase'
+      )
+      await at(phases[2].startDate)
+      await presale.connect(addr3).register({ value: registrationFee * 2n })
+      expect((await presale.checkRegistration(await addr3.getAddress())).phase).to.equal(3)
+    })
+
+    it('Should not register in phase after end of presale', async function () {
+      await at(endDate + 1)
+      await expect(presale.connect(addr3).register({ value: registrationFee * 2n })).to.be.revertedWithCustomError(
+        presale,
+        'PresaleIsNotActive'
+      )
+    })
+  })
+
+  describe('Registration', function () {
+    it('Should require whitelist in phase when whitelist of presale is off', async function () {
+      await at(phases[0].startDate)
+      await expect(presale.connect(addr3).register({ value: earlyFee }))
+        .to.be.revertedWithCustomError(presale, 'UserIsNotWhitelisted')
+        .withArgs(await addr3.getAddress())
+      await presale.connect(addr1).register({ value: earlyFee })
+
+      await at(phases[1].startDate)
+      await presale.connect(addr3).register({ value: registrationFee })
+      expect((await presale.checkRegistration(await addr3.getAddress())).isRegistered).to.be.true
+    })
+
+    it('Should limit registrations of phase by its cap', async function () {
+      await presale.connect(owner).setPhases([{ ...phases[0], maxRegistrations: 1n }, phases[1]])
+      await at(phases[0].startDate)
+      await presale.connect(addr1).register({ value: earlyFee })
+      await expect(presale.connect(addr2).register({ value: earlyFee }))
+        .to.be.revertedWithCustomError(presale, 'RegistrationLimitExceeded')
+        .withArgs(1, 1)
+
+      await at(phases[1].startDate)
+      await presale.connect(addr2).register({ value: registrationFee })
+      expect(await presale.getPhaseRegistrationCount(2)).to.equal(1)
+      expect(await presale.getRegistrationCount()).to.equal(2)
+    })
+
+    it('Should charge token fee of the active phase', async function () {
+      const token = (await ethers.deployContract('MockERC20', ['USD Coin', 'USDC', 6])) as unknown as MockERC20
+      const tokenFee = ethers.parseUnits('10', 6)
+      await presale.connect(owner).setFeeToken(await token.getAddress(), tokenFee * 2n)
+      await presale.connect(owner).setPhases([{ ...phases[0], tokenRegistrationFee: tokenFee }, phases[1]])
+      await token.mint(addr1Address, tokenFee * 2n)
+      await token.connect(addr1).approve(await presale.getAddress(), tokenFee * 2n)
+
+      await at(phases[0].startDate)
+      await presale.connect(addr1).registerWithToken([])
+      expect(await token.balanceOf(addr1Address)).to.equal(tokenFee)
+      expect((await presale.checkRegistration(addr1Address)).phase).to.equal(1)
+    })
+  })
+
+  describe('Config', function () {
+    it('Should resolve phases from file format', async function () {
+      const config: PhaseConfig[] = [
+        { start: 'now+1m', end: 'now+1h', max: 5, fee: '0.05', tokenFee: '10', whitelist: true },
+        { start: 'now+2h', end: 'now+1d', max: 10, fee: '0.1' }
+      ]
+      expect(resolvePhases(config, 1000, 6n)).to.deep.equal([
+        {
+          startDate: 1060n,
+          endDate: 4600n,
+          maxRegistrations: 5n,
+          registrationFee: earlyFee,
+          tokenRegistrationFee: 10_000_000n,
+          isWhitelistRequired: true
+        },
+        {
+          startDate: 8200n,
+          endDate: 87400n,
+          maxRegistrations: 10n,
+          registrationFee,
+          tokenRegistrationFee: 0n,
+          isWhitelistRequired: false
+        }
+      ])
+    })
+
+    it('Should not resolve invalid phases', async function () {
+      expect(() => resolvePhases([{ start: 'now+1h', end: 'now', max: 5, fee: '0.1' }], 1000, 0n)).to.throw(
+        'Incorrect dates of phase 1'
+      )
+      expect(() => resolvePhases([{ start: 'now', end: 'now+1h', max: -1, fee: '0.1' }], 1000, 0n)).to.throw(
+        'Invalid max of phase 1'
+      )
+      expect(() => resolvePhases([{ start: 'now', end: 'now+1h', max: 1, fee: 'abc' }], 1000, 0n)).to.throw(
+        'Invalid fee of phase 1'
+      )
+    })
+  })
+
+  describe('Tasks', function () {
+    const log = console.log
+    let output: string[]
+    let directory: string
+
+    beforeEach(async () => {
+      output = []
+      console.log = (...args: unknown[]) => output.push(args.join(' '))
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'phases-'))
+    })
+
+    afterEach(async () => {
+      console.log = log
+      fs.rmSync(directory, { recursive: true, force: true })
+    })
+
+    it('Should set phases from file', async function () {
+      const file = path.join(directory, 'phases.json')
+      const config: PhaseConfig[] = [{ start: now + 100, end: now + 300, max: 3, fee: '0.07', whitelist: true }]
+      fs.writeFileSync(file, JSON.stringify(config))
+      const address = await presale.getAddress()
+
+      await hre.run('presale:phases:set', { address, file, dryRun: true })
+      expect(await presale.getPhases()).to.have.length(3)
+      expect(output.join('\n')).to.include('Phase 3')
+
+      await hre.run('presale:phases:set', { address, file })
+      const stored = await presale.getPhases()
+      expect(stored).to.have.length(1)
+      expect(stored[0].registrationFee).to.equal(ethers.parseEther('0.07'))
+      expect(stored[0].isWhitelistRequired).to.be.true
+    })
+
+    it('Should throw readable error of invalid phases', async function () {
+      const file = path.join(directory, 'phases.json')
+      fs.writeFileSync(file, JSON.stringify([{ start: now + 100, end: endDate + 1, max: 3, fee: '0.1' }]))
+      await expect(hre.run('presale:phases:set', { address: await presale.getAddress(), file })).to.be.rejectedWith(
+        'InvalidPhase'
+      )
+    })
+
+    it('Should print phases with the active one', async function () {
+      await mineAt(phases[1].startDate)
+      await hre.run('presale:phases', { address: await presale.getAddress() })
+      expect(output).to.have.length(3)
+      expect(output[1]).to.include('Phase 2 (active)')
+      expect(output[0]).to.include('0/2 registrations')
+    })
+  })
+})
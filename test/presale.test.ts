@@ -1,6 +1,6 @@
 import { expect } from 'chai'
 import { ethers } from 'hardhat'
-import { ContractFactory, Signer } from 'ethers'
+import { ContractFactory, Signer, ZeroAddress } from 'ethers'
 import { Presale } from '../typechain-types'
 
 describe('Presale', function () {
@@ -63,7 +63,7 @@ describe('Presale', function () {
     it('Should emit the correct event after registration', async function () {
       const tx = await presale.connect(addr1).register({ value: registrationFee })
       const timestamp: any = (await ethers.provider.getBlock(Number(tx.blockNumber)))?.timestamp
-      expect(tx).to.emit(presale, 'Registered').withArgs(addr1Address, timestamp, registrationFee)
+      await expect(tx).to.emit(presale, 'Registered').withArgs(addr1Address, timestamp, registrationFee, ZeroAddress, 0)
     })
 
     it('Should not allow register if presale is paused', async function () {
@@ -130,6 +130,11 @@ describe('Presale', function () {
       ])
     })
 
+    it('Should allow get number of registrations', async function () {
+      await presale.connect(addr1).register({ value: registrationFee })
+      expect(await presale.getRegistrationCount()).to.equal(1n)
+    })
+
     it('Should emit the correct event after changing settings', async function () {
       const newStartDate = Math.floor((new Date().getTime() + 3 * 60 * 60 * 1000) / 1000).toFixed(0)
       const newEndDate = Math.floor((new Date().getTime() + 15 * 24 * 60 * 60 * 1000) / 1000)
@@ -206,8 +211,8 @@ describe('Presale', function () {
     it('Should emit the correct event on withdrawal ETH', async function () {
       await presale.connect(addr1).register({ value: registrationFee })
       const tx = await presale.connect(owner).withdrawFunds(registrationFee)
-      const timestamp = await ethers.provider.getBlock(Number(tx.blockNumber))
-      expect(tx).to.emit(presale, 'Withdrawal').withArgs(registrationFee, timestamp)
+      const timestamp = (await ethers.provider.getBlock(Number(tx.blockNumber)))?.timestamp
+      await expect(tx).to.emit(presale, 'Withdrawal').withArgs(registrationFee, timestamp)
     })
 
     it('Should not allow non-owners to withdraw funds', async function () {
@@ -260,12 +265,12 @@ describe('Presale', function () {
       })
 
       it('Should emit the correct event after owner to turn on whitelist', async function () {
-        expect(await presale.connect(owner).turnOnWhitelist()).to.emit(presale, 'WhitelistTurnedOn')
+        await expect(presale.connect(owner).turnOnWhitelist()).to.emit(presale, 'WhitelistTurnedOn')
       })
 
       it('Should emit the correct event after owner to turn off whitelist', async function () {
         await presale.connect(owner).turnOnWhitelist()
-        expect(await presale.connect(owner).turnOffWhitelist()).to.emit(presale, 'WhitelistTurnedOff')
+        await expect(presale.connect(owner).turnOffWhitelist()).to.emit(presale, 'WhitelistTurnedOff')
       })
 
       it('Should not allow non-owners turn on whitelist', async function () {
@@ -311,7 +316,7 @@ describe('Presale', function () {
       })
 
       it('Should emit the correct event after add address to whitelist', async function () {
-        expect(await presale.connect(owner).addToWhiteList(addr1Address))
+        await expect(presale.connect(owner).addToWhiteList(addr1Address))
           .to.emit(presale, 'AddedToWhitelist')
           .withArgs(addr1Address)
       })
@@ -330,7 +335,7 @@ describe('Presale', function () {
       })
 
       it('Should emit the correct event after add array of addresses to whitelist', async function () {
-        expect(await presale.connect(owner).addBatchToWhitelist([addr1Address, addr2Address]))
+        await expect(presale.connect(owner).addBatchToWhitelist([addr1Address, addr2Address]))
           .to.emit(presale, 'AddedToWhitelist')
           .withArgs(addr1Address)
           .and.to.emit(presale, 'AddedToWhitelist')
@@ -351,7 +356,7 @@ describe('Presale', function () {
 
       it('Should emit the correct event after remove address from whitelist', async function () {
         await presale.connect(owner).addToWhiteList(addr1Address)
-        expect(await presale.connect(owner).removeFromWhitelist(addr1Address))
+        await expect(presale.connect(owner).removeFromWhitelist(addr1Address))
           .to.emit(presale, 'RemovedFromWhitelist')
           .withArgs(addr1Address)
       })
@@ -371,7 +376,8 @@ describe('Presale', function () {
       })
 
       it('Should emit the correct event after remove array of addresses from whitelist', async function () {
-        expect(await presale.connect(owner).removeBatchFromWhiteList([addr1Address, addr2Address]))
+        await presale.connect(owner).addBatchToWhitelist([addr1Address, addr2Address])
+        await expect(presale.connect(owner).removeBatchFromWhiteList([addr1Address, addr2Address]))
           .to.emit(presale, 'RemovedFromWhitelist')
           .withArgs(addr1Address)
           .and.to.emit(presale, 'RemovedFromWhitelist')
@@ -0,0 +1,331 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { expect } from 'chai'
+import hre, { ethers } from 'hardhat'
+import { ContractFactory, Signer, ZeroAddress } from 'ethers'
+import { MockERC20, Presale } from '../typechain-types'
+import { PresaleClient, PresaleClientError } from '../src/sdk'
+import { PresaleIndexer } from '../scripts/utils/indexer'
+import { buildReferralLeaderboard, referralsToCsv, referralsToJson } from '../scripts/utils/referrals'
+import { buildReport } from '../scripts/utils/report'
+
+describe('Referrals', function () {
+  let PresaleFactory: ContractFactory
+  let presale: Presale
+  let owner: Signer
+  let addr1: Signer
+  let addr2: Signer
+  let addr3: Signer
+  let addr1Address: string
+  let addr2Address: string
+  let addr3Address: string
+  let address: string
+  const startDate = Math.floor((new Date().getTime() - 2 * 60 * 60 * 1000) / 1000)
+  const endDate = Math.floor((new Date().getTime() + 5 * 24 * 60 * 60 * 1000) / 1000)
+  const maxRegistrations = 13
+  const registrationFee = ethers.parseEther('0.1')
+  const rebate = registrationFee / 10n
+
+  beforeEach(async () => {
+    PresaleFactory = await ethers.getContractFactory('Presale')
+    ;[owner, addr1, addr2, addr3] = await ethers.getSigners()
+    addr1Address = await addr1.getAddress()
+    addr2Address = await addr2.getAddress()
+    addr3Address = await addr3.getAddress()
+    presale = (await PresaleFactory.deploy(startDate, endDate, maxRegistrations, registrationFee, false)) as Presale
+    address = await presale.getAddress()
+    await presale.connect(owner).setReferralRebate(1000)
+    await presale.connect(addr1).register({ value: registrationFee })
+  })
+
+  describe('Settings', function () {
+    it('Should emit the correct event after changing rebate', async function () {
+      await expect(presale.connect(owner).setReferralRebate(250))
+        .to.emit(presale, 'ChangedReferralRebate')
+        .withArgs(1000, 250)
+      expect(await presale.referralRebateBps()).to.equal(250)
+    })
+
+    it('Should not allow rebate above 10000 bps', async function () {
+      await presale.connect(owner).setReferralRebate(10000)
+      await expect(presale.connect(owner).setReferralRebate(10001))
+        .to.be.revertedWithCustomError(presale, 'InvalidReferralRebate')
+        .withArgs(10001)
+    })
+
+    it('Should not allow non-owners to change rebate', async function () {
+      await expect(presale.connect(addr1).setReferralRebate(0)).to.be.revertedWithCustomError(
+        presale,
+        'OwnableUnauthorizedAccount'
+      )
+    })
+  })
+
+  describe('Registration', function () {
+    it('Should accrue rebate of paid fee to referrer', async function () {
+      await expect(presale.connect(addr2).registerWithReferrer([], addr1Address, { value: registrationFee }))
+        .to.emit(presale, 'Referred')
+        .withArgs(addr1Address, addr2Address, ZeroAddress, rebate)
+      const registration = await presale.checkRegistration(addr2Address)
+      expect(registration.referrer).to.equal(addr1Address)
+      expect(registration.referralRebate).to.equal(rebate)
+      expect(await presale.getReferralRebate(addr1Address, ZeroAddress)).to.equal(rebate)
+    })
+
+    it('Should take rebate of overpaid fee rounded down', async function () {
+      await presale.connect(owner).setReferralRebate(3)
+      const paidFee = registrationFee + 1234n
+      await presale.connect(addr2).registerWithReferrer([], addr1Address, { value: paidFee })
+      expect(await presale.getReferralRebate(addr1Address, ZeroAddress)).to.equal((paidFee * 3n) / 10000n)
+    })
+
+    it('Should keep rebate of registration when rebate changes later', async function () {
+      await presale.connect(addr2).registerWithReferrer([], addr1Address, { value: registrationFee })
+      await presale.connect(owner).setReferralRebate(0)
+      await expect(presale.connect(addr3).registerWithReferrer([], addr1Address, { value: registrationFee })).to.emit(
+        presale,
+        'Referred'
+      )
+      expect(await presale.getReferralRebate(addr1Address, ZeroAddress)).to.equal(rebate)
+    })
+
+    it('Should not allow self-referral', async function () {
+      await expect(presale.connect(addr2).registerWithReferrer([], addr2Address, { value: registrationFee }))
+        .to.be.revertedWithCustomError(presale, 'SelfReferral')
+        .withArgs(addr2Address)
+    })
+
+    it('Should not allow referrer not registered', async function () {
+      await expect(presale.connect(addr2).registerWithReferrer([], addr3Address, { value: registrationFee }))
+        .to.be.revertedWithCustomError(presale, 'ReferrerIsNotRegistered')
+        .withArgs(addr3Address)
+    })
+  })
+
+  describe('Withdrawal', function () {
+    beforeEach(async () => {
+      await presale.connect(addr2).registerWithReferrer([], addr1Address, { value: registrationFee })
+    })
+
+    it('Should exclude unclaimed rebates from available balance', async function () {
+      expect(await presale.getLockedFunds(ZeroAddress)).to.equal(rebate)
+      expect(await presale.availableBalance(ZeroAddress)).to.equal(registrationFee * 2n - rebate)
+      await expect(presale.connect(owner).withdrawFunds(registrationFee * 2n)).to.be.revertedWithCustomError(
+        presale,
+        'NotEnoughFunds'
+      )
+    })
+
+    it('Should release rebate from locked funds when claimed', async function () {
+      await presale.connect(owner).withdrawFunds(registrationFee * 2n - rebate)
+      const tx = presale.connect(addr1).claimReferralRebate(ZeroAddress)
+      await expect(tx).to.emit(presale, 'ReferralRebateClaimed').withArgs(addr1Address, ZeroAddress, rebate)
+      await expect(tx).to.changeEtherBalances([presale, addr1], [-rebate, rebate])
+      expect(await presale.getLockedFunds(ZeroAddress)).to.equal(0)
+      expect(await presale.getReferralRebate(addr1Address, ZeroAddress)).to.equal(0)
+    })
+
+    it('Should not claim twice', async function () {
+      await presale.connect(addr1).claimReferralRebate(ZeroAddress)
+      await expect(presale.connect(addr1).claimReferralRebate(ZeroAddress))
+        .to.be.revertedWithCustomError(presale, 'NoReferralRebate')
+        .withArgs(addr1Address, ZeroAddress)
+    })
+
+    it('Should not claim while fees are locked for refunds', async function () {
+      await presale.connect(owner).cancelPresale()
+      await expect(presale.connect(addr1).claimReferralRebate(ZeroAddress)).to.be.revertedWithCustomError(
+        presale,
+        'ReferralRebatesLocked'
+      )
+    })
+
+    it('Should not claim while paused', async function () {
+      await presale.connect(owner).pause()
+      await expect(presale.connect(addr1).claimReferralRebate(ZeroAddress)).to.be.revertedWithCustomError(
+        presale,
+        'EnforcedPause'
+      )
+    })
+  })
+
+  describe('Refund', function () {
+    beforeEach(async () => {
+      await presale.connect(addr2).registerWithReferrer([], addr1Address, { value: registrationFee })
+      await presale.connect(addr3).registerWithReferrer([], addr1Address, { value: registrationFee })
+    })
+
+    it('Should forfeit unclaimed rebate on refund of user referred', async function () {
+      await presale.connect(owner).cancelPresale()
+      await expect(presale.connect(addr2).refund())
+        .to.emit(presale, 'ReferralRebateForfeited')
+        .withArgs(addr1Address, addr2Address, ZeroAddress, rebate)
+      expect(await presale.getReferralRebate(addr1Address, ZeroAddress)).to.equal(rebate)
+      await presale.connect(addr3).refund()
+      expect(await presale.getReferralRebate(addr1Address, ZeroAddress)).to.equal(0)
+    })
+
+    it('Should forfeit only rebate of refunded user not claimed yet', async function () {
+      await presale.connect(addr1).claimReferralRebate(ZeroAddress)
+      await presale.connect(owner).setReferralRebate(500)
+      const [, , , , addr4] = await ethers.getSigners()
+      await presale.connect(addr4).registerWithReferrer([], addr1Address, { value: registrationFee })
+      const unclaimed = registrationFee / 20n
+      await presale.connect(owner).cancelPresale({ value: rebate * 2n })
+
+      await expect(presale.connect(addr2).refund()).to.not.emit(presale, 'ReferralRebateForfeited')
+      await expect(presale.connect(addr3).refund()).to.not.emit(presale, 'ReferralRebateForfeited')
+      expect(await presale.getReferralRebate(addr1Address, ZeroAddress)).to.equal(unclaimed)
+      await expect(presale.connect(addr4).refund())
+        .to.emit(presale, 'ReferralRebateForfeited')
+        .withArgs(addr1Address, await addr4.getAddress(), ZeroAddress, unclaimed)
+      expect(await presale.getReferralRebate(addr1Address, ZeroAddress)).to.equal(0)
+      expect(await presale.getLockedFunds(ZeroAddress)).to.equal(registrationFee)
+    })
+
+    it('Should require owner to cover claimed rebates on cancel', async function () {
+      await presale.connect(addr1).claimReferralRebate(ZeroAddress)
+      await expect(presale.connect(owner).cancelPresale()).to.be.revertedWithCustomError(presale, 'NotEnoughFunds')
+      await presale.connect(owner).cancelPresale({ value: rebate * 2n })
+      for (const user of [addr1, addr2, addr3]) {
+        await presale.connect(user).refund()
+      }
+      expect(await ethers.provider.getBalance(address)).to.equal(0)
+    })
+  })
+
+  describe('Token', function () {
+    let token: MockERC20
+    let tokenAddress: string
+    const tokenRegistrationFee = ethers.parseUnits('10', 6)
+
+    beforeEach(async () => {
+      token = (await ethers.deployContract('MockERC20', ['USD Coin', 'USDC', 6])) as unknown as MockERC20
+      tokenAddress = await token.getAddress()
+      await token.mint(addr2Address, tokenRegistrationFee)
+      presale = (await PresaleFactory.deploy(startDate, endDate, maxRegistrations, registrationFee, false)) as Presale
+      address = await presale.getAddress()
+      await presale.connect(owner).setFeeToken(tokenAddress, tokenRegistrationFee)
+      await presale.connect(owner).setReferralRebate(1000)
+      await presale.connect(addr1).register({ value: registrationFee })
+      await token.connect(addr2).approve(address, tokenRegistrationFee)
+    })
+
+    it('Should accrue and claim rebate in token', async function () {
+      await expect(presale.connect(addr2).registerWithTokenAndReferrer([], addr1Address))
+        .to.emit(presale, 'Referred')
+        .withArgs(addr1Address, addr2Address, tokenAddress, tokenRegistrationFee / 10n)
+      expect(await presale.availableBalance(tokenAddress)).to.equal(tokenRegistrationFee - tokenRegistrationFee / 10n)
+      expect(await presale.getReferralRebate(addr1Address, ZeroAddress)).to.equal(0)
+      await expect(presale.connect(addr1).claimReferralRebate(tokenAddress)).to.changeTokenBalances(
+        token,
+        [presale, addr1],
+        [-tokenRegistrationFee / 10n, tokenRegistrationFee / 10n]
+      )
+    })
+  })
+
+  describe('Client', function () {
+    let client: PresaleClient
+
+    beforeEach(async () => {
+      client = new PresaleClient(address, addr2)
+    })
+
+    it('Should register with referrer and claim rebate', async function () {
+      await client.register([], addr1Address)
+      expect(await client.getReferralRebate(addr1Address)).to.equal(rebate)
+      await expect(new PresaleClient(address, addr1).claimReferralRebate()).to.changeEtherBalance(addr1, rebate)
+    })
+
+    it('Should reject self-referral and referrer not registered before sending', async function () {
+      await expect(client.register([], addr2Address))
+        .to.be.rejectedWith(PresaleClientError)
+        .and.eventually.have.deep.property('error', { name: 'SelfReferral', user: addr2Address })
+      await expect(client.register([], addr3Address))
+        .to.be.rejectedWith(PresaleClientError)
+        .and.eventually.have.deep.property('error', { name: 'ReferrerIsNotRegistered', referrer: addr3Address })
+    })
+
+    it('Should reject claim without rebate', async function () {
+      await expect(client.claimReferralRebate())
+        .to.be.rejectedWith(PresaleClientError)
+        .and.eventually.have.deep.property('error', {
+          name: 'NoReferralRebate',
+          referrer: addr2Address,
+          asset: ZeroAddress
+        })
+    })
+  })
+
+  describe('Leaderboard', function () {
+    let directory: string
+    let indexer: PresaleIndexer
+    const log = console.log
+    let output: string[]
+
+    beforeEach(async () => {
+      const [, , , , addr4, addr5] = await ethers.getSigners()
+      await presale.connect(addr2).registerWithReferrer([], addr1Address, { value: registrationFee })
+      await presale.connect(addr3).registerWithReferrer([], addr2Address, { value: registrationFee * 2n })
+      await presale.connect(addr4).registerWithReferrer([], addr1Address, { value: registrationFee })
+      await presale.connect(addr5).registerWithReferrer([], addr3Address, { value: registrationFee })
+      await presale.connect(addr1).claimReferralRebate(ZeroAddress)
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'referrals-'))
+      indexer = new PresaleIndexer({
+        presale: address,
+        provider: ethers.provider,
+        contractInterface: presale.interface,
+        storePath: path.join(directory, 'store.json'),
+        startBlock: Number((await presale.deploymentTransaction()?.wait())?.blockNumber)
+      })
+      await indexer.sync()
+      output = []
+      console.log = (...args: unknown[]) => output.push(args.join(' '))
+    })
+
+    afterEach(async () => {
+      console.log = log
+      fs.rmSync(directory, { recursive: true, force: true })
+    })
+
+    it('Should rank referrers by referrals and accrued rebate', async function () {
+      const rows = buildReferralLeaderboard(indexer)
+      expect(rows.map((row) => row.referrer)).to.deep.equal([addr1Address, addr2Address, addr3Address])
+      expect(rows[0]).to.deep.include({ referrals: 2, accrued: rebate * 2n, claimed: rebate * 2n, unclaimed: 0n })
+      expect(rows[1]).to.deep.include({ referrals: 1, accrued: rebate * 2n, claimed: 0n, unclaimed: rebate * 2n })
+      for (const row of rows) {
+        expect(row.unclaimed).to.equal(await presale.getReferralRebate(row.referrer, row.asset))
+      }
+    })
+
+    it('Should export leaderboard as CSV and JSON', async function () {
+      const rows = buildReferralLeaderboard(indexer)
+      const csv = referralsToCsv(rows).trim().split('\n')
+      expect(csv[0]).to.equal('rank,referrer,asset,referrals,accrued,forfeited,claimed,unclaimed')
+      expect(csv[1]).to.equal(`1,${addr1Address},${ZeroAddress},2,${rebate * 2n},0,${rebate * 2n},0`)
+      expect(JSON.parse(referralsToJson(rows))[1].unclaimed).to.equal((rebate * 2n).toString())
+    })
+
+    it('Should reconcile claimed rebates with balance', async function () {
+      const { reconciliation } = await buildReport(indexer, presale)
+      expect(reconciliation.totalRebates).to.equal(rebate * 2n)
+      expect(reconciliation.status).to.equal('balanced')
+    })
+
+    it('Should print and export leaderboard with task', async function () {
+      const out = path.join(directory, 'referrals.json')
+      await hre.run('presale:referrals', {
+        address,
+        store: path.join(directory, 'task-store.json'),
+        format: 'json',
+        out,
+        top: 2
+      })
+      expect(JSON.parse(fs.readFileSync(out, 'utf8'))).to.have.length(3)
+      expect(output).to.include('Referrers:  3')
+      expect(output.filter((line) => /^\d+\. /.test(line))).to.have.length(2)
+    })
+  })
+})
@@ -0,0 +1,212 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { expect } from 'chai'
+import hre, { ethers, network } from 'hardhat'
+import { ContractFactory, Signer, ZeroAddress } from 'ethers'
+import { Presale } from '../typechain-types'
+
+describe('Refunds', function () {
+  let PresaleFactory: ContractFactory
+  let presale: Presale
+  let owner: Signer
+  let addr1: Signer
+  let addr2: Signer
+  let addr3: Signer
+  let addr1Address: string
+  let addr2Address: string
+  let startDate: number
+  let endDate: number
+  const maxRegistrations = 13
+  const registrationFee = ethers.parseEther('0.1')
+
+  beforeEach(async () => {
+    PresaleFactory = await ethers.getContractFactory('Presale')
+    ;[owner, addr1, addr2, addr3] = await ethers.getSigners()
+    addr1Address = await addr1.getAddress()
+    addr2Address = await addr2.getAddress()
+    const now = Number((await ethers.provider.getBlock('latest'))?.timestamp)
+    startDate = now - 60
+    endDate = now + 60
+    presale = (await PresaleFactory.deploy(startDate, endDate, maxRegistrations, registrationFee, false)) as Presale
+    await presale.connect(addr1).register({ value: registrationFee })
+    await presale.connect(addr2).register({ value: registrationFee * 2n })
+  })
+
+  async function endPresale() {
+    await network.provider.send('evm_setNextBlockTimestamp', [endDate + 1])
+    await network.provider.send('hardhat_mine', ['0x1'])
+  }
+
+  describe('Cancel', function () {
+    it('Should allow owner to cancel presale', async function () {
+      await expect(presale.connect(owner).cancelPresale()).to.emit(presale, 'PresaleCancelled')
+      expect(await presale.isCancelled()).to.be.true
+      expect(await presale.isRefundAvailable()).to.be.true
+    })
+
+    it('Should not allow non-owners to cancel presale', async function () {
+      await expect(presale.connect(addr1).cancelPresale()).to.be.revertedWithCustomError(
+        presale,
+        'OwnableUnauthorizedAccount'
+      )
+    })
+
+    it('Should not allow to cancel presale twice', async function () {
+      await presale.connect(owner).cancelPresale()
+      await expect(presale.connect(owner).cancelPresale()).to.be.revertedWithCustomError(presale, 'PresaleIsCancelled')
+    })
+
+    it('Should not allow register after cancel', async function () {
+      await presale.connect(owner).cancelPresale()
+      await expect(presale.connect(addr3).register({ value: registrationFee })).to.be.revertedWithCustomError(
+        presale,
+        'PresaleIsCancelled'
+      )
+    })
+
+    it('Should not allow to change settings after cancel', async function () {
+      await presale.connect(owner).cancelPresale()
+      await expect(
+        presale.connect(owner).setSettings(startDate, endDate, maxRegistrations, registrationFee)
+      ).to.be.revertedWithCustomError(presale, 'EnforcedRefund')
+    })
+  })
+
+  describe('Refund', function () {
+    it('Should refund paid fee to registrant', async function () {
+      await presale.connect(owner).cancelPresale()
+      const tx = presale.connect(addr2).refund()
+      await expect(tx)
+        .to.emit(presale, 'Refunded')
+        .withArgs(addr2Address, registrationFee * 2n, ZeroAddress)
+      await expect(tx).to.changeEtherBalances([presale, addr2], [-registrationFee * 2n, registrationFee * 2n])
+      expect((await presale.checkRegistration(addr2Address)).isRefunded).to.be.true
+    })
+
+    it('Should not refund twice', async function () {
+      await presale.connect(owner).cancelPresale()
+      await presale.connect(addr1).refund()
+      await expect(presale.connect(addr1).refund())
+        .to.be.revertedWithCustomError(presale, 'UserAlreadyRefunded')
+        .withArgs(addr1Address)
+    })
+
+    it('Should not refund user not registered', async function () {
+      await presale.connect(owner).cancelPresale()
+      await expect(presale.connect(addr3).refund())
+        .to.be.revertedWithCustomError(presale, 'UserIsNotRegistered')
+        .withArgs(await addr3.getAddress())
+    })
+
+    it('Should not refund before refunds are open', async function () {
+      await expect(presale.connect(addr1).refund()).to.be.revertedWithCustomError(presale, 'ExpectedRefund')
+    })
+
+    it('Should refund while paused by guardian', async function () {
+      const [, , , , guardian] = await ethers.getSigners()
+      await presale.connect(owner).setGuardian(await guardian.getAddress())
+      await presale.connect(owner).cancelPresale()
+      await presale.connect(guardian).pause()
+      await expect(presale.connect(addr1).refund()).to.changeEtherBalance(addr1, registrationFee)
+      expect((await presale.checkRegistration(addr1Address)).isRefunded).to.be.true
+      expect(await presale.paused()).to.be.true
+    })
+
+    it('Should refund after partial owner withdrawal covered on cancel', async function () {
+      await presale.connect(owner).withdrawFunds(registrationFee * 2n)
+      await expect(presale.connect(owner).cancelPresale())
+        .to.be.revertedWithCustomError(presale, 'NotEnoughFunds')
+        .withArgs(registrationFee * 3n, registrationFee)
+      await expect(presale.connect(owner).cancelPresale({ value: registrationFee * 2n }))
+        .to.emit(presale, 'PresaleCancelled')
+        .withArgs(registrationFee * 2n, (value: bigint) => value > 0n)
+
+      await presale.connect(addr1).refund()
+      await presale.connect(addr2).refund()
+      expect(await ethers.provider.getBalance(await presale.getAddress())).to.equal(0n)
+    })
+  })
+
+  describe('Minimum of registrations', function () {
+    beforeEach(async () => {
+      await presale.connect(owner).setMinRegistrations(3)
+    })
+
+    it('Should emit the correct event after changing minimum', async function () {
+      await expect(presale.connect(owner).setMinRegistrations(5))
+        .to.emit(presale, 'ChangedMinRegistrations')
+        .withArgs(3, 5)
+    })
+
+    it('Should open refunds when minimum is not reached by end date', async function () {
+      expect(await presale.isRefundAvailable()).to.be.false
+      await endPresale()
+      expect(await presale.isRefundAvailable()).to.be.true
+      await presale.connect(addr1).refund()
+      await expect(presale.connect(owner).setMinRegistrations(0)).to.be.revertedWithCustomError(
+        presale,
+        'EnforcedRefund'
+      )
+    })
+
+    it('Should not open refunds when minimum is reached', async function () {
+      await presale.connect(addr3).register({ value: registrationFee })
+      await endPresale()
+      expect(await presale.isRefundAvailable()).to.be.false
+      expect(await presale.availableBalance(ZeroAddress)).to.equal(registrationFee * 4n)
+    })
+
+    it('Should block owner withdrawal of refundable funds', async function () {
+      expect(await presale.getLockedFunds(ZeroAddress)).to.equal(registrationFee * 3n)
+      await expect(presale.connect(owner).withdrawFunds(registrationFee))
+        .to.be.revertedWithCustomError(presale, 'NotEnoughFunds')
+        .withArgs(registrationFee, 0)
+    })
+
+    it('Should not lock fees already withdrawn', async function () {
+      await presale.connect(owner).setMinRegistrations(0)
+      await presale.connect(owner).withdrawFunds(registrationFee)
+      await expect(presale.connect(owner).setMinRegistrations(3))
+        .to.be.revertedWithCustomError(presale, 'NotEnoughFunds')
+        .withArgs(registrationFee * 3n, registrationFee * 2n)
+    })
+  })
+
+  describe('Task', function () {
+    const log = console.log
+    let output: string[]
+    let directory: string
+
+    before(async () => {
+      console.log = (...args: unknown[]) => output.push(args.join(' '))
+    })
+
+    after(async () => {
+      console.log = log
+    })
+
+    beforeEach(async () => {
+      output = []
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'refunds-'))
+    })
+
+    afterEach(async () => {
+      fs.rmSync(directory, { recursive: true, force: true })
+    })
+
+    it('Should list outstanding refunds', async function () {
+      await presale.connect(owner).cancelPresale()
+      await presale.connect(addr1).refund()
+      await hre.run('presale:refunds', {
+        address: await presale.getAddress(),
+        store: path.join(directory, 'store.json'),
+        fromBlock: Number((await presale.deploymentTransaction()?.wait())?.blockNumber)
+      })
+      expect(output).to.include('Refunds:  open')
+      expect(output).to.include(`${addr2Address} 0.2 ETH`)
+      expect(output).to.include('Outstanding refunds:  1')
+      expect(output).to.include('Outstanding amount:  0.2 ETH')
+    })
+  })
+})
@@ -0,0 +1,163 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { expect } from 'chai'
+import hre, { ethers, network } from 'hardhat'
+import { ContractFactory, Signer, toQuantity } from 'ethers'
+import { Presale } from '../typechain-types'
+import { PresaleIndexer, PresaleIndexerOptions } from '../scripts/utils/indexer'
+import { buildReport, registrantsToCsv, registrantsToJson } from '../scripts/utils/report'
+
+describe('Report', function () {
+  let PresaleFactory: ContractFactory
+  let presale: Presale
+  let owner: Signer
+  let addr1: Signer
+  let addr2: Signer
+  let addr1Address: string
+  let addr2Address: string
+  let address: string
+  let directory: string
+  let options: PresaleIndexerOptions
+  const startDate = Math.floor((new Date().getTime() - 2 * 60 * 60 * 1000) / 1000)
+  const endDate = Math.floor((new Date().getTime() + 5 * 24 * 60 * 60 * 1000) / 1000)
+  const maxRegistrations = 13
+  const registrationFee = ethers.parseEther('0.1')
+  const overpayment = ethers.parseEther('0.05')
+  const log = console.log
+  let output: string[]
+
+  before(async () => {
+    console.log = (...args: unknown[]) => output.push(args.join(' '))
+  })
+
+  after(async () => {
+    console.log = log
+  })
+
+  beforeEach(async () => {
+    PresaleFactory = await ethers.getContractFactory('Presale')
+    ;[owner, addr1, addr2] = await ethers.getSigners()
+    addr1Address = await addr1.getAddress()
+    addr2Address = await addr2.getAddress()
+    presale = (await PresaleFactory.deploy(startDate, endDate, maxRegistrations, registrationFee, false)) as Presale
+    address = await presale.getAddress()
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'report-'))
+    options = {
+      presale: address,
+      provider: ethers.provider,
+      contractInterface: presale.interface,
+      storePath: path.join(directory, 'store.json'),
+      startBlock: Number((await presale.deploymentTransaction()?.wait())?.blockNumber)
+    }
+    output = []
+
+    await presale.connect(addr1).register({ value: registrationFee + overpayment })
+    await presale.connect(owner).setSettings(startDate, endDate, maxRegistrations, registrationFee * 2n)
+    await presale.connect(addr2).register({ value: registrationFee * 2n })
+    await presale.connect(owner).withdrawFunds(registrationFee)
+  })
+
+  afterEach(async () => {
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  async function report() {
+    const indexer = new PresaleIndexer(options)
+    await indexer.sync()
+    return buildReport(indexer, presale)
+  }
+
+  describe('Registrants', function () {
+    it('Should list registrants with fee in effect and overpayment', async function () {
+      const { registrants } = await report()
+      expect(
+        registrants.map(({ user, paidFee, registrationFee, overpayment }) => ({
+          user,
+          paidFee,
+          registrationFee,
+          overpayment
+        }))
+      ).to.deep.equal([
+        { user: addr1Address, paidFee: registrationFee + overpayment, registrationFee, overpayment },
+        { user: addr2Address, paidFee: registrationFee * 2n, registrationFee: registrationFee * 2n, overpayment: 0n }
+      ])
+    })
+
+    it('Should export registrants to CSV and JSON', async function () {
+      const { registrants } = await report()
+      const csv = registrantsToCsv(registrants).trim().split('\n')
+      expect(csv[0]).to.equal('address,timestamp,date,paidFee,asset,phase,registrationFee,overpayment,transactionHash')
+      expect(csv[1].split(',')[0]).to.equal(addr1Address)
+      expect(csv[1].split(',')[3]).to.equal((registrationFee + overpayment).toString())
+      expect(JSON.parse(registrantsToJson(registrants))[1].paidFee).to.equal((registrationFee * 2n).toString())
+    })
+  })
+
+  describe('Reconciliation', function () {
+    it('Should balance fees including overpayments and withdrawals', async function () {
+      const { reconciliation, mismatches } = await report()
+      expect(reconciliation.totalFees).to.equal(registrationFee * 3n + overpayment)
+      expect(reconciliation.totalOverpayments).to.equal(overpayment)
+      expect(reconciliation.totalWithdrawals).to.equal(registrationFee)
+      expect(reconciliation.balance).to.equal(registrationFee * 2n + overpayment)
+      expect(reconciliation.status).to.equal('balanced')
+      expect(mismatches).to.be.empty
+    })
+
+    it('Should balance top-up on cancel and refunds', async function () {
+      await presale.connect(owner).cancelPresale({ value: registrationFee })
+      await presale.connect(addr1).refund()
+      const { reconciliation } = await report()
+      expect(reconciliation.totalTopUps).to.equal(registrationFee)
+      expect(reconciliation.totalRefunds).to.equal(registrationFee + overpayment)
+      expect(reconciliation.status).to.equal('balanced')
+    })
+
+    it('Should flag surplus of forced ETH', async function () {
+      const balance = await ethers.provider.getBalance(address)
+      await network.provider.send('hardhat_setBalance', [address, toQuantity(balance + 1n)])
+      await network.provider.send('hardhat_mine', ['0x1'])
+      const { reconciliation } = await report()
+      expect(reconciliation.status).to.equal('surplus')
+      expect(reconciliation.difference).to.equal(1n)
+    })
+
+    it('Should flag deficit and mismatch of incomplete store', async function () {
+      const indexer = new PresaleIndexer(options)
+      await indexer.sync()
+      indexer.store.events = indexer.store.events.filter((event) => event.name !== 'Withdrawal')
+      indexer.store.events.find((event) => event.name === 'Registered')!.args.paidFee = registrationFee.toString()
+      const { reconciliation, mismatches } = await buildReport(indexer, presale)
+      expect(reconciliation.status).to.equal('deficit')
+      expect(mismatches).to.have.length(1)
+      expect(mismatches[0]).to.include(addr1Address)
+    })
+  })
+
+  describe('Task', function () {
+    it('Should export registrants and print totals', async function () {
+      const out = path.join(directory, 'registrants.json')
+      await hre.run('presale:report', {
+        address,
+        store: options.storePath,
+        fromBlock: options.startBlock,
+        format: 'json',
+        out
+      })
+      expect(JSON.parse(fs.readFileSync(out, 'utf8'))).to.have.length(2)
+      expect(output).to.include('Total fees:  0.35 ETH')
+      expect(output).to.include('Status:  balanced')
+    })
+
+    it('Should fail in strict mode when books do not balance', async function () {
+      const balance = await ethers.provider.getBalance(address)
+      await network.provider.send('hardhat_setBalance', [address, toQuantity(balance + 1n)])
+      await network.provider.send('hardhat_mine', ['0x1'])
+      await expect(
+        hre.run('presale:report', { address, store: options.storePath, fromBlock: options.startBlock, strict: true })
+      ).to.be.rejectedWith('do not balance')
+      expect(output.some((line) => line.startsWith('WARNING: surplus'))).to.be.true
+    })
+  })
+})
@@ -0,0 +1,168 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+import { ContractFactory, Signer } from 'ethers'
+import { Presale } from '../typechain-types'
+import {
+  PresaleClient,
+  PresaleClientError,
+  PresaleEvents,
+  buildWhitelistProofs,
+  decodePresaleError,
+  getWhitelistProof
+} from '../src/sdk'
+
+describe('Presale SDK', function () {
+  let PresaleFactory: ContractFactory
+  let presale: Presale
+  let owner: Signer
+  let addr1: Signer
+  let addr2: Signer
+  let addr1Address: string
+  let address: string
+  let client: PresaleClient
+  const startDate = Math.floor((new Date().getTime() - 2 * 60 * 60 * 1000) / 1000)
+  const endDate = Math.floor((new Date().getTime() + 5 * 24 * 60 * 60 * 1000) / 1000)
+  const maxRegistrations = 13
+  const registrationFee = ethers.parseEther('0.1')
+
+  beforeEach(async () => {
+    PresaleFactory = await ethers.getContractFactory('Presale')
+    ;[owner, addr1, addr2] = await ethers.getSigners()
+    addr1Address = await addr1.getAddress()
+    presale = (await PresaleFactory.deploy(startDate, endDate, maxRegistrations, registrationFee, false)) as Presale
+    address = await presale.getAddress()
+    client = new PresaleClient(address, addr1)
+  })
+
+  describe('Preflight', function () {
+    it('Should allow registration with current fee', async function () {
+      expect(await client.canRegister(addr1Address)).to.deep.equal({
+        canRegister: true,
+        registrationFee,
+        tokenRegistrationFee: 0n,
+        phase: 0
+      })
+    })
+
+    it('Should return reason of registered user', async function () {
+      const tx = await presale.connect(addr1).register({ value: registrationFee })
+      const block = await ethers.provider.getBlock(Number(tx.blockNumber))
+      expect(await client.canRegister(addr1Address)).to.deep.equal({
+        canRegister: false,
+        reason: { name: 'UserAlreadyRegistered', user: addr1Address, timestamp: BigInt(Number(block?.timestamp)) }
+      })
+    })
+
+    it('Should return reason of inactive presale', async function () {
+      await presale.connect(owner).setSettings(endDate, endDate, maxRegistrations, registrationFee)
+      expect(await client.canRegister(addr1Address)).to.deep.equal({
+        canRegister: false,
+        reason: { name: 'PresaleIsNotActive', startDate: BigInt(endDate), endDate: BigInt(endDate) }
+      })
+    })
+
+    it('Should return reason of exceeded limit', async function () {
+      await presale.connect(owner).setSettings(startDate, endDate, 1, registrationFee)
+      await presale.connect(addr2).register({ value: registrationFee })
+      expect(await client.canRegister(addr1Address)).to.deep.equal({
+        canRegister: false,
+        reason: { name: 'RegistrationLimitExceeded', registrationCount: 1n, maxRegistrations: 1n }
+      })
+    })
+
+    it('Should return reason of paused presale', async function () {
+      await presale.connect(owner).pause()
+      expect(await client.canRegister(addr1Address)).to.deep.equal({
+        canRegister: false,
+        reason: { name: 'EnforcedPause' }
+      })
+    })
+
+    it('Should return reason of user out of whitelist', async function () {
+      await presale.connect(owner).turnOnWhitelist()
+      expect(await client.canRegister(addr1Address)).to.deep.equal({
+        canRegister: false,
+        reason: { name: 'UserIsNotWhitelisted', user: addr1Address }
+      })
+      await presale.connect(owner).addToWhiteList(addr1Address)
+      expect((await client.canRegister(addr1Address)).canRegister).to.be.true
+    })
+
+    it('Should check Merkle proof in Merkle mode', async function () {
+      const whitelist = buildWhitelistProofs([addr1Address, ethers.Wallet.createRandom().address])
+      await presale.connect(owner).setMerkleRoot(whitelist.root)
+      await presale.connect(owner).turnOnWhitelist()
+      expect((await client.canRegister(addr1Address)).canRegister).to.be.false
+      const proof = getWhitelistProof(whitelist, addr1Address) as string[]
+      expect((await client.canRegister(addr1Address, proof)).canRegister).to.be.true
+    })
+  })
+
+  describe('Registration', function () {
+    it('Should register signer with exact fee', async function () {
+      await presale.connect(owner).setSettings(startDate, endDate, maxRegistrations, registrationFee * 2n)
+      const tx = await client.register()
+      expect(tx.value).to.equal(registrationFee * 2n)
+      expect((await presale.checkRegistration(addr1Address)).paidFee).to.equal(registrationFee * 2n)
+    })
+
+    it('Should register signer with proof in Merkle mode', async function () {
+      const whitelist = buildWhitelistProofs([addr1Address, ethers.Wallet.createRandom().address])
+      await presale.connect(owner).setMerkleRoot(whitelist.root)
+      await presale.connect(owner).turnOnWhitelist()
+      await client.register(getWhitelistProof(whitelist, addr1Address))
+      expect((await presale.checkRegistration(addr1Address)).isRegistered).to.be.true
+    })
+
+    it('Should throw structured error without sending transaction', async function () {
+      await presale.connect(owner).pause()
+      const nonce = await ethers.provider.getTransactionCount(addr1Address)
+      await expect(client.register())
+        .to.be.rejectedWith(PresaleClientError)
+        .and.eventually.have.deep.property('error', { name: 'EnforcedPause' })
+      expect(await ethers.provider.getTransactionCount(addr1Address)).to.equal(nonce)
+    })
+
+    it('Should not register without signer', async function () {
+      await expect(new PresaleClient(address, ethers.provider).register()).to.be.rejectedWith('not connected to signer')
+    })
+  })
+
+  describe('Errors', function () {
+    it('Should decode custom errors by selector', async function () {
+      const error = await presale
+        .connect(addr1)
+        .register({ value: registrationFee - 1n })
+        .catch((error) => error)
+      expect(client.decodeError(error)).to.deep.equal({ name: 'IncorrectRegistrationFee', registrationFee })
+    })
+
+    it('Should decode revert data', async function () {
+      const data = presale.interface.encodeErrorResult('NotEnoughFunds', [1n, 0n])
+      expect(decodePresaleError(data, presale.interface)).to.deep.equal({
+        name: 'NotEnoughFunds',
+        amount: 1n,
+        balance: 0n
+      })
+    })
+
+    it('Should not decode unknown errors', async function () {
+      expect(client.decodeError(new Error('network error'))).to.be.undefined
+      expect(decodePresaleError('0xdeadbeef', presale.interface)).to.be.undefined
+    })
+  })
+
+  describe('Events', function () {
+    it('Should subscribe to typed events', async function () {
+      const events: PresaleEvents['Registered'][] = []
+      const unsubscribe = await client.on('Registered', (args) => events.push(args))
+      await client.register()
+      while (events.length === 0) {
+        await new Promise((resolve) => setTimeout(resolve, 20))
+      }
+      await unsubscribe()
+      expect(events[0].user).to.equal(addr1Address)
+      expect(events[0].paidFee).to.equal(registrationFee)
+    })
+  })
+})
@@ -0,0 +1,163 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { expect } from 'chai'
+import hre, { ethers } from 'hardhat'
+import {
+  Scenario,
+  formatOffset,
+  formatSimulation,
+  loadScenario,
+  parseWallets,
+  runScenario,
+  walletAddress
+} from '../scripts/utils/simulator'
+
+describe('Simulator', function () {
+  this.timeout(2 * 60 * 1000)
+  const presale = {
+    startDate: 'now+1h',
+    endDate: 'now+1d',
+    maxRegistrations: 3,
+    registrationFee: '0.1',
+    whitelistStatusInit: false
+  }
+
+  describe('Run', function () {
+    it('Should run example scenario as expected', async function () {
+      const result = await runScenario(hre, loadScenario(path.join(__dirname, '..', 'scenarios', 'launch.yaml')))
+      expect(result.failures).to.be.empty
+      expect(result.summary.registrations).to.equal(9n)
+      expect(result.summary.withdrawn).to.equal(ethers.parseEther('1'))
+      expect(formatSimulation(result)).to.include('Steps: 27 of 27 as expected')
+    })
+
+    it('Should run steps at their time relative to start', async function () {
+      const result = await runScenario(hre, {
+        time: 'now+1d',
+        presale,
+        wallets: { count: 2 },
+        steps: [
+          { action: 'register', at: 'now+59m', wallets: 0, expect: 'PresaleIsNotActive' },
+          { action: 'register', at: 'now+1h', wallets: 0 },
+          { action: 'register', at: 'now+86401s', wallets: 1, expect: 'PresaleIsNotActive' }
+        ]
+      })
+      expect(result.failures).to.be.empty
+      expect(result.timeline.map((entry) => entry.timestamp - result.startTime)).to.deep.equal([3540, 3600, 86401])
+    })
+
+    it('Should record outcomes which differ from expected', async function () {
+      const result = await runScenario(hre, {
+        presale,
+        wallets: { count: 1 },
+        steps: [
+          { action: 'register', wallets: 0 },
+          { action: 'pause', expect: 'EnforcedPause' },
+          { action: 'check', registrations: 1, paused: true }
+        ]
+      })
+      expect(
+        result.failures.map(({ description, expected, outcome }) => ({ description, expected, outcome }))
+      ).to.deep.equal([
+        { description: 'register wallet 0 with 0.1 ETH', expected: 'success', outcome: 'PresaleIsNotActive' },
+        { description: 'pause', expected: 'EnforcedPause', outcome: 'success' },
+        { description: 'check registrations', expected: '1', outcome: '0' }
+      ])
+      expect(formatSimulation(result)).to.match(/FAIL \[\+0d 00:00:0\d\] #2 pause: expected EnforcedPause, got success/)
+    })
+
+    it('Should seed whitelisted wallets and revert network afterwards', async function () {
+      const blockNumber = await ethers.provider.getBlockNumber()
+      const result = await runScenario(hre, {
+        presale: { ...presale, startDate: 'now', whitelistStatusInit: true },
+        wallets: { count: 3, whitelisted: 2 },
+        steps: [
+          { action: 'register', at: 'now+1m', wallets: '0-1' },
+          { action: 'register', wallets: 2, expect: 'UserIsNotWhitelisted' }
+        ]
+      })
+      expect(result.failures).to.be.empty
+      expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber)
+      expect(await ethers.provider.getCode(result.summary.presale)).to.equal('0x')
+    })
+
+    it('Should reject step scheduled before current time', async function () {
+      await expect(runScenario(hre, { presale, steps: [{ action: 'pause', at: 'now-1h' }] })).to.be.rejectedWith(
+        /is not after current time/
+      )
+    })
+  })
+
+  describe('Scenario file', function () {
+    let dir: string
+
+    beforeEach(async () => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scenario-'))
+    })
+
+    afterEach(async () => {
+      fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    function write(name: string, scenario: Partial<Scenario> | Record<string, unknown>) {
+      const file = path.join(dir, name)
+      fs.writeFileSync(file, JSON.stringify(scenario))
+      return file
+    }
+
+    it('Should load JSON scenario named by file', async function () {
+      const scenario = loadScenario(write('launch.json', { presale, steps: [{ action: 'pause' }] }))
+      expect(scenario.name).to.equal('launch.json')
+    })
+
+    it('Should reject unknown action and wallets out of range', async function () {
+      expect(() => loadScenario(write('a.json', { presale, steps: [{ action: 'mint' }] }))).to.throw(
+        'Invalid step 1: unknown action mint'
+      )
+      expect(() =>
+        loadScenario(
+          write('b.json', { presale, wallets: { count: 2 }, steps: [{ action: 'register', wallets: '1-2' }] })
+        )
+      ).to.throw('Invalid wallet 2, scenario has 2 wallets')
+      expect(() => loadScenario(write('c.json', { presale, steps: [{ action: 'register' }] }))).to.throw(
+        'Invalid step 1: register requires wallets'
+      )
+    })
+
+    it('Should fail task when outcomes differ from expected', async function () {
+      const log = console.log
+      console.log = () => undefined
+      try {
+        const file = write('fail.json', { presale, wallets: { count: 1 }, steps: [{ action: 'register', wallets: 0 }] })
+        const out = path.join(dir, 'result.json')
+        await expect(hre.run('presale:simulate', { file, out })).to.be.rejectedWith(
+          '1 of 1 steps differ from expected outcomes'
+        )
+        expect(JSON.parse(fs.readFileSync(out, 'utf8')).failures[0].outcome).to.equal('PresaleIsNotActive')
+      } finally {
+        console.log = log
+      }
+    })
+  })
+
+  describe('Utilities', function () {
+    it('Should parse wallets as index, list or range', async function () {
+      expect(parseWallets(3, 5)).to.deep.equal([3])
+      expect(parseWallets([0, 4], 5)).to.deep.equal([0, 4])
+      expect(parseWallets('1-3', 5)).to.deep.equal([1, 2, 3])
+      expect(() => parseWallets('1..3', 5)).to.throw('Invalid wallets: 1..3')
+    })
+
+    it('Should format offset from start', async function () {
+      expect(formatOffset(0)).to.equal('+0d 00:00:00')
+      expect(formatOffset(90061)).to.equal('+1d 01:01:01')
+      expect(formatOffset(-60)).to.equal('-0d 00:01:00')
+    })
+
+    it('Should derive the same wallet addresses on every run', async function () {
+      expect(walletAddress(0)).to.equal(walletAddress(0))
+      expect(walletAddress(0)).to.not.equal(walletAddress(1))
+    })
+  })
+})
@@ -0,0 +1,126 @@
+import { expect } from 'chai'
+import hre, { ethers } from 'hardhat'
+import { ContractFactory, Signer } from 'ethers'
+import { Presale } from '../typechain-types'
+import { decodeError } from '../scripts/utils/errors'
+
+describe('Presale tasks', function () {
+  let PresaleFactory: ContractFactory
+  let presale: Presale
+  let addr1: Signer
+  let address: string
+  const startDate = Math.floor((new Date().getTime() - 2 * 60 * 60 * 1000) / 1000)
+  const endDate = Math.floor((new Date().getTime() + 5 * 24 * 60 * 60 * 1000) / 1000)
+  const maxRegistrations = 13
+  const registrationFee = ethers.parseEther('0.1')
+  const log = console.log
+  let output: string[]
+
+  before(async () => {
+    console.log = (...args: unknown[]) => output.push(args.join(' '))
+  })
+
+  after(async () => {
+    console.log = log
+  })
+
+  beforeEach(async () => {
+    PresaleFactory = await ethers.getContractFactory('Presale')
+    ;[, addr1] = await ethers.getSigners()
+    presale = (await PresaleFactory.deploy(startDate, endDate, maxRegistrations, registrationFee, false)) as Presale
+    address = await presale.getAddress()
+    output = []
+  })
+
+  describe('Status', function () {
+    it('Should print state and settings of Presale', async function () {
+      await hre.run('presale:status', { address })
+      expect(output).to.include('State:  active')
+      expect(output).to.include('Registration fee:  0.1 ETH')
+    })
+  })
+
+  describe('Settings', function () {
+    it('Should change only passed settings', async function () {
+      await hre.run('presale:settings', { address, max: 20, fee: '0.2' })
+      expect(await presale.getSettings()).to.deep.equal([
+        BigInt(startDate),
+        BigInt(endDate),
+        BigInt(20),
+        ethers.parseEther('0.2')
+      ])
+    })
+
+    it('Should not send transaction in dry run', async function () {
+      await hre.run('presale:settings', { address, max: 20, dryRun: true })
+      expect((await presale.getSettings())[2]).to.equal(BigInt(maxRegistrations))
+    })
+
+    it('Should throw readable error of contract', async function () {
+      await expect(hre.run('presale:settings', { address, start: String(endDate + 1) })).to.be.rejectedWith(
+        /PresaleIncorrectDates: Start date .* is after end date/
+      )
+    })
+  })
+
+  describe('Withdraw', function () {
+    it('Should withdraw whole balance', async function () {
+      await presale.connect(addr1).register({ value: registrationFee })
+      await hre.run('presale:withdraw', { address, all: true })
+      expect(await ethers.provider.getBalance(address)).to.equal(0)
+    })
+
+    it('Should not allow to pass amount and all together', async function () {
+      await expect(hre.run('presale:withdraw', { address, amount: '0.1', all: true })).to.be.rejectedWith(
+        'Pass either --amount or --all'
+      )
+    })
+  })
+
+  describe('Management', function () {
+    it('Should pause and unpause Presale', async function () {
+      await hre.run('presale:pause', { address })
+      expect(await presale.paused()).to.be.true
+      await hre.run('presale:unpause', { address })
+      expect(await presale.paused()).to.be.false
+    })
+
+    it('Should manage whitelist', async function () {
+      const addr1Address = await addr1.getAddress()
+      await hre.run('presale:whitelist:on', { address })
+      await hre.run('presale:whitelist:add', { address, users: [addr1Address] })
+      expect(await presale.whitelistStatus()).to.be.true
+      expect(await presale.isAddressWhitelisted(addr1Address)).to.be.true
+    })
+  })
+
+  describe('Fee token', function () {
+    it('Should set fee token with address in any case', async function () {
+      const token = await ethers.deployContract('MockERC20', ['USD Coin', 'USDC', 6])
+      const tokenAddress = await token.getAddress()
+      await hre.run('presale:fee-token', { address, token: tokenAddress.toLowerCase(), fee: '10.5' })
+      expect(await presale.feeToken()).to.equal(tokenAddress)
+      expect(await presale.tokenRegistrationFee()).to.equal(ethers.parseUnits('10.5', 6))
+    })
+
+    it('Should reject invalid address of token', async function () {
+      await expect(hre.run('presale:fee-token', { address, token: 'usdc.eth', fee: '1' })).to.be.rejectedWith(
+        'Invalid address: usdc.eth'
+      )
+    })
+  })
+
+  describe('Errors', function () {
+    it('Should decode custom error of contract', async function () {
+      await presale.connect(addr1).register({ value: registrationFee })
+      const error = await presale.setSettings(startDate, endDate, 0, registrationFee).catch((error: unknown) => error)
+      const decoded = decodeError(error, presale.interface)
+      expect(decoded?.name).to.equal('InvalidMaxRegistrationsUpdate')
+      expect(decoded?.message).to.equal('Max registrations 0 is less than current number of registrations 1')
+    })
+
+    it('Should not decode unknown error', async function () {
+      expect(decodeError(new Error('network error'), presale.interface)).to.be.undefined
+    })
+  })
+})
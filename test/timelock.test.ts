@@ -0,0 +1,378 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { expect } from 'chai'
+import hre, { ethers, network } from 'hardhat'
+import { ContractFactory, Signer, ZeroAddress, ZeroHash } from 'ethers'
+import { Presale, PresaleTimelock } from '../typechain-types'
+import { deployTimelock, listOperations } from '../scripts/utils/timelock'
+
+describe('Timelock', function () {
+  let TimelockFactory: ContractFactory
+  let presale: Presale
+  let timelock: PresaleTimelock
+  let owner: Signer
+  let addr1: Signer
+  let addr2: Signer
+  let addr3: Signer
+  let presaleAddress: string
+  let timelockAddress: string
+  let snapshot: string
+  let now: number
+  const DAY = 24 * 60 * 60
+  const maxRegistrations = 13
+  const registrationFee = ethers.parseEther('0.1')
+
+  async function at(timestamp: number | bigint) {
+    await network.provider.send('evm_setNextBlockTimestamp', [Number(timestamp)])
+  }
+
+  async function mineAt(timestamp: number | bigint) {
+    await at(timestamp)
+    await network.provider.send('hardhat_mine', ['0x1'])
+  }
+
+  /** Schedule call of Presale by owner, which counts as the first approval. */
+  async function queue(data: string, salt: string = ZeroHash, target: string = presaleAddress) {
+    await timelock.connect(owner).schedule(target, 0, data, ZeroHash, salt, DAY)
+    return timelock.hashOperation(target, 0, data, ZeroHash, salt)
+  }
+
+  function execute(data: string, salt: string = ZeroHash, target: string = presaleAddress) {
+    return timelock.execute(target, 0, data, ZeroHash, salt)
+  }
+
+  /** Queue call, approve it by second proposer and execute it after delay. */
+  async function queueAndExecute(data: string, target: string = presaleAddress) {
+    const id = await queue(data, ZeroHash, target)
+    await timelock.connect(addr1).approve(id)
+    await at(await timelock.getTimestamp(id))
+    return execute(data, ZeroHash, target)
+  }
+
+  beforeEach(async () => {
+    snapshot = await network.provider.send('evm_snapshot')
+    ;[owner, addr1, addr2, addr3] = await ethers.getSigners()
+    now = Number((await ethers.provider.getBlock('latest'))?.timestamp)
+    presale = (await ethers.deployContract('Presale', [
+      now - 60,
+      now + 30 * DAY,
+      maxRegistrations,
+      registrationFee,
+      false
+    ])) as unknown as Presale
+    presaleAddress = await presale.getAddress()
+    TimelockFactory = await ethers.getContractFactory('PresaleTimelock')
+    timelock = (await TimelockFactory.deploy(
+      DAY,
+      [await owner.getAddress(), await addr1.getAddress(), await addr2.getAddress()],
+      [ZeroAddress],
+      2
+    )) as unknown as PresaleTimelock
+    timelockAddress = await timelock.getAddress()
+    await presale.transferOwnership(timelockAddress)
+    await queueAndExecute(presale.interface.encodeFunctionData('acceptOwnership'))
+  })
+
+  afterEach(async () => {
+    await network.provider.send('evm_revert', [snapshot])
+  })
+
+  describe('Deployment', function () {
+    it('Should own Presale after accepting ownership through operation', async function () {
+      expect(await presale.owner()).to.equal(timelockAddress)
+      expect(await presale.pendingOwner()).to.equal(ZeroAddress)
+    })
+
+    it('Should reject direct calls of former owner', async function () {
+      await expect(presale.connect(owner).setSettings(now, now + DAY, 1, 0))
+        .to.be.revertedWithCustomError(presale, 'OwnableUnauthorizedAccount')
+        .withArgs(await owner.getAddress())
+    })
+
+    it('Should reject approval threshold above number of proposers', async function () {
+      await expect(TimelockFactory.deploy(DAY, [await owner.getAddress()], [ZeroAddress], 2))
+        .to.be.revertedWithCustomError(TimelockFactory, 'InvalidApprovalThreshold')
+        .withArgs(2)
+      await expect(TimelockFactory.deploy(DAY, [await owner.getAddress()], [ZeroAddress], 0))
+        .to.be.revertedWithCustomError(TimelockFactory, 'InvalidApprovalThreshold')
+        .withArgs(0)
+    })
+
+    it('Should record timelock in manifest', async function () {
+      const deploymentsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'timelock-'))
+      try {
+        const proposers = [await owner.getAddress()]
+        const { timelock: deployed, deployment } = await deployTimelock(hre, {
+          minDelay: 3600,
+          proposers,
+          executors: [ZeroAddress],
+          approvalThreshold: 1,
+          deploymentsDir
+        })
+        const manifest = JSON.parse(fs.readFileSync(path.join(deploymentsDir, 'hardhat.json'), 'utf8'))
+        expect(manifest.contracts.PresaleTimelock.address).to.equal(deployment.address)
+        expect(deployment.args).to.deep.equal(['3600', proposers, [ZeroAddress], '1'])
+        expect(await deployed.getMinDelay()).to.equal(3600n)
+      } finally {
+        fs.rmSync(deploymentsDir, { recursive: true, force: true })
+      }
+    })
+  })
+
+  describe('Queue', function () {
+    it('Should schedule operation with ETA after delay and approve it by proposer', async function () {
+      const data = presale.interface.encodeFunctionData('pause')
+      const id = await timelock.hashOperation(presaleAddress, 0, data, ZeroHash, ZeroHash)
+      const tx = timelock.connect(owner).schedule(presaleAddress, 0, data, ZeroHash, ZeroHash, DAY)
+      await expect(tx).to.emit(timelock, 'CallScheduled').withArgs(id, 0, presaleAddress, 0, data, ZeroHash, DAY)
+      await expect(tx)
+        .to.emit(timelock, 'Approved')
+        .withArgs(id, await owner.getAddress(), 1)
+      const timestamp = (await ethers.provider.getBlock('latest'))?.timestamp
+      expect(await timelock.getTimestamp(id)).to.equal(BigInt(Number(timestamp) + DAY))
+      expect(await timelock.isOperationPending(id)).to.be.true
+      expect(await timelock.isOperationReady(id)).to.be.false
+    })
+
+    it('Should reject delay below minimum delay', async function () {
+      const data = presale.interface.encodeFunctionData('pause')
+      await expect(timelock.connect(owner).schedule(presaleAddress, 0, data, ZeroHash, ZeroHash, DAY - 1))
+        .to.be.revertedWithCustomError(timelock, 'TimelockInsufficientDelay')
+        .withArgs(DAY - 1, DAY)
+    })
+
+    it('Should allow only proposers to schedule and approve', async function () {
+      const data = presale.interface.encodeFunctionData('pause')
+      await expect(
+        timelock.connect(addr3).schedule(presaleAddress, 0, data, ZeroHash, ZeroHash, DAY)
+      ).to.be.revertedWithCustomError(timelock, 'AccessControlUnauthorizedAccount')
+      const id = await queue(data)
+      await expect(timelock.connect(addr3).approve(id)).to.be.revertedWithCustomError(
+        timelock,
+        'AccessControlUnauthorizedAccount'
+      )
+    })
+  })
+
+  describe('Execute', function () {
+    let data: string
+    let id: string
+    let eta: bigint
+
+    beforeEach(async () => {
+      data = presale.interface.encodeFunctionData('setSettings', [now, now + 10 * DAY, 20, registrationFee * 2n])
+      id = await queue(data)
+      await timelock.connect(addr1).approve(id)
+      eta = await timelock.getTimestamp(id)
+    })
+
+    it('Should not execute operation before ETA', async function () {
+      await expect(execute(data))
+        .to.be.revertedWithCustomError(timelock, 'TimelockUnexpectedOperationState')
+        .withArgs(id, 1n << 2n)
+      await mineAt(eta - 2n)
+      await at(eta - 1n)
+      await expect(execute(data)).to.be.revertedWithCustomError(timelock, 'TimelockUnexpectedOperationState')
+      expect((await presale.getSettings())[2]).to.equal(BigInt(maxRegistrations))
+    })
+
+    it('Should execute operation at ETA', async function () {
+      await at(eta)
+      await expect(execute(data)).to.emit(timelock, 'CallExecuted').withArgs(id, 0, presaleAddress, 0, data)
+      expect(await presale.getSettings()).to.deep.equal([
+        BigInt(now),
+        BigInt(now + 10 * DAY),
+        20n,
+        registrationFee * 2n
+      ])
+      expect(await timelock.isOperationDone(id)).to.be.true
+      await expect(execute(data)).to.be.revertedWithCustomError(timelock, 'TimelockUnexpectedOperationState')
+    })
+
+    it('Should not execute operation without enough approvals', async function () {
+      const pauseData = presale.interface.encodeFunctionData('pause')
+      const pauseId = await queue(pauseData)
+      await mineAt(eta + BigInt(DAY))
+      await expect(execute(pauseData))
+        .to.be.revertedWithCustomError(timelock, 'NotEnoughApprovals')
+        .withArgs(pauseId, 1, 2)
+      expect(await presale.paused()).to.be.false
+    })
+
+    it('Should bubble up custom error of Presale', async function () {
+      const invalidData = presale.interface.encodeFunctionData('setSettings', [now + DAY, now, 20, 0])
+      const invalidId = await queue(invalidData)
+      await timelock.connect(addr1).approve(invalidId)
+      await at(await timelock.getTimestamp(invalidId))
+      await expect(execute(invalidData)).to.be.revertedWithCustomError(presale, 'PresaleIncorrectDates')
+    })
+
+    it('Should allow only executors to execute when executors are restricted', async function () {
+      const restricted = (await TimelockFactory.deploy(
+        DAY,
+        [await owner.getAddress()],
+        [await owner.getAddress()],
+        1
+      )) as unknown as PresaleTimelock
+      await restricted.schedule(presaleAddress, 0, data, ZeroHash, ZeroHash, DAY)
+      await mineAt(eta + BigInt(DAY))
+      await expect(
+        restricted.connect(addr3).execute(presaleAddress, 0, data, ZeroHash, ZeroHash)
+      ).to.be.revertedWithCustomError(restricted, 'AccessControlUnauthorizedAccount')
+    })
+  })
+
+  describe('Approvals', function () {
+    let data: string
+    let id: string
+
+    beforeEach(async () => {
+      data = presale.interface.encodeFunctionData('pause')
+      id = await queue(data)
+    })
+
+    it('Should count approvals of proposers once', async function () {
+      await expect(timelock.connect(addr1).approve(id))
+        .to.emit(timelock, 'Approved')
+        .withArgs(id, await addr1.getAddress(), 2)
+      expect(await timelock.getApprovalCount(id)).to.equal(2n)
+      expect(await timelock.isApproved(id, await addr1.getAddress())).to.be.true
+      await expect(timelock.connect(addr1).approve(id))
+        .to.be.revertedWithCustomError(timelock, 'OperationAlreadyApproved')
+        .withArgs(id, await addr1.getAddress())
+    })
+
+    it('Should not approve operation which is not pending', async function () {
+      const unknownId = await timelock.hashOperation(presaleAddress, 0, data, ZeroHash, ethers.id('unknown'))
+      await expect(timelock.connect(addr1).approve(unknownId)).to.be.revertedWithCustomError(
+        timelock,
+        'TimelockUnexpectedOperationState'
+      )
+    })
+
+    it('Should drop approvals of cancelled operation', async function () {
+      await timelock.connect(addr1).approve(id)
+      await expect(timelock.connect(addr2).cancel(id)).to.emit(timelock, 'Cancelled').withArgs(id)
+      expect(await timelock.getApprovalCount(id)).to.equal(0n)
+      await queue(data)
+      expect(await timelock.getApprovalCount(id)).to.equal(1n)
+      expect(await timelock.isApproved(id, await addr1.getAddress())).to.be.false
+      await at(await timelock.getTimestamp(id))
+      await expect(execute(data)).to.be.revertedWithCustomError(timelock, 'NotEnoughApprovals').withArgs(id, 1, 2)
+    })
+
+    it('Should change approval threshold only by operation of timelock', async function () {
+      await expect(timelock.connect(owner).setApprovalThreshold(1))
+        .to.be.revertedWithCustomError(timelock, 'TimelockUnauthorizedCaller')
+        .withArgs(await owner.getAddress())
+      const thresholdData = timelock.interface.encodeFunctionData('setApprovalThreshold', [1])
+      await expect(queueAndExecute(thresholdData, timelockAddress))
+        .to.emit(timelock, 'ChangedApprovalThreshold')
+        .withArgs(2, 1)
+      await expect(execute(data)).to.emit(presale, 'Paused')
+    })
+  })
+
+  describe('Funds', function () {
+    it('Should withdraw funds of Presale to timelock', async function () {
+      await presale.connect(addr3).register({ value: registrationFee })
+      await expect(
+        queueAndExecute(presale.interface.encodeFunctionData('withdrawFunds', [registrationFee]))
+      ).to.changeEtherBalances([presale, timelock], [-registrationFee, registrationFee])
+    })
+  })
+
+  describe('Guardian', function () {
+    beforeEach(async () => {
+      await queueAndExecute(presale.interface.encodeFunctionData('setGuardian', [await addr3.getAddress()]))
+    })
+
+    it('Should let guardian pause Presale without delay', async function () {
+      expect(await presale.guardian()).to.equal(await addr3.getAddress())
+      await expect(presale.connect(addr3).pause()).to.emit(presale, 'Paused')
+      await expect(presale.connect(addr3).unpause())
+        .to.be.revertedWithCustomError(presale, 'OwnableUnauthorizedAccount')
+        .withArgs(await addr3.getAddress())
+    })
+
+    it('Should not let other accounts pause Presale or set guardian', async function () {
+      await expect(presale.connect(addr2).pause())
+        .to.be.revertedWithCustomError(presale, 'OwnableUnauthorizedAccount')
+        .withArgs(await addr2.getAddress())
+      await expect(presale.connect(addr3).setGuardian(await addr2.getAddress())).to.be.revertedWithCustomError(
+        presale,
+        'OwnableUnauthorizedAccount'
+      )
+    })
+  })
+
+  describe('Tasks', function () {
+    const log = console.log
+    let output: string[]
+
+    beforeEach(async () => {
+      output = []
+      console.log = (...args: unknown[]) => output.push(args.join(' '))
+    })
+
+    afterEach(async () => {
+      console.log = log
+    })
+
+    it('Should queue, list and execute operation', async function () {
+      await hre.run('timelock:queue', {
+        address: presaleAddress,
+        timelock: timelockAddress,
+        function: 'setMinRegistrations',
+        args: '[3]'
+      })
+      const id = output
+        .find((line) => line.startsWith('Operation: '))
+        ?.split(' ')
+        .pop() as string
+      const operation = (await listOperations(timelock)).find((item) => item.id === id)
+      expect(operation?.state).to.equal('waiting')
+
+      await timelock.connect(addr1).approve(id)
+      await expect(hre.run('timelock:execute', { timelock: timelockAddress, id })).to.be.rejectedWith(
+        /TimelockUnexpectedOperationState: Operation .* is not scheduled, not ready yet or already done/
+      )
+
+      await mineAt(operation?.eta as bigint)
+      output = []
+      await hre.run('timelock:list', { timelock: timelockAddress })
+      expect(output).to.include('  State:  ready')
+      expect(output).to.include('  Approvals:  2 of 2')
+      expect(output).to.include(`  Call:  ${presaleAddress}.setMinRegistrations(3)`)
+
+      await hre.run('timelock:execute', { timelock: timelockAddress, id })
+      expect(await presale.minRegistrations()).to.equal(3n)
+      output = []
+      await hre.run('timelock:list', { timelock: timelockAddress })
+      expect(output).to.deep.equal(['No operations'])
+    })
+
+    it('Should cancel operation', async function () {
+      await hre.run('timelock:queue', {
+        address: presaleAddress,
+        timelock: timelockAddress,
+        function: 'pause'
+      })
+      const id = output
+        .find((line) => line.startsWith('Operation: '))
+        ?.split(' ')
+        .pop() as string
+      await hre.run('timelock:cancel', { timelock: timelockAddress, id })
+      output = []
+      await hre.run('timelock:list', { timelock: timelockAddress, all: true })
+      expect(output).to.include('  State:  cancelled')
+    })
+
+    it('Should reject unknown function', async function () {
+      await expect(
+        hre.run('timelock:queue', { address: presaleAddress, timelock: timelockAddress, function: 'mint' })
+      ).to.be.rejectedWith('Unknown function mint')
+    })
+  })
+})
@@ -0,0 +1,229 @@
+import { expect } from 'chai'
+import hre, { ethers } from 'hardhat'
+import { ContractFactory, Signer, ZeroAddress } from 'ethers'
+import { MockERC20, MockFeeOnTransferERC20, Presale } from '../typechain-types'
+import { PresaleClient } from '../src/sdk'
+
+describe('Registration with token', function () {
+  let PresaleFactory: ContractFactory
+  let presale: Presale
+  let token: MockERC20
+  let owner: Signer
+  let addr1: Signer
+  let addr2: Signer
+  let addr1Address: string
+  let address: string
+  let tokenAddress: string
+  const startDate = Math.floor((new Date().getTime() - 2 * 60 * 60 * 1000) / 1000)
+  const endDate = Math.floor((new Date().getTime() + 5 * 24 * 60 * 60 * 1000) / 1000)
+  const maxRegistrations = 13
+  const registrationFee = ethers.parseEther('0.1')
+  const tokenRegistrationFee = ethers.parseUnits('10', 6)
+
+  beforeEach(async () => {
+    PresaleFactory = await ethers.getContractFactory('Presale')
+    ;[owner, addr1, addr2] = await ethers.getSigners()
+    addr1Address = await addr1.getAddress()
+    presale = (await PresaleFactory.deploy(startDate, endDate, maxRegistrations, registrationFee, false)) as Presale
+    address = await presale.getAddress()
+    token = (await ethers.deployContract('MockERC20', ['USD Coin', 'USDC', 6])) as unknown as MockERC20
+    tokenAddress = await token.getAddress()
+    await token.mint(addr1Address, tokenRegistrationFee * 10n)
+    await token.mint(await addr2.getAddress(), tokenRegistrationFee * 10n)
+    await presale.connect(owner).setFeeToken(tokenAddress, tokenRegistrationFee)
+  })
+
+  describe('Settings', function () {
+    it('Should emit the correct event after changing fee token', async function () {
+      await expect(presale.connect(owner).setFeeToken(tokenAddress, tokenRegistrationFee * 2n))
+        .to.emit(presale, 'ChangedFeeToken')
+        .withArgs(tokenAddress, tokenAddress, tokenRegistrationFee, tokenRegistrationFee * 2n)
+    })
+
+    it('Should not allow non-owners to change fee token', async function () {
+      await expect(presale.connect(addr1).setFeeToken(ZeroAddress, 0)).to.be.revertedWithCustomError(
+        presale,
+        'OwnableUnauthorizedAccount'
+      )
+    })
+
+    it('Should not allow to change token holding fees', async function () {
+      await token.connect(addr1).approve(address, tokenRegistrationFee)
+      await presale.connect(addr1).registerWithToken([])
+      await expect(presale.connect(owner).setFeeToken(ZeroAddress, 0))
+        .to.be.revertedWithCustomError(presale, 'FeeTokenInUse')
+        .withArgs(tokenAddress)
+    })
+
+    it('Should set fee token after registrations with ETH', async function () {
+      await presale.connect(owner).setFeeToken(ZeroAddress, 0)
+      await presale.connect(addr2).register({ value: registrationFee })
+      await expect(presale.connect(owner).setFeeToken(tokenAddress, tokenRegistrationFee))
+        .to.emit(presale, 'ChangedFeeToken')
+        .withArgs(ZeroAddress, tokenAddress, 0, tokenRegistrationFee)
+      await token.connect(addr1).approve(address, tokenRegistrationFee)
+      await presale.connect(addr1).registerWithToken([])
+      expect(await presale.getTotalFees(tokenAddress)).to.equal(tokenRegistrationFee)
+      expect(await presale.getTotalFees(ZeroAddress)).to.equal(registrationFee)
+    })
+
+    it('Should not register with token when fee token is not set', async function () {
+      await presale.connect(owner).setFeeToken(ZeroAddress, 0)
+      await expect(presale.connect(addr1).registerWithToken([])).to.be.revertedWithCustomError(
+        presale,
+        'FeeTokenIsNotSet'
+      )
+    })
+  })
+
+  describe('Registration', function () {
+    it('Should register user with approved fee', async function () {
+      await token.connect(addr1).approve(address, tokenRegistrationFee * 2n)
+      const tx = presale.connect(addr1).registerWithToken([])
+      await expect(tx).to.changeTokenBalances(token, [addr1, presale], [-tokenRegistrationFee, tokenRegistrationFee])
+      await expect(tx)
+        .to.emit(presale, 'Registered')
+        .withArgs(addr1Address, (value: bigint) => value > 0n, tokenRegistrationFee, tokenAddress, 0)
+      const registration = await presale.checkRegistration(addr1Address)
+      expect(registration.paidFee).to.equal(tokenRegistrationFee)
+      expect(registration.asset).to.equal(tokenAddress)
+      expect(await presale.getRegistrationCount()).to.equal(1n)
+    })
+
+    it('Should not register user without allowance', async function () {
+      await expect(presale.connect(addr1).registerWithToken([])).to.be.revertedWithCustomError(
+        token,
+        'ERC20InsufficientAllowance'
+      )
+    })
+
+    it('Should not register user twice with ETH and token', async function () {
+      await presale.connect(addr1).register({ value: registrationFee })
+      await token.connect(addr1).approve(address, tokenRegistrationFee)
+      await expect(presale.connect(addr1).registerWithToken([])).to.be.revertedWithCustomError(
+        presale,
+        'UserAlreadyRegistered'
+      )
+    })
+
+    it('Should keep other checks of registration', async function () {
+      await token.connect(addr1).approve(address, tokenRegistrationFee)
+      await presale.connect(owner).pause()
+      await expect(presale.connect(addr1).registerWithToken([])).to.be.revertedWithCustomError(presale, 'EnforcedPause')
+    })
+
+    it('Should register user with permit in single transaction', async function () {
+      const deadline = BigInt(endDate)
+      const { v, r, s } = await new PresaleClient(address, addr1).signPermit(deadline)
+      const nonce = await ethers.provider.getTransactionCount(addr1Address)
+      await presale.connect(addr1).registerWithPermit([], deadline, v, r, s)
+      expect(await ethers.provider.getTransactionCount(addr1Address)).to.equal(nonce + 1)
+      expect(await token.balanceOf(address)).to.equal(tokenRegistrationFee)
+      expect(await token.allowance(addr1Address, address)).to.equal(0n)
+    })
+
+    it('Should register user with permit used by front-runner', async function () {
+      const deadline = BigInt(endDate)
+      const { v, r, s } = await new PresaleClient(address, addr1).signPermit(deadline)
+      await token.connect(addr2).permit(addr1Address, address, tokenRegistrationFee, deadline, v, r, s)
+      await presale.connect(addr1).registerWithPermit([], deadline, v, r, s)
+      expect((await presale.checkRegistration(addr1Address)).isRegistered).to.be.true
+    })
+
+    it('Should register signer with token by client', async function () {
+      const client = new PresaleClient(address, addr1)
+      await client.registerWithToken([], await client.signPermit(BigInt(endDate)))
+      expect((await presale.checkRegistration(addr1Address)).asset).to.equal(tokenAddress)
+    })
+  })
+
+  describe('Withdraw and refund', function () {
+    beforeEach(async () => {
+      await token.connect(addr1).approve(address, tokenRegistrationFee)
+      await presale.connect(addr1).registerWithToken([])
+    })
+
+    it('Should allow the owner to withdraw token', async function () {
+      const tx = presale.connect(owner).withdrawTokenFunds(tokenAddress, tokenRegistrationFee)
+      await expect(tx).to.changeTokenBalances(token, [presale, owner], [-tokenRegistrationFee, tokenRegistrationFee])
+      await expect(tx)
+        .to.emit(presale, 'TokenWithdrawal')
+        .withArgs(tokenAddress, tokenRegistrationFee, (value: bigint) => value > 0n)
+    })
+
+    it('Should not allow non-owners to withdraw token', async function () {
+      await expect(
+        presale.connect(addr1).withdrawTokenFunds(tokenAddress, tokenRegistrationFee)
+      ).to.be.revertedWithCustomError(presale, 'OwnableUnauthorizedAccount')
+    })
+
+    it('Should not allow the owner to withdraw token locked for refunds', async function () {
+      await presale.connect(owner).setMinRegistrations(2)
+      expect(await presale.getLockedFunds(tokenAddress)).to.equal(tokenRegistrationFee)
+      expect(await presale.getLockedFunds(ZeroAddress)).to.equal(0n)
+      await expect(presale.connect(owner).withdrawTokenFunds(tokenAddress, 1))
+        .to.be.revertedWithCustomError(presale, 'NotEnoughFunds')
+        .withArgs(1, 0)
+    })
+
+    it('Should refund fee in token', async function () {
+      await presale.connect(owner).cancelPresale()
+      await expect(presale.connect(addr1).refund())
+        .to.emit(presale, 'Refunded')
+        .withArgs(addr1Address, tokenRegistrationFee, tokenAddress)
+      expect(await token.balanceOf(addr1Address)).to.equal(tokenRegistrationFee * 10n)
+    })
+
+    it('Should not cancel until withdrawn token is returned', async function () {
+      await presale.connect(owner).withdrawTokenFunds(tokenAddress, tokenRegistrationFee)
+      await expect(presale.connect(owner).cancelPresale())
+        .to.be.revertedWithCustomError(presale, 'NotEnoughFunds')
+        .withArgs(tokenRegistrationFee, 0)
+      await token.connect(owner).transfer(address, tokenRegistrationFee)
+      await presale.connect(owner).cancelPresale()
+    })
+
+    it('Should withdraw token by task', async function () {
+      const log = console.log
+      console.log = () => undefined
+      try {
+        await hre.run('presale:withdraw', { address, token: tokenAddress, all: true })
+      } finally {
+        console.log = log
+      }
+      expect(await token.balanceOf(address)).to.equal(0n)
+    })
+  })
+
+  describe('Fee-on-transfer token', function () {
+    let feeToken: MockFeeOnTransferERC20
+    const transferFee = 100n
+
+    beforeEach(async () => {
+      feeToken = (await ethers.deployContract('MockFeeOnTransferERC20', [
+        'Taxed USD',
+        'TUSD',
+        6,
+        transferFee
+      ])) as unknown as MockFeeOnTransferERC20
+      await feeToken.mint(addr1Address, tokenRegistrationFee)
+      await presale.connect(owner).setFeeToken(await feeToken.getAddress(), tokenRegistrationFee)
+      await feeToken.connect(addr1).approve(address, tokenRegistrationFee)
+      await presale.connect(addr1).registerWithToken([])
+    })
+
+    it('Should record amount received by contract', async function () {
+      const received = tokenRegistrationFee - (tokenRegistrationFee * transferFee) / 10000n
+      expect((await presale.checkRegistration(addr1Address)).paidFee).to.equal(received)
+      expect(await feeToken.balanceOf(address)).to.equal(received)
+    })
+
+    it('Should refund exactly the amount received', async function () {
+      await presale.connect(owner).cancelPresale()
+      expect(await presale.getLockedFunds(await feeToken.getAddress())).to.equal(await feeToken.balanceOf(address))
+      await presale.connect(addr1).refund()
+      expect(await feeToken.balanceOf(address)).to.equal(0n)
+      expect(await presale.getLockedFunds(await feeToken.getAddress())).to.equal(0n)
+    })
+  })
+})
@@ -0,0 +1,210 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { expect } from 'chai'
+import hre, { ethers } from 'hardhat'
+import type { MockPresaleV2, Presale } from '../typechain-types'
+import { PresaleNetworkConfig } from '../scripts/utils/config'
+import {
+  IMPLEMENTATION_ARGS,
+  deployPresale,
+  getImplementationAddress,
+  readManifest,
+  upgradePresale
+} from '../scripts/utils/deployment'
+import { StorageLayout, compareStorageLayouts, getStorageLayout } from '../scripts/utils/storage-layout'
+
+describe('Upgrades', function () {
+  const config: PresaleNetworkConfig = {
+    startDate: 'now-2h',
+    endDate: 'now+5d',
+    maxRegistrations: 13,
+    registrationFee: '0.1',
+    whitelistStatusInit: true,
+    proxy: true
+  }
+  const registrationFee = ethers.parseEther('0.1')
+  let deploymentsDir: string
+
+  beforeEach(async () => {
+    deploymentsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deployments-'))
+  })
+
+  afterEach(async () => {
+    fs.rmSync(deploymentsDir, { recursive: true, force: true })
+  })
+
+  describe('Storage layout', function () {
+    let layout: StorageLayout
+
+    beforeEach(async () => {
+      layout = await getStorageLayout(hre, 'Presale')
+    })
+
+    it('Should accept layout with appended storage', async function () {
+      const next = await getStorageLayout(hre, 'MockPresaleV2')
+
+      expect(next.storage.length).to.equal(layout.storage.length + 1)
+      expect(compareStorageLayouts(layout, next)).to.be.empty
+    })
+
+    it('Should reject layout with shifted storage', async function () {
+      const problems = compareStorageLayouts(layout, await getStorageLayout(hre, 'MockPresaleStorageClash'))
+
+      expect(problems).to.include('_paused: replaced by clash in slot 0')
+      expect(problems).to.have.length(layout.storage.length)
+    })
+
+    it('Should reject removed variables and changed types', async function () {
+      const next: StorageLayout = structuredClone(layout)
+      const removed = next.storage.pop()
+      const startDate = next.storage.find((item) => item.label === 'startDate')
+      if (!removed || !startDate) {
+        throw new Error('Unexpected layout of Presale')
+      }
+      startDate.type = 't_bool'
+
+      expect(compareStorageLayouts(layout, next)).to.deep.equal([
+        'startDate: type changed from uint256 to bool',
+        `${removed.label}: removed from slot ${removed.slot}`
+      ])
+    })
+
+    it('Should allow new members of struct stored in mapping only', async function () {
+      const next: StorageLayout = structuredClone(layout)
+      const registrationType = Object.entries(next.types ?? {}).find(
+        ([, type]) => type.label === 'struct Presale.Registration'
+      )?.[1]
+      if (!registrationType?.members) {
+        throw new Error('Unexpected layout of Presale')
+      }
+      const [first] = registrationType.members
+      registrationType.members.push({ ...first, label: 'bonus', slot: '100' })
+      registrationType.numberOfBytes = '3232'
+      expect(compareStorageLayouts(layout, next)).to.be.empty
+
+      registrationType.members.splice(1, 0, { ...first, label: 'bonus' })
+      expect(compareStorageLayouts(layout, next)).to.include(
+        'registrations value.timestamp: replaced by bonus in slot 1'
+      )
+    })
+  })
+
+  describe('Proxy', function () {
+    it('Should deploy Presale behind proxy and record version in manifest', async function () {
+      const [owner] = await ethers.getSigners()
+      const { deployment } = await deployPresale(hre, { config, deploymentsDir })
+      const presale = await ethers.getContractAt('Presale', deployment.address)
+
+      expect(deployment.implementation).to.equal(await getImplementationAddress(hre, deployment.address))
+      expect(deployment.version).to.equal('1')
+      expect(deployment.versions).to.have.length(1)
+      expect(deployment.versions?.[0]).to.include({ version: '1', implementation: deployment.implementation })
+      expect(deployment.storageLayout).to.deep.equal(await getStorageLayout(hre, 'Presale'))
+      expect(readManifest(hre.network.name, deploymentsDir)?.contracts.Presale).to.deep.equal(deployment)
+      expect(await presale.owner()).to.equal(owner.address)
+      expect(await presale.whitelistStatus()).to.be.true
+      expect(await presale.getSettings()).to.include.members([BigInt(13), registrationFee])
+    })
+
+    it('Should not allow initializing proxy, implementation or plain deployment again', async function () {
+      const [, attacker] = await ethers.getSigners()
+      const { deployment } = await deployPresale(hre, { config, deploymentsDir })
+      const proxy = (await ethers.getContractAt('Presale', deployment.address)) as unknown as Presale
+      const implementation = (await ethers.getContractAt(
+        'Presale',
+        deployment.implementation as string
+      )) as unknown as Presale
+      const plain = (await ethers.deployContract('Presale', [0, 1, 1, registrationFee, false])) as unknown as Presale
+
+      for (const presale of [proxy, implementation, plain]) {
+        await expect(
+          presale.connect(attacker).initialize(attacker.address, 0, 1, 1, 0, false)
+        ).to.be.revertedWithCustomError(presale, 'InvalidInitialization')
+      }
+      expect(await implementation.getSettings()).to.deep.equal(IMPLEMENTATION_ARGS.slice(0, 4))
+    })
+
+    it('Should keep registrations, whitelist and settings after upgrade', async function () {
+      const [owner, addr1, addr2, addr3, guardian] = await ethers.getSigners()
+      const { deployment } = await deployPresale(hre, { config, deploymentsDir })
+      const presale = (await ethers.getContractAt('Presale', deployment.address)) as unknown as Presale
+      await presale.addBatchToWhitelist([addr1.address, addr2.address, addr3.address])
+      await presale.connect(addr1).register({ value: registrationFee })
+      await presale.connect(addr2).register({ value: registrationFee })
+      await presale.setGuardian(guardian.address)
+      await presale.setReferralRebate(500)
+      const settings = await presale.getSettings()
+      const registration = await presale.checkRegistration(addr1.address)
+
+      const { deployment: upgraded } = await upgradePresale(hre, { contract: 'MockPresaleV2', deploymentsDir })
+      const presaleV2 = (await ethers.getContractAt('MockPresaleV2', deployment.address)) as unknown as MockPresaleV2
+
+      expect(await presaleV2.VERSION()).to.equal(2)
+      expect(upgraded.address).to.equal(deployment.address)
+      expect(upgraded.implementation).to.equal(await getImplementationAddress(hre, deployment.address))
+      expect(upgraded.implementation).to.not.equal(deployment.implementation)
+      expect(upgraded.versions?.map(({ version }) => version)).to.deep.equal(['1', '2'])
+      expect(readManifest(hre.network.name, deploymentsDir)?.contracts.Presale).to.deep.equal(upgraded)
+
+      expect(await presaleV2.checkRegistration(addr1.address)).to.deep.equal(registration)
+      expect((await presaleV2.checkRegistration(addr2.address)).isRegistered).to.be.true
+      expect(await presaleV2.getRegistrationCount()).to.equal(2)
+      expect(await presaleV2.getTotalFees(ethers.ZeroAddress)).to.equal(registrationFee * 2n)
+      expect(await ethers.provider.getBalance(deployment.address)).to.equal(registrationFee * 2n)
+      expect(await presaleV2.whitelistStatus()).to.be.true
+      expect(await presaleV2.isAddressWhitelisted(addr3.address)).to.be.true
+      expect(await presaleV2.getSettings()).to.deep.equal(settings)
+      expect(await presaleV2.guardian()).to.equal(guardian.address)
+      expect(await presaleV2.referralRebateBps()).to.equal(500)
+      expect(await presaleV2.owner()).to.equal(owner.address)
+
+      await presaleV2.setBonus(7)
+      await presaleV2.connect(addr3).register({ value: registrationFee })
+      expect(await presaleV2.bonus()).to.equal(7)
+      expect(await presaleV2.getRegistrationCount()).to.equal(3)
+    })
+
+    it('Should not upgrade to incompatible storage layout', async function () {
+      const { deployment } = await deployPresale(hre, { config, deploymentsDir })
+
+      await expect(upgradePresale(hre, { contract: 'MockPresaleStorageClash', deploymentsDir })).to.be.rejectedWith(
+        'Storage layout of MockPresaleStorageClash is incompatible'
+      )
+      await expect(
+        upgradePresale(hre, { contract: 'MockPresaleStorageClash', deploymentsDir, dryRun: true })
+      ).to.be.rejectedWith('_paused: replaced by clash in slot 0')
+
+      const { upgraded } = await upgradePresale(hre, { contract: 'MockPresaleV2', deploymentsDir, dryRun: true })
+      expect(upgraded).to.be.false
+      expect(await getImplementationAddress(hre, deployment.address)).to.equal(deployment.implementation)
+      expect(readManifest(hre.network.name, deploymentsDir)?.contracts.Presale.versions).to.have.length(1)
+    })
+
+    it('Should not allow upgrade by not owner', async function () {
+      const [, addr1] = await ethers.getSigners()
+      const { deployment } = await deployPresale(hre, { config, deploymentsDir })
+      const presale = (await ethers.getContractAt('Presale', deployment.address)) as unknown as Presale
+      const implementation = await ethers.deployContract('MockPresaleV2', IMPLEMENTATION_ARGS)
+
+      await expect(presale.connect(addr1).upgradeToAndCall(implementation, '0x'))
+        .to.be.revertedWithCustomError(presale, 'OwnableUnauthorizedAccount')
+        .withArgs(addr1.address)
+    })
+
+    it('Should not upgrade plain deployment', async function () {
+      const { deployment } = await deployPresale(hre, { config: { ...config, proxy: false }, deploymentsDir })
+      const presale = (await ethers.getContractAt('Presale', deployment.address)) as unknown as Presale
+      const implementation = await ethers.deployContract('MockPresaleV2', IMPLEMENTATION_ARGS)
+
+      expect(deployment.implementation).to.be.undefined
+      await expect(upgradePresale(hre, { contract: 'MockPresaleV2', deploymentsDir })).to.be.rejectedWith(
+        'is not deployed behind proxy'
+      )
+      await expect(presale.upgradeToAndCall(implementation, '0x')).to.be.revertedWithCustomError(
+        presale,
+        'UUPSUnauthorizedCallContext'
+      )
+    })
+  })
+})
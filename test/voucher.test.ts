@@ -0,0 +1,329 @@
+import { expect } from 'chai'
+import hre, { ethers, network } from 'hardhat'
+import { ContractFactory, Signer, TypedDataDomain, ZeroAddress } from 'ethers'
+import { Presale } from '../typechain-types'
+import { PresaleRelayer } from '../scripts/utils/relayer'
+import {
+  PresaleClient,
+  PresaleClientError,
+  Voucher,
+  getVoucherDomain,
+  parseVoucher,
+  recoverVoucherSigner,
+  serializeVoucher,
+  signVoucher
+} from '../src/sdk'
+
+describe('Vouchers', function () {
+  let PresaleFactory: ContractFactory
+  let presale: Presale
+  let owner: Signer
+  let relayer: Signer
+  let voucherSigner: Signer
+  let addr1: Signer
+  let addr1Address: string
+  let domain: TypedDataDomain
+  let voucher: Voucher
+  let snapshot: string
+  let now: number
+  const maxRegistrations = 13
+  const registrationFee = ethers.parseEther('0.1')
+
+  beforeEach(async () => {
+    snapshot = await network.provider.send('evm_snapshot')
+    PresaleFactory = await ethers.getContractFactory('Presale')
+    ;[owner, relayer, voucherSigner, addr1] = await ethers.getSigners()
+    addr1Address = await addr1.getAddress()
+    now = Number((await ethers.provider.getBlock('latest'))?.timestamp)
+    presale = (await PresaleFactory.deploy(now - 60, now + 600, maxRegistrations, registrationFee, true)) as Presale
+    domain = await getVoucherDomain(presale)
+    voucher = { registrant: addr1Address, fee: 0n, nonce: 1n, expiry: BigInt(now + 300) }
+  })
+
+  afterEach(async () => {
+    await network.provider.send('evm_revert', [snapshot])
+  })
+
+  describe('Registration', function () {
+    it('Should register registrant of voucher signed by owner', async function () {
+      const signature = await signVoucher(owner, domain, voucher)
+      const tx = presale.connect(relayer).registerWithSignature(voucher, signature)
+      await expect(tx)
+        .to.emit(presale, 'VoucherUsed')
+        .withArgs(addr1Address, 1, await relayer.getAddress())
+      await expect(tx).to.emit(presale, 'Registered')
+      const registration = await presale.checkRegistration(addr1Address)
+      expect(registration.isRegistered).to.be.true
+      expect(registration.paidFee).to.equal(0)
+      expect(await presale.isVoucherNonceUsed(addr1Address, 1)).to.be.true
+    })
+
+    it('Should charge fee of voucher instead of registration fee', async function () {
+      voucher.fee = ethers.parseEther('0.02')
+      const signature = await signVoucher(owner, domain, voucher)
+      await expect(presale.connect(relayer).registerWithSignature(voucher, signature, { value: voucher.fee / 2n }))
+        .to.be.revertedWithCustomError(presale, 'IncorrectRegistrationFee')
+        .withArgs(voucher.fee)
+      await expect(
+        presale.connect(relayer).registerWithSignature(voucher, signature, { value: voucher.fee })
+      ).to.changeEtherBalance(presale, voucher.fee)
+      expect((await presale.checkRegistration(addr1Address)).paidFee).to.equal(voucher.fee)
+    })
+
+    it('Should refund fee of voucher to relayer who paid it', async function () {
+      voucher.fee = ethers.parseEther('1')
+      const signature = await signVoucher(owner, domain, voucher)
+      await presale.connect(relayer).registerWithSignature(voucher, signature, { value: voucher.fee })
+      expect((await presale.checkRegistration(addr1Address)).payer).to.equal(await relayer.getAddress())
+      await presale.cancelPresale()
+
+      const tx = presale.connect(addr1).refund()
+      await expect(tx).to.changeEtherBalances([relayer, addr1], [voucher.fee, 0])
+      await expect(tx).to.emit(presale, 'Refunded').withArgs(addr1Address, voucher.fee, ZeroAddress)
+    })
+
+    it('Should accept voucher signed by voucher signer', async function () {
+      const signature = await signVoucher(voucherSigner, domain, voucher)
+      await expect(presale.connect(relayer).registerWithSignature(voucher, signature))
+        .to.be.revertedWithCustomError(presale, 'InvalidVoucherSigner')
+        .withArgs(await voucherSigner.getAddress())
+
+      await expect(presale.connect(owner).setVoucherSigner(await voucherSigner.getAddress()))
+        .to.emit(presale, 'ChangedVoucherSigner')
+        .withArgs(ZeroAddress, await voucherSigner.getAddress())
+      await presale.connect(relayer).registerWithSignature(voucher, signature)
+      expect((await presale.checkRegistration(addr1Address)).isRegistered).to.be.true
+    })
+
+    it('Should not accept voucher signed by wrong signer', async function () {
+      const signature = await signVoucher(addr1, domain, voucher)
+      await expect(presale.connect(relayer).registerWithSignature(voucher, signature))
+        .to.be.revertedWithCustomError(presale, 'InvalidVoucherSigner')
+        .withArgs(addr1Address)
+    })
+
+    it('Should not accept changed voucher', async function () {
+      const signature = await signVoucher(owner, domain, voucher)
+      await expect(
+        presale.connect(relayer).registerWithSignature({ ...voucher, expiry: voucher.expiry + 1n }, signature)
+      ).to.be.revertedWithCustomError(presale, 'InvalidVoucherSigner')
+    })
+
+    it('Should not accept voucher of another Presale', async function () {
+      const other = (await PresaleFactory.deploy(
+        now - 60,
+        now + 600,
+        maxRegistrations,
+        registrationFee,
+        true
+      )) as Presale
+      const signature = await signVoucher(owner, await getVoucherDomain(other), voucher)
+      await expect(presale.connect(relayer).registerWithSignature(voucher, signature)).to.be.revertedWithCustomError(
+        presale,
+        'InvalidVoucherSigner'
+      )
+    })
+
+    it('Should accept voucher at expiry and not after', async function () {
+      const signature = await signVoucher(owner, domain, voucher)
+      await network.provider.send('evm_setNextBlockTimestamp', [Number(voucher.expiry) + 1])
+      await expect(presale.connect(relayer).registerWithSignature(voucher, signature))
+        .to.be.revertedWithCustomError(presale, 'VoucherExpired')
+        .withArgs(voucher.expiry)
+
+      await network.provider.send('evm_revert', [snapshot])
+      snapshot = await network.provider.send('evm_snapshot')
+      presale = (await PresaleFactory.deploy(now - 60, now + 600, maxRegistrations, registrationFee, true)) as Presale
+      const newSignature = await signVoucher(owner, await getVoucherDomain(presale), voucher)
+      await network.provider.send('evm_setNextBlockTimestamp', [Number(voucher.expiry)])
+      await presale.connect(relayer).registerWithSignature(voucher, newSignature)
+      expect((await presale.checkRegistration(addr1Address)).isRegistered).to.be.true
+    })
+
+    it('Should not replay voucher', async function () {
+      const signature = await signVoucher(owner, domain, voucher)
+      await presale.connect(relayer).registerWithSignature(voucher, signature)
+      await expect(presale.connect(relayer).registerWithSignature(voucher, signature))
+        .to.be.revertedWithCustomError(presale, 'UserAlreadyRegistered')
+        .withArgs(addr1Address, (await presale.checkRegistration(addr1Address)).timestamp)
+    })
+
+    it('Should not accept invalidated voucher', async function () {
+      const signature = await signVoucher(owner, domain, voucher)
+      await expect(presale.connect(owner).invalidateVoucher(addr1Address, 1))
+        .to.emit(presale, 'VoucherInvalidated')
+        .withArgs(addr1Address, 1)
+      await expect(presale.connect(relayer).registerWithSignature(voucher, signature))
+        .to.be.revertedWithCustomError(presale, 'VoucherNonceUsed')
+        .withArgs(addr1Address, 1)
+      await expect(presale.connect(relayer).invalidateVoucher(addr1Address, 2)).to.be.revertedWithCustomError(
+        presale,
+        'OwnableUnauthorizedAccount'
+      )
+    })
+
+    it('Should keep checks of register', async function () {
+      const signature = await signVoucher(owner, domain, voucher)
+      await presale.connect(owner).pause()
+      await expect(presale.connect(relayer).registerWithSignature(voucher, signature)).to.be.revertedWithCustomError(
+        presale,
+        'EnforcedPause'
+      )
+      await presale.connect(owner).unpause()
+      await presale.connect(owner).setSettings(now - 60, now + 600, 0, registrationFee)
+      await expect(presale.connect(relayer).registerWithSignature(voucher, signature))
+        .to.be.revertedWithCustomError(presale, 'RegistrationLimitExceeded')
+        .withArgs(0, 0)
+      await presale.connect(owner).setSettings(now + 500, now + 600, maxRegistrations, registrationFee)
+      await expect(presale.connect(relayer).registerWithSignature(voucher, signature)).to.be.revertedWithCustomError(
+        presale,
+        'PresaleIsNotActive'
+      )
+    })
+
+    it('Should not allow non-owners to set voucher signer', async function () {
+      await expect(presale.connect(addr1).setVoucherSigner(addr1Address)).to.be.revertedWithCustomError(
+        presale,
+        'OwnableUnauthorizedAccount'
+      )
+    })
+  })
+
+  describe('Signing library', function () {
+    it('Should recover signer of voucher off-chain like contract', async function () {
+      const signature = await signVoucher(voucherSigner, domain, voucher)
+      expect(recoverVoucherSigner(domain, voucher, signature)).to.equal(await voucherSigner.getAddress())
+      expect(await presale.recoverVoucherSigner(voucher, signature)).to.equal(await voucherSigner.getAddress())
+    })
+
+    it('Should serialize voucher to JSON and back', async function () {
+      const signature = await signVoucher(owner, domain, voucher)
+      const json = JSON.parse(JSON.stringify(serializeVoucher(voucher, signature)))
+      expect(parseVoucher(json)).to.deep.equal({ voucher, signature })
+      expect(() => parseVoucher({ ...json, voucher: { ...json.voucher, nonce: 'one' } })).to.throw('decimal strings')
+    })
+
+    it('Should sign and relay voucher with client', async function () {
+      const signature = await new PresaleClient(await presale.getAddress(), owner).signVoucher(voucher)
+      const client = new PresaleClient(await presale.getAddress(), relayer)
+      await client.registerWithSignature(voucher, signature)
+      const error = await client.registerWithSignature(voucher, signature).catch((error) => error)
+      expect(error).to.be.instanceOf(PresaleClientError)
+      expect(error.error.name).to.equal('UserAlreadyRegistered')
+    })
+  })
+
+  describe('Relayer', function () {
+    let service: PresaleRelayer
+    let url: string
+
+    beforeEach(async () => {
+      service = new PresaleRelayer({ presale: presale.connect(relayer), maxFee: ethers.parseEther('0.01') })
+      const { port } = await service.listen(0)
+      url = `http://127.0.0.1:${port}`
+    })
+
+    afterEach(async () => {
+      await service.close()
+    })
+
+    async function post(body: unknown) {
+      const response = await fetch(`${url}/register`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: typeof body === 'string' ? body : JSON.stringify(body)
+      })
+      return { status: response.status, body: await response.json() }
+    }
+
+    it('Should report health', async function () {
+      const response = await fetch(`${url}/health`)
+      expect(await response.json()).to.deep.equal({
+        status: 'ok',
+        presale: await presale.getAddress(),
+        relayer: await relayer.getAddress()
+      })
+    })
+
+    it('Should relay signed voucher', async function () {
+      const signature = await signVoucher(owner, domain, voucher)
+      const { status, body } = await post(serializeVoucher(voucher, signature))
+      expect(status).to.equal(200)
+      const receipt = await ethers.provider.getTransactionReceipt(body.transactionHash)
+      expect(receipt?.from).to.equal(await relayer.getAddress())
+      expect(body.blockNumber).to.equal(receipt?.blockNumber)
+      expect((await presale.checkRegistration(addr1Address)).isRegistered).to.be.true
+    })
+
+    it('Should reject replayed voucher', async function () {
+      const body = serializeVoucher(voucher, await signVoucher(owner, domain, voucher))
+      expect((await post(body)).status).to.equal(200)
+      const replay = await post(body)
+      expect(replay.status).to.equal(400)
+      expect(replay.body.error).to.equal('UserAlreadyRegistered')
+    })
+
+    it('Should reject expired voucher without sending transaction', async function () {
+      voucher.expiry = BigInt(now - 1)
+      const nonce = await ethers.provider.getTransactionCount(relayer)
+      const { status, body } = await post(serializeVoucher(voucher, await signVoucher(owner, domain, voucher)))
+      expect(status).to.equal(400)
+      expect(body.error).to.equal('VoucherExpired')
+      expect(body.message).to.include('Voucher expired at')
+      expect(await ethers.provider.getTransactionCount(relayer)).to.equal(nonce)
+    })
+
+    it('Should reject voucher of wrong signer', async function () {
+      const { status, body } = await post(serializeVoucher(voucher, await signVoucher(addr1, domain, voucher)))
+      expect(status).to.equal(400)
+      expect(body.error).to.equal('InvalidVoucherSigner')
+    })
+
+    it('Should reject voucher with fee above maximum of relayer', async function () {
+      voucher.fee = ethers.parseEther('0.02')
+      const { status, body } = await post(serializeVoucher(voucher, await signVoucher(owner, domain, voucher)))
+      expect(status).to.equal(403)
+      expect(body.error).to.equal('FeeNotAccepted')
+    })
+
+    it('Should reject invalid request', async function () {
+      expect((await post('not json')).status).to.equal(400)
+      expect((await post({ voucher: {} })).body.error).to.equal('InvalidRequest')
+      expect((await fetch(`${url}/unknown`)).status).to.equal(404)
+    })
+
+    it('Should relay concurrent vouchers one by one', async function () {
+      const signers = (await ethers.getSigners()).slice(4, 7)
+      const responses = await Promise.all(
+        signers.map(async (signer, index) => {
+          const item = { ...voucher, registrant: await signer.getAddress(), nonce: BigInt(index) }
+          return post(serializeVoucher(item, await signVoucher(owner, domain, item)))
+        })
+      )
+      expect(responses.map((response) => response.status)).to.deep.equal([200, 200, 200])
+      expect(await presale.getRegistrationCount()).to.equal(3)
+    })
+  })
+
+  describe('Tasks', function () {
+    it('Should sign voucher accepted by contract', async function () {
+      const log = console.log
+      const output: string[] = []
+      console.log = (...args: unknown[]) => output.push(args.join(' '))
+      try {
+        await hre.run('presale:voucher', {
+          address: await presale.getAddress(),
+          registrant: addr1Address,
+          nonce: '7',
+          expiry: String(now + 300)
+        })
+      } finally {
+        console.log = log
+      }
+      const { voucher: signed, signature } = parseVoucher(JSON.parse(output.join('\n')))
+      expect(signed).to.deep.equal({ ...voucher, nonce: 7n })
+      await presale.connect(relayer).registerWithSignature(signed, signature)
+      expect((await presale.checkRegistration(addr1Address)).isRegistered).to.be.true
+    })
+  })
+})
@@ -0,0 +1,152 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { expect } from 'chai'
+import hre, { ethers } from 'hardhat'
+import { ContractFactory } from 'ethers'
+import { Presale } from '../typechain-types'
+import {
+  estimateBatchGas,
+  parseAddressList,
+  readJournal,
+  runWhitelistBatches,
+  writeJournal
+} from '../scripts/utils/whitelist'
+
+describe('Whitelist import', function () {
+  let PresaleFactory: ContractFactory
+  let presale: Presale
+  let directory: string
+  let journalPath: string
+  const startDate = Math.floor((new Date().getTime() - 2 * 60 * 60 * 1000) / 1000)
+  const endDate = Math.floor((new Date().getTime() + 5 * 24 * 60 * 60 * 1000) / 1000)
+  const registrationFee = ethers.parseEther('0.1')
+  const addresses = Array.from({ length: 12 }, () => ethers.Wallet.createRandom().address)
+
+  beforeEach(async () => {
+    PresaleFactory = await ethers.getContractFactory('Presale')
+    presale = (await PresaleFactory.deploy(startDate, endDate, 13, registrationFee, true)) as Presale
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'whitelist-'))
+    journalPath = path.join(directory, 'journal.json')
+  })
+
+  afterEach(async () => {
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  async function maxGasForBatch(size: number): Promise<bigint> {
+    const estimate = await estimateBatchGas(presale, 'add', addresses.slice(0, 10))
+    return estimate.base + estimate.perAddress * BigInt(size)
+  }
+
+  describe('Parsing', function () {
+    it('Should parse CSV with header and checksum addresses', async function () {
+      const content = [
+        'address,amount',
+        `${addresses[0].toLowerCase()},1`,
+        `"${addresses[1]}";2`,
+        '',
+        '# comment'
+      ].join('\n')
+      expect(parseAddressList(content)).to.deep.equal({
+        addresses: [addresses[0], addresses[1]],
+        invalid: [],
+        duplicates: 0
+      })
+    })
+
+    it('Should report invalid rows and duplicates', async function () {
+      const badChecksum = addresses[0].slice(0, 2) + addresses[0].slice(2).replace(/[a-f]/, (c) => c.toUpperCase())
+      const content = [addresses[0], 'hello', badChecksum, addresses[0].toLowerCase(), '0x1234'].join('\n')
+      const list = parseAddressList(content)
+      expect(list.addresses).to.deep.equal([addresses[0]])
+      expect(list.duplicates).to.equal(1)
+      expect(list.invalid).to.deep.equal([
+        { line: 2, value: 'hello', reason: 'invalid address' },
+        { line: 3, value: badChecksum, reason: 'bad checksum' },
+        { line: 5, value: '0x1234', reason: 'invalid address' }
+      ])
+    })
+  })
+
+  describe('Batches', function () {
+    it('Should add addresses in batches sized by gas estimate', async function () {
+      const result = await runWhitelistBatches(presale, {
+        action: 'add',
+        addresses,
+        journalPath,
+        maxGas: await maxGasForBatch(5)
+      })
+      expect(result).to.deep.equal({ skipped: 0, sent: 12, batches: 3 })
+      expect(readJournal(journalPath)?.batches.map((batch) => batch.addresses.length)).to.deep.equal([5, 5, 2])
+      for (const address of addresses) {
+        expect(await presale.isAddressWhitelisted(address)).to.be.true
+      }
+    })
+
+    it('Should skip addresses already whitelisted', async function () {
+      await presale.addBatchToWhitelist(addresses.slice(0, 4))
+      const result = await runWhitelistBatches(presale, { action: 'add', addresses, journalPath, maxGas: 10_000_000n })
+      expect(result).to.deep.equal({ skipped: 4, sent: 8, batches: 1 })
+    })
+
+    it('Should resume from journal without resending batches', async function () {
+      const tx = await presale.addBatchToWhitelist(addresses.slice(0, 6))
+      writeJournal(journalPath, {
+        presale: await presale.getAddress(),
+        action: 'add',
+        batches: [{ addresses: addresses.slice(0, 6), transactionHash: tx.hash, status: 'pending' }]
+      })
+      const result = await runWhitelistBatches(presale, { action: 'add', addresses, journalPath, maxGas: 10_000_000n })
+      expect(result).to.deep.equal({ skipped: 6, sent: 6, batches: 1 })
+      expect(readJournal(journalPath)?.batches.map((batch) => batch.status)).to.deep.equal(['confirmed', 'confirmed'])
+    })
+
+    it('Should remove addresses from whitelist', async function () {
+      await presale.addBatchToWhitelist(addresses.slice(0, 6))
+      const result = await runWhitelistBatches(presale, {
+        action: 'remove',
+        addresses,
+        journalPath,
+        maxGas: 10_000_000n
+      })
+      expect(result).to.deep.equal({ skipped: 6, sent: 6, batches: 1 })
+      expect(await presale.isAddressWhitelisted(addresses[0])).to.be.false
+    })
+
+    it('Should not send transactions in dry run', async function () {
+      const result = await runWhitelistBatches(presale, {
+        action: 'add',
+        addresses,
+        journalPath,
+        maxGas: await maxGasForBatch(5),
+        dryRun: true
+      })
+      expect(result).to.deep.equal({ skipped: 0, sent: 0, batches: 3 })
+      expect(await presale.isAddressWhitelisted(addresses[0])).to.be.false
+    })
+
+    it('Should not allow journal of another action', async function () {
+      writeJournal(journalPath, { presale: await presale.getAddress(), action: 'remove', batches: [] })
+      await expect(
+        runWhitelistBatches(presale, { action: 'add', addresses, journalPath, maxGas: 10_000_000n })
+      ).to.be.rejectedWith('belongs to "remove"')
+    })
+  })
+
+  describe('Task', function () {
+    it('Should import addresses from file', async function () {
+      const log = console.log
+      const file = path.join(directory, 'allowlist.csv')
+      fs.writeFileSync(file, ['address', ...addresses, 'invalid'].join('\n'))
+      console.log = () => undefined
+      try {
+        await hre.run('whitelist:import', { address: await presale.getAddress(), file, maxGas: 10_000_000 })
+      } finally {
+        console.log = log
+      }
+      expect(await presale.isAddressWhitelisted(addresses[11])).to.be.true
+      expect(fs.existsSync(`${file}.hardhat.add.journal.json`)).to.be.true
+    })
+  })
+})